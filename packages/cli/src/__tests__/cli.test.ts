@@ -137,7 +137,7 @@ describe('CLI', () => {
          const { stdout, exitCode } = await runCli([ 'query', '--help' ]);
 
          expect(exitCode).toBe(0);
-         expect(stdout).toContain('Search a .libragen library');
+         expect(stdout).toContain('Search one or more .libragen libraries');
          expect(stdout).toContain('--library');
          expect(stdout).toContain('--path');
          expect(stdout).toContain('Project directory');
@@ -578,6 +578,29 @@ describe('CLI', () => {
 
          expect(data.type).toBe('library');
          expect(data.metadata.name).toBe('inspect-json-lib');
+         expect(data.documents).toBeUndefined();
+      });
+
+      it('lists documents with --documents flag', async () => {
+         const outputPath = path.join(tempDir, 'inspect-documents-test.libragen');
+
+         await runCli([
+            'build',
+            FIXTURES_DIR,
+            '-o', outputPath,
+            '-n', 'inspect-documents-lib',
+         ]);
+
+         const { stdout, exitCode } = await runCli([ 'inspect', outputPath, '--json', '--documents' ]);
+
+         expect(exitCode).toBe(0);
+
+         const data = JSON.parse(stdout);
+
+         expect(data.documents).toHaveLength(data.metadata.stats.sourceCount);
+         expect(data.documents[0].contentHash).toMatch(/^sha256:[0-9a-f]{64}$/);
+         expect(data.documents[0].blobSha).toMatch(/^[0-9a-f]{40}$/);
+         expect(data.documents[0].chunkCount).toBeGreaterThan(0);
       });
 
       it('fails for non-existent file', async () => {
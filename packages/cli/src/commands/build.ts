@@ -8,37 +8,54 @@ import { Args, Flags } from '@oclif/core';
 import chalk from 'chalk';
 import {
    Builder,
+   BuildCancelledError,
+   createEmbedder,
+   EmbeddingCache,
    formatBytes,
    formatDuration,
    isGitUrl,
+   loadBuildConfig,
    parseGitUrl,
    estimateEmbeddingTime,
    formatSystemInfo,
 } from '@libragen/core';
-import type { BuildProgress } from '@libragen/core';
+import type { BuildConfig, BuildProgress, BuildResult, EmbeddingProvider, LibraryMetadata } from '@libragen/core';
 import { BaseCommand } from '../base-command.ts';
 
 export default class Build extends BaseCommand {
    public static override summary = 'Build a .libragen library from source files';
 
    public static override description = `Creates a searchable RAG library from documentation, code, or other text files.
-Supports local directories, single files, and git repositories (public or private).`;
+Supports local directories, single files, and git repositories (public or private).
+Use --config to build one library from several sources listed in a JSON or YAML build config.`;
 
    public static override examples = [
       '<%= config.bin %> <%= command.id %> ./docs',
       '<%= config.bin %> <%= command.id %> ./docs --name my-docs --description "My documentation"',
       '<%= config.bin %> <%= command.id %> https://github.com/org/repo',
       '<%= config.bin %> <%= command.id %> https://github.com/org/repo --git-ref v1.0.0',
+      '<%= config.bin %> <%= command.id %> https://github.com/org/repo --git-ref v1.0.0 --git-ref v2.0.0',
+      '<%= config.bin %> <%= command.id %> ./docs -o my-docs-1.1.0.libragen --base my-docs-1.0.0.libragen',
+      '<%= config.bin %> <%= command.id %> --config libragen.build.json',
+      '<%= config.bin %> <%= command.id %> ./docs --resume',
+      '<%= config.bin %> <%= command.id %> ./docs --workers 4',
+      '<%= config.bin %> <%= command.id %> ./docs --embedding-cache',
+      '<%= config.bin %> <%= command.id %> ./docs --chunk-size 2000 --child-chunk-size 400',
+      '<%= config.bin %> <%= command.id %> ./docs --embedder http --embedder-url http://localhost:11434/v1 --embedder-model nomic-embed-text',
    ];
 
    public static override args = {
       source: Args.string({
-         description: 'Source directory, file, or git URL to index',
-         required: true,
+         description: 'Source directory, file, or git URL to index (omit when using --config)',
+         required: false,
       }),
    };
 
    public static override flags = {
+      config: Flags.string({
+         char: 'c',
+         description: 'Build config file (JSON or YAML) listing the sources to build from; other flags override its settings',
+      }),
       output: Flags.string({
          char: 'o',
          description: 'Output path for the .libragen file',
@@ -49,8 +66,7 @@ Supports local directories, single files, and git repositories (public or privat
       }),
       version: Flags.string({
          char: 'v',
-         description: 'Library version',
-         default: '0.1.0',
+         description: 'Library version (default: 0.1.0)',
       }),
       'content-version': Flags.string({
          description: 'Version of the source content',
@@ -83,12 +99,15 @@ Supports local directories, single files, and git repositories (public or privat
          multiple: true,
       }),
       'chunk-size': Flags.string({
-         description: 'Target chunk size in characters',
-         default: '1000',
+         description: 'Target chunk size in characters (default: 1000)',
       }),
       'chunk-overlap': Flags.string({
-         description: 'Chunk overlap in characters',
-         default: '100',
+         description: 'Chunk overlap in characters (default: 100)',
+      }),
+      'child-chunk-size': Flags.integer({
+         description: 'Embed child chunks of this many characters, storing each chunk as their parent '
+            + 'for queries with --return-parents',
+         min: 1,
       }),
       include: Flags.string({
          char: 'i',
@@ -101,12 +120,13 @@ Supports local directories, single files, and git repositories (public or privat
          multiple: true,
       }),
       'default-excludes': Flags.boolean({
-         description: 'Use default exclusions (node_modules, .git, dist, etc.)',
-         default: true,
+         description: 'Use default exclusions (node_modules, .git, dist, etc.) (default: true)',
          allowNo: true,
       }),
       'git-ref': Flags.string({
-         description: 'Git branch, tag, or commit to checkout (remote git sources only)',
+         description: 'Git branch, tag, or commit to checkout (remote git sources only). Repeat to build '
+            + 'several refs into one library, each as its own content version',
+         multiple: true,
       }),
       'git-repo-auth-token': Flags.string({
          description: 'Auth token for private git repositories',
@@ -116,15 +136,59 @@ Supports local directories, single files, and git repositories (public or privat
          multiple: true,
       }),
       'ast-chunking': Flags.boolean({
-         description: 'Use AST-aware chunking for code files',
-         default: true,
+         description: 'Use AST-aware chunking for code files (default: true)',
          allowNo: true,
       }),
       'context-mode': Flags.string({
-         description: 'Context mode for AST chunking: none, minimal, or full',
-         default: 'full',
+         description: 'Context mode for AST chunking: none, minimal, or full (default: full)',
          options: [ 'none', 'minimal', 'full' ],
       }),
+      base: Flags.string({
+         description: 'Previous .libragen build to reuse embeddings from for unchanged chunks',
+      }),
+      resume: Flags.boolean({
+         description: 'Continue an interrupted build from its last checkpoint (same sources and options)',
+         default: false,
+      }),
+      embedder: Flags.string({
+         description: 'Embedding provider: local transformers model, or an OpenAI-compatible http endpoint',
+         default: 'transformers',
+         options: [ 'transformers', 'http' ],
+         env: 'LIBRAGEN_EMBEDDER',
+      }),
+      'embedder-model': Flags.string({
+         description: 'Embedding model (required for the http embedder)',
+         env: 'LIBRAGEN_EMBEDDER_MODEL',
+      }),
+      'embedder-url': Flags.string({
+         description: 'Base URL of the embeddings API, e.g. http://localhost:11434/v1 (http embedder)',
+         env: 'LIBRAGEN_EMBEDDER_URL',
+      }),
+      'embedder-api-key': Flags.string({
+         description: 'API key for the embeddings API (http embedder)',
+         env: 'LIBRAGEN_EMBEDDER_API_KEY',
+      }),
+      'embedder-prefix': Flags.string({
+         description: 'Instruction prefix profile for queries and documents (defaults to the one the model was trained with)',
+         options: [ 'none', 'bge', 'e5', 'nomic' ],
+         env: 'LIBRAGEN_EMBEDDER_PREFIX',
+      }),
+      workers: Flags.integer({
+         description: 'Worker threads to embed with, each loading its own copy of the model (transformers embedder)',
+         default: 1,
+         min: 1,
+      }),
+      'embedding-cache': Flags.boolean({
+         description: 'Reuse embeddings cached by earlier builds, and cache the ones this build computes',
+         default: false,
+         env: 'LIBRAGEN_EMBEDDING_CACHE',
+      }),
+      'embedding-cache-size': Flags.integer({
+         description: 'Size limit of the embedding cache in MB; least recently used embeddings are evicted past it',
+         default: 1024,
+         min: 1,
+         env: 'LIBRAGEN_EMBEDDING_CACHE_SIZE',
+      }),
    };
 
    public static override aliases = [ 'b' ];
@@ -135,23 +199,25 @@ Supports local directories, single files, and git repositories (public or privat
       const spinner = this.createSpinner();
 
       try {
-         const isGit = isGitUrl(args.source);
+         if (args.source && flags.config) {
+            throw new Error('Pass either a source or --config, not both');
+         }
 
-         if (isGit) {
-            const parsed = parseGitUrl(args.source);
+         const gitRefs = flags['git-ref'] ?? [];
 
-            console.log(chalk.bold('\n📚 Building libragen library from git\n'));
-            console.log(`  Repository: ${chalk.cyan(parsed.repoUrl)}`);
-            if (flags['git-ref'] || parsed.ref) {
-               console.log(`  Ref:        ${chalk.cyan(flags['git-ref'] || parsed.ref)}`);
-            }
-            if (parsed.path) {
-               console.log(`  Path:       ${chalk.cyan(parsed.path)}`);
-            }
-            console.log('');
+         if (flags.config && gitRefs.length > 1) {
+            throw new Error('--git-ref can only be repeated when building a single source');
+         }
+
+         let config: BuildConfig | undefined;
+
+         if (flags.config) {
+            config = await loadBuildConfig(flags.config);
+            this.printConfigHeader(flags.config, config);
+         } else if (args.source) {
+            this.printSourceHeader(args.source, gitRefs);
          } else {
-            console.log(chalk.bold('\n📚 Building libragen library\n'));
-            console.log(`  Source:  ${chalk.cyan(args.source)}`);
+            throw new Error('Provide a source to build, or a build config with --config');
          }
 
          let estimateShown = false;
@@ -174,14 +240,19 @@ Supports local directories, single files, and git repositories (public or privat
                   break;
                }
                case 'embedding': {
-                  if (!estimateShown && progress.total) {
+                  if (!estimateShown && progress.current && progress.total && progress.chunkCount) {
                      if (spinner.isSpinning) {
                         spinner.succeed();
                      }
-                     const estimate = estimateEmbeddingTime(progress.total);
+                     // Files are chunked as they are embedded, so extrapolate the chunk
+                     // count from the files read so far
+                     const expectedChunks = Math.round((progress.chunkCount * progress.total) / progress.current),
+                           estimate = estimateEmbeddingTime(expectedChunks, flags.workers);
+
+                     const workersMsg = flags.workers > 1 ? ` with ${flags.workers} workers` : '';
 
                      const estMsg = `${chalk.yellow(estimate.formattedTime)} ` +
-                        `(~${Math.round(estimate.chunksPerSecond)} chunks/sec)`;
+                        `(~${Math.round(estimate.chunksPerSecond)} chunks/sec${workersMsg})`;
 
                      console.log('');
                      console.log(`  ${chalk.dim('System:')}      ${formatSystemInfo(estimate.systemInfo)}`);
@@ -211,7 +282,20 @@ Supports local directories, single files, and git repositories (public or privat
             }
          };
 
-         const builder = new Builder();
+         const embedder = createEmbedder({
+            provider: flags.embedder as EmbeddingProvider,
+            model: flags['embedder-model'],
+            url: flags['embedder-url'],
+            apiKey: flags['embedder-api-key'],
+            prefixProfile: flags['embedder-prefix'],
+            workers: flags.workers,
+         });
+
+         const embeddingCache = flags['embedding-cache']
+            ? new EmbeddingCache({ maxSizeBytes: flags['embedding-cache-size'] * 1024 * 1024 })
+            : undefined;
+
+         const builder = new Builder({ embedder, embeddingCache });
 
          const buildOptions = {
             output: flags.output,
@@ -227,17 +311,32 @@ Supports local directories, single files, and git repositories (public or privat
             frameworks: flags.frameworks,
             chunkSize: flags['chunk-size'] ? parseInt(flags['chunk-size'], 10) : undefined,
             chunkOverlap: flags['chunk-overlap'] ? parseInt(flags['chunk-overlap'], 10) : undefined,
+            childChunkSize: flags['child-chunk-size'],
             include: flags.include,
             exclude: flags.exclude,
-            noDefaultExcludes: !flags['default-excludes'],
-            gitRef: flags['git-ref'],
+            noDefaultExcludes: flags['default-excludes'] === undefined ? undefined : !flags['default-excludes'],
+            gitRef: gitRefs.length === 1 ? gitRefs[0] : undefined,
+            gitRefs: gitRefs.length > 1 ? gitRefs : undefined,
             gitRepoAuthToken: flags['git-repo-auth-token'],
             license: flags.license,
-            noAstChunking: !flags['ast-chunking'],
+            noAstChunking: flags['ast-chunking'] === undefined ? undefined : !flags['ast-chunking'],
             contextMode: flags['context-mode'] as 'none' | 'minimal' | 'full' | undefined,
+            base: flags.base,
+            resume: flags.resume,
          };
 
-         const result = await builder.build(args.source, buildOptions, handleBuildProgress);
+         let result: BuildResult;
+
+         try {
+            result = await this.runCancellableBuild(spinner, (signal) => {
+               return config
+                  ? builder.buildFromConfig(config, { ...buildOptions, signal }, handleBuildProgress)
+                  : builder.build(args.source ?? '', { ...buildOptions, signal }, handleBuildProgress);
+            });
+         } finally {
+            await embedder.dispose();
+            embeddingCache?.close();
+         }
 
          if (result.git) {
             spinner.info(`Commit: ${result.git.commitHash.slice(0, 8)}`);
@@ -249,24 +348,115 @@ Supports local directories, single files, and git repositories (public or privat
             }
          }
 
-         console.log(chalk.bold.green('\n✅ Library built successfully!\n'));
-         console.log(`  ${chalk.dim('File:')}        ${result.outputPath}`);
-         console.log(`  ${chalk.dim('Size:')}        ${formatBytes(result.stats.fileSize)}`);
-         console.log(`  ${chalk.dim('Chunks:')}      ${result.stats.chunkCount}`);
-         console.log(`  ${chalk.dim('Sources:')}     ${result.stats.sourceCount} files`);
-         const embedMsg = `${formatDuration(result.stats.embedDuration)} ` +
-            `(~${result.stats.chunksPerSecond} chunks/sec)`;
-
-         console.log(`  ${chalk.dim('Embed time:')}  ${embedMsg}`);
-         if (result.metadata.source?.licenses?.length) {
-            console.log(`  ${chalk.dim('License:')}     ${result.metadata.source.licenses.join(', ')}`);
-         }
-         console.log(`  ${chalk.dim('Hash:')}        ${result.metadata.contentHash.replace('sha256:', '').slice(0, 16)}...`);
-         console.log('');
+         this.printBuildSummary(result, Boolean(flags.base), flags['embedding-cache']);
       } catch(error) {
+         if (error instanceof BuildCancelledError) {
+            spinner.warn('Build cancelled');
+            process.exit(130);
+         }
          spinner.fail('Build failed');
          console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
          process.exit(1);
       }
    }
+
+   /**
+    * Run a build that Ctrl-C cancels. The build cleans up after itself; pressing Ctrl-C
+    * again exits right away.
+    */
+   private async runCancellableBuild(
+      spinner: ReturnType<typeof import('ora').default>,
+      build: (signal: AbortSignal) => Promise<BuildResult>
+   ): Promise<BuildResult> {
+      const controller = new AbortController();
+
+      const cancelBuild = (): void => {
+         spinner.text = 'Cancelling build...';
+         controller.abort();
+      };
+
+      process.once('SIGINT', cancelBuild);
+      process.once('SIGTERM', cancelBuild);
+
+      try {
+         return await build(controller.signal);
+      } finally {
+         process.removeListener('SIGINT', cancelBuild);
+         process.removeListener('SIGTERM', cancelBuild);
+      }
+   }
+
+   private printBuildSummary(result: BuildResult, showReuse: boolean, showCached: boolean): void {
+      console.log(chalk.bold.green('\n✅ Library built successfully!\n'));
+      console.log(`  ${chalk.dim('File:')}        ${result.outputPath}`);
+      console.log(`  ${chalk.dim('Size:')}        ${formatBytes(result.stats.fileSize)}`);
+      console.log(`  ${chalk.dim('Chunks:')}      ${result.stats.chunkCount}`);
+      console.log(`  ${chalk.dim('Sources:')}     ${result.stats.sourceCount} files`);
+      if (result.metadata.contentVersions && result.metadata.contentVersions.length > 1) {
+         console.log(`  ${chalk.dim('Versions:')}    ${result.metadata.contentVersions.join(', ')}`);
+      }
+      const embedMsg = `${formatDuration(result.stats.embedDuration)} ` +
+         `(~${result.stats.chunksPerSecond} chunks/sec)`;
+
+      console.log(`  ${chalk.dim('Embed time:')}  ${embedMsg}`);
+      if (result.stats.embeddingsResumed > 0) {
+         console.log(`  ${chalk.dim('Resumed:')}     ${result.stats.embeddingsResumed} chunks from the interrupted build`);
+      }
+      if (showReuse || showCached) {
+         const reuseMsg = [
+            showReuse ? `${result.stats.embeddingsReused} reused` : undefined,
+            showCached ? `${result.stats.embeddingsCached} cached` : undefined,
+            `${result.stats.embeddingsComputed} recomputed`,
+         ];
+
+         console.log(`  ${chalk.dim('Embeddings:')}  ${reuseMsg.filter(Boolean).join(', ')}`);
+      }
+      const licenses = this.getLicenses(result.metadata);
+
+      if (licenses.length > 0) {
+         console.log(`  ${chalk.dim('License:')}     ${licenses.join(', ')}`);
+      }
+      console.log(`  ${chalk.dim('Hash:')}        ${result.metadata.contentHash.replace('sha256:', '').slice(0, 16)}...`);
+      console.log('');
+   }
+
+   private printSourceHeader(source: string, gitRefs: string[]): void {
+      if (isGitUrl(source)) {
+         const parsed = parseGitUrl(source),
+               parsedRefs = parsed.ref ? [ parsed.ref ] : [],
+               refs = gitRefs.length > 0 ? gitRefs : parsedRefs;
+
+         console.log(chalk.bold('\n📚 Building libragen library from git\n'));
+         console.log(`  Repository: ${chalk.cyan(parsed.repoUrl)}`);
+         if (refs.length > 0) {
+            console.log(`  ${refs.length > 1 ? 'Refs:' : 'Ref: '}       ${chalk.cyan(refs.join(', '))}`);
+         }
+         if (parsed.path) {
+            console.log(`  Path:       ${chalk.cyan(parsed.path)}`);
+         }
+         console.log('');
+      } else {
+         console.log(chalk.bold('\n📚 Building libragen library\n'));
+         console.log(`  Source:  ${chalk.cyan(source)}`);
+      }
+   }
+
+   private printConfigHeader(configPath: string, config: BuildConfig): void {
+      console.log(chalk.bold('\n📚 Building libragen library from build config\n'));
+      console.log(`  Config:  ${chalk.cyan(configPath)}`);
+      console.log(`  Sources: ${config.sources.length}`);
+
+      for (const source of config.sources) {
+         const ref = source.ref ? chalk.dim(` @ ${source.ref}`) : '';
+
+         console.log(`    • ${chalk.cyan(source.source)}${ref}`);
+      }
+      console.log('');
+   }
+
+   private getLicenses(metadata: LibraryMetadata): string[] {
+      const sources = metadata.sources ?? (metadata.source ? [ metadata.source ] : []);
+
+      return [ ...new Set(sources.flatMap((source) => { return source.licenses ?? []; })) ];
+   }
 }
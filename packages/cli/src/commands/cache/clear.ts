@@ -0,0 +1,31 @@
+/**
+ * Cache clear command - Delete the embedding cache
+ */
+
+/* eslint-disable no-console, no-process-exit */
+
+import chalk from 'chalk';
+import { EmbeddingCache } from '@libragen/core';
+import { BaseCommand } from '../../base-command.ts';
+
+export default class CacheClear extends BaseCommand {
+   public static override summary = 'Clear the embedding cache';
+
+   public static override description = 'Delete every embedding cached across builds.';
+
+   public static override examples = [
+      '<%= config.bin %> <%= command.id %>',
+   ];
+
+   public async run(): Promise<void> {
+      try {
+         await new EmbeddingCache().clear();
+
+         console.log(chalk.green('\n✓ Embedding cache cleared'));
+         console.log('');
+      } catch(error) {
+         console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+         process.exit(1);
+      }
+   }
+}
@@ -0,0 +1,64 @@
+/**
+ * Cache prune command - Evict embeddings from the embedding cache
+ */
+
+/* eslint-disable no-console, no-process-exit */
+
+import { Flags } from '@oclif/core';
+import chalk from 'chalk';
+import { EmbeddingCache, formatBytes } from '@libragen/core';
+import { BaseCommand } from '../../base-command.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default class CachePrune extends BaseCommand {
+   public static override summary = 'Evict embeddings from the embedding cache';
+
+   public static override description = `Evict the least recently used embeddings until the cache fits in its size
+limit, and optionally the embeddings no build has used for a number of days.`;
+
+   public static override examples = [
+      '<%= config.bin %> <%= command.id %>',
+      '<%= config.bin %> <%= command.id %> --max-size 256',
+      '<%= config.bin %> <%= command.id %> --unused-for 30',
+   ];
+
+   public static override flags = {
+      'max-size': Flags.integer({
+         description: 'Size to shrink the cache to in MB',
+         default: 1024,
+         min: 0,
+         env: 'LIBRAGEN_EMBEDDING_CACHE_SIZE',
+      }),
+      'unused-for': Flags.integer({
+         description: 'Also evict embeddings that no build has used for this many days',
+         min: 0,
+      }),
+   };
+
+   public async run(): Promise<void> {
+      const { flags } = await this.parse(CachePrune);
+
+      const cache = new EmbeddingCache();
+
+      try {
+         const unusedFor = flags['unused-for'];
+
+         const evicted = await cache.prune({
+            maxSizeBytes: flags['max-size'] * 1024 * 1024,
+            unusedForMs: unusedFor === undefined ? undefined : unusedFor * DAY_MS,
+         });
+
+         const stats = await cache.stats();
+
+         console.log(chalk.green(`\n✓ Evicted ${evicted} embeddings`));
+         console.log(`  ${stats.entryCount} embeddings (${formatBytes(stats.sizeBytes)}) remain`);
+         console.log('');
+      } catch(error) {
+         console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+         process.exit(1);
+      } finally {
+         cache.close();
+      }
+   }
+}
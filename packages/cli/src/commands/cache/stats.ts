@@ -0,0 +1,67 @@
+/**
+ * Cache stats command - Show what the embedding cache holds
+ */
+
+/* eslint-disable no-console, no-process-exit */
+
+import { Flags } from '@oclif/core';
+import chalk from 'chalk';
+import { EmbeddingCache, formatBytes } from '@libragen/core';
+import { BaseCommand } from '../../base-command.ts';
+
+export default class CacheStats extends BaseCommand {
+   public static override summary = 'Show the size of the embedding cache';
+
+   public static override description = `Display how many embeddings the embedding cache holds, and how much space
+they take, for each embedding model.`;
+
+   public static override examples = [
+      '<%= config.bin %> <%= command.id %>',
+      '<%= config.bin %> <%= command.id %> --json',
+   ];
+
+   public static override flags = {
+      json: Flags.boolean({
+         description: 'Output as JSON',
+         default: false,
+      }),
+   };
+
+   public async run(): Promise<void> {
+      const { flags } = await this.parse(CacheStats);
+
+      const cache = new EmbeddingCache();
+
+      try {
+         const stats = await cache.stats();
+
+         if (flags.json) {
+            const { path, entryCount, sizeBytes, models } = stats;
+
+            console.log(JSON.stringify({ path, entryCount, sizeBytes, models }, null, 2));
+            return;
+         }
+
+         console.log(chalk.bold('\n🗄️  Embedding Cache\n'));
+         console.log(`  ${chalk.dim('Path:')}        ${stats.path}`);
+         console.log(`  ${chalk.dim('Embeddings:')}  ${stats.entryCount}`);
+         console.log(`  ${chalk.dim('Size:')}        ${formatBytes(stats.sizeBytes)}`);
+
+         if (stats.models.length > 0) {
+            console.log(chalk.bold('\n  Models:'));
+
+            for (const model of stats.models) {
+               console.log(`    ${model.namespace}`);
+               console.log(`      ${chalk.dim(`${model.entryCount} embeddings, ${formatBytes(model.sizeBytes)}`)}`);
+            }
+         }
+
+         console.log('');
+      } catch(error) {
+         console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+         process.exit(1);
+      } finally {
+         cache.close();
+      }
+   }
+}
@@ -17,6 +17,7 @@ export default class CollectionSearch extends BaseCommand {
    public static override examples = [
       '<%= config.bin %> <%= command.id %> react',
       '<%= config.bin %> <%= command.id %> next.js --json',
+      '<%= config.bin %> <%= command.id %> react --content-version ">=18 <19"',
    ];
 
    public static override args = {
@@ -32,7 +33,7 @@ export default class CollectionSearch extends BaseCommand {
          default: false,
       }),
       'content-version': Flags.string({
-         description: 'Filter by content version',
+         description: 'Filter by content version: an exact version, "latest", or a semver or date range (e.g. "^18")',
       }),
    };
 
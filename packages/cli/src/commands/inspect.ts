@@ -10,9 +10,17 @@ import * as path from 'path';
 import chalk from 'chalk';
 import * as tar from 'tar';
 import { Library, formatBytes } from '@libragen/core';
-import type { CollectionDefinition, LibraryMetadata } from '@libragen/core';
+import type { CollectionDefinition, LibraryMetadata, SourceDocument } from '@libragen/core';
 import { BaseCommand } from '../base-command.ts';
 
+type InspectedDocument = SourceDocument & { chunkCount: number };
+
+interface LibraryInspectOptions {
+   json: boolean;
+   documents: boolean;
+   contentVersion?: string;
+}
+
 export default class Inspect extends BaseCommand {
    public static override summary = 'Inspect the contents of a library or packed collection';
 
@@ -21,6 +29,8 @@ export default class Inspect extends BaseCommand {
 
    public static override examples = [
       '<%= config.bin %> <%= command.id %> ./my-docs.libragen',
+      '<%= config.bin %> <%= command.id %> ./my-docs.libragen --documents',
+      '<%= config.bin %> <%= command.id %> ./react.libragen --documents --content-version 18.0.0',
       '<%= config.bin %> <%= command.id %> ./collection.libragen-collection',
       '<%= config.bin %> <%= command.id %> https://example.com/library.libragen --json',
    ];
@@ -37,6 +47,13 @@ export default class Inspect extends BaseCommand {
          description: 'Output as JSON',
          default: false,
       }),
+      documents: Flags.boolean({
+         description: 'List the documents in a library, with their provenance',
+         default: false,
+      }),
+      'content-version': Flags.string({
+         description: 'Content version whose documents to list (default: the newest, in libraries that hold several)',
+      }),
    };
 
    public async run(): Promise<void> {
@@ -81,13 +98,19 @@ export default class Inspect extends BaseCommand {
             process.exit(1);
          }
 
+         const libraryOptions: LibraryInspectOptions = {
+            json: flags.json,
+            documents: flags.documents,
+            contentVersion: flags['content-version'],
+         };
+
          if (filePath.endsWith('.libragen-collection')) {
             await this.inspectCollection(filePath, flags.json, spinner);
          } else if (filePath.endsWith('.libragen')) {
-            await this.inspectLibrary(filePath, flags.json, spinner);
+            await this.inspectLibrary(filePath, libraryOptions, spinner);
          } else {
             try {
-               await this.inspectLibrary(filePath, flags.json, spinner);
+               await this.inspectLibrary(filePath, libraryOptions, spinner);
             } catch(_e) {
                try {
                   await this.inspectCollection(filePath, flags.json, spinner);
@@ -110,14 +133,23 @@ export default class Inspect extends BaseCommand {
 
    private async inspectLibrary(
       filePath: string,
-      json: boolean,
+      options: LibraryInspectOptions,
       spinner: ReturnType<typeof import('ora').default>
    ): Promise<void> {
       spinner.start('Reading library...');
 
       const library = await Library.open(filePath, { readOnly: true });
 
-      const metadata = library.getMetadata();
+      const metadata = library.getMetadata(),
+            contentVersion = this.selectContentVersion(metadata, options.contentVersion);
+
+      let documents: InspectedDocument[] | undefined;
+
+      if (options.documents) {
+         documents = library.getStore().getSources().filter((doc) => {
+            return contentVersion === undefined || doc.contentVersion === contentVersion;
+         });
+      }
 
       const stats = await fs.stat(filePath);
 
@@ -125,14 +157,19 @@ export default class Inspect extends BaseCommand {
 
       spinner.stop();
 
-      if (json) {
-         this.printLibraryJson(filePath, stats.size, metadata);
+      if (options.json) {
+         this.printLibraryJson(filePath, stats.size, metadata, documents);
       } else {
-         this.printLibraryHuman(filePath, stats.size, metadata);
+         this.printLibraryHuman(filePath, stats.size, metadata, documents);
       }
    }
 
-   private printLibraryJson(filePath: string, fileSize: number, metadata: LibraryMetadata): void {
+   private printLibraryJson(
+      filePath: string,
+      fileSize: number,
+      metadata: LibraryMetadata,
+      documents?: InspectedDocument[]
+   ): void {
       console.log(JSON.stringify({
          type: 'library',
          file: filePath,
@@ -145,6 +182,7 @@ export default class Inspect extends BaseCommand {
             exampleQueries: metadata.exampleQueries,
             contentVersion: metadata.contentVersion,
             contentVersionType: metadata.contentVersionType,
+            contentVersions: metadata.contentVersions,
             schemaVersion: metadata.schemaVersion,
             createdAt: metadata.createdAt,
             embedding: metadata.embedding,
@@ -157,10 +195,16 @@ export default class Inspect extends BaseCommand {
             textLanguages: metadata.textLanguages,
             frameworks: metadata.frameworks,
          },
+         documents,
       }, null, 2));
    }
 
-   private printLibraryHuman(filePath: string, fileSize: number, metadata: LibraryMetadata): void {
+   private printLibraryHuman(
+      filePath: string,
+      fileSize: number,
+      metadata: LibraryMetadata,
+      documents?: InspectedDocument[]
+   ): void {
       console.log(chalk.bold('\n📚 Library Contents\n'));
       console.log(`  ${chalk.dim('File:')}    ${filePath}`);
       console.log(`  ${chalk.dim('Size:')}    ${formatBytes(fileSize)}`);
@@ -173,6 +217,10 @@ export default class Inspect extends BaseCommand {
       this.printTagsSection(metadata);
       this.printAgentSection(metadata);
 
+      if (documents) {
+         this.printDocumentsSection(documents);
+      }
+
       console.log('');
    }
 
@@ -192,6 +240,10 @@ export default class Inspect extends BaseCommand {
          console.log(`    ${chalk.dim('Content:')}     ${metadata.contentVersion}${suffix}`);
       }
 
+      if (metadata.contentVersions && metadata.contentVersions.length > 1) {
+         console.log(`    ${chalk.dim('Versions:')}    ${metadata.contentVersions.join(', ')}`);
+      }
+
       console.log(`    ${chalk.dim('Schema:')}      v${metadata.schemaVersion}`);
       console.log(`    ${chalk.dim('Created:')}     ${metadata.createdAt}`);
    }
@@ -297,6 +349,46 @@ export default class Inspect extends BaseCommand {
       }
    }
 
+   /**
+    * Pick the content version to inspect: the requested one, or the newest in libraries
+    * that hold several.
+    */
+   private selectContentVersion(metadata: LibraryMetadata, requested: string | undefined): string | undefined {
+      const versions = metadata.contentVersions ?? [];
+
+      if (requested === undefined) {
+         return versions.length > 1 ? versions[0] : undefined;
+      }
+
+      if (versions.length > 0 && !versions.includes(requested)) {
+         throw new Error(`Content version ${requested} is not in this library (available: ${versions.join(', ')})`);
+      }
+
+      return requested;
+   }
+
+   private printDocumentsSection(documents: InspectedDocument[]): void {
+      console.log('');
+      console.log(chalk.bold(`  Documents (${documents.length}):`));
+
+      if (documents.length === 0) {
+         console.log(chalk.dim('    Not recorded for this library'));
+         return;
+      }
+
+      for (const doc of documents) {
+         const details = [
+            doc.size === undefined ? undefined : formatBytes(doc.size),
+            `${doc.chunkCount} chunks`,
+            doc.license,
+            doc.blobSha ? `blob ${doc.blobSha.substring(0, 12)}` : undefined,
+            doc.contentVersion,
+         ];
+
+         console.log(`    • ${doc.path} ${chalk.dim(`(${details.filter(Boolean).join(', ')})`)}`);
+      }
+   }
+
    private async inspectCollection(
       filePath: string,
       json: boolean,
@@ -1,5 +1,5 @@
 /**
- * Query command - Search a .libragen library
+ * Query command - Search one or more .libragen libraries
  */
 
 /* eslint-disable no-console, no-process-exit */
@@ -8,19 +8,28 @@ import { Args, Flags } from '@oclif/core';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import chalk from 'chalk';
-import { Embedder, VectorStore, Searcher, LibraryManager } from '@libragen/core';
+import { MultiLibrarySearcher, LibraryManager, openSearchableLibraries } from '@libragen/core';
+import type { MultiLibrarySearchResult, SearchableLibrary, TextHighlight } from '@libragen/core';
 import { BaseCommand } from '../base-command.ts';
 
 export default class Query extends BaseCommand {
-   public static override summary = 'Search a .libragen library';
+   public static override summary = 'Search one or more .libragen libraries';
 
-   public static override description = `Search for relevant content in a libragen library using semantic search.
-Supports both library names (resolved from installed libraries) and direct file paths.`;
+   public static override description = `Search for relevant content in libragen libraries using semantic search.
+Supports both library names (resolved from installed libraries) and direct file paths.
+Results from multiple libraries are fused into a single ranking.`;
 
    public static override examples = [
       '<%= config.bin %> <%= command.id %> "how to configure routing" -l next.js',
       '<%= config.bin %> <%= command.id %> "authentication" -l ./my-docs.libragen',
       '<%= config.bin %> <%= command.id %> "error handling" -l express -k 10 --json',
+      '<%= config.bin %> <%= command.id %> "parse config" -l my-lib --language typescript --entity-type function',
+      '<%= config.bin %> <%= command.id %> "middleware" -l express -l koa',
+      '<%= config.bin %> <%= command.id %> "suspense" -l react --content-version "^18"',
+      '<%= config.bin %> <%= command.id %> "rate limiting" --all',
+      '<%= config.bin %> <%= command.id %> "effect cleanup" -l react --return-parents',
+      '<%= config.bin %> <%= command.id %> "request options" -l node-api --mmr-lambda 0.7 --max-per-file 2',
+      '<%= config.bin %> <%= command.id %> \'"use effect" AND cleanup*\' -l react --advanced-query',
    ];
 
    public static override args = {
@@ -33,8 +42,13 @@ Supports both library names (resolved from installed libraries) and direct file
    public static override flags = {
       library: Flags.string({
          char: 'l',
-         description: 'Library name or path to .libragen file',
-         required: true,
+         description: 'Library name or path to .libragen file (can be repeated)',
+         multiple: true,
+         exclusive: [ 'all' ],
+      }),
+      all: Flags.boolean({
+         description: 'Search all installed libraries',
+         default: false,
       }),
       path: Flags.string({
          char: 'p',
@@ -50,8 +64,27 @@ Supports both library names (resolved from installed libraries) and direct file
          description: 'Balance between vector (1) and keyword (0) search',
          default: '0.5',
       }),
+      fusion: Flags.string({
+         description: 'How hybrid results are fused: weighted rank fusion (rrf) or normalized scores (linear)',
+         default: 'rrf',
+         options: [ 'rrf', 'linear' ],
+      }),
       'content-version': Flags.string({
-         description: 'Filter by content version',
+         description: 'Filter by content version: an exact version, "latest", or a semver or date range (e.g. "^18")',
+      }),
+      language: Flags.string({
+         description: 'Filter by language (can be repeated)',
+         multiple: true,
+      }),
+      'source-file': Flags.string({
+         description: 'Filter by source file glob (e.g. "src/**/*.ts")',
+      }),
+      'source-type': Flags.string({
+         description: 'Filter by source type (e.g. file)',
+      }),
+      'entity-type': Flags.string({
+         description: 'Filter code chunks by entity type, e.g. function or class (can be repeated)',
+         multiple: true,
       }),
       'context-before': Flags.integer({
          description: 'Number of chunks to include before each result',
@@ -59,10 +92,36 @@ Supports both library names (resolved from installed libraries) and direct file
       'context-after': Flags.integer({
          description: 'Number of chunks to include after each result',
       }),
+      'return-parents': Flags.boolean({
+         description: 'Return the whole section or code entity each match was cut from '
+            + '(libraries built with --child-chunk-size)',
+         default: false,
+      }),
+      'mmr-lambda': Flags.string({
+         description: 'Diversify results with Maximal Marginal Relevance, from 0 (most diverse) '
+            + 'to 1 (relevance only)',
+      }),
+      'max-per-file': Flags.integer({
+         description: 'Maximum number of results from the same source file',
+         min: 1,
+      }),
+      'advanced-query': Flags.boolean({
+         description: 'Read the query as FTS5 keyword syntax: "phrases", prefix*, NEAR(a b, 5), AND, OR, NOT',
+         default: false,
+      }),
       json: Flags.boolean({
          description: 'Output results as JSON',
          default: false,
       }),
+      'embedder-url': Flags.string({
+         description: 'Base URL of the embeddings API, for libraries built with the http embedder '
+            + '(defaults to the URL recorded in the library)',
+         env: 'LIBRAGEN_EMBEDDER_URL',
+      }),
+      'embedder-api-key': Flags.string({
+         description: 'API key for the embeddings API, for libraries built with the http embedder',
+         env: 'LIBRAGEN_EMBEDDER_API_KEY',
+      }),
    };
 
    public static override aliases = [ 'q' ];
@@ -73,62 +132,120 @@ Supports both library names (resolved from installed libraries) and direct file
       const spinner = this.createSpinner();
 
       try {
-         const libraryPath = await this.resolveLibraryPath(
-            flags.library,
-            flags.path,
-            spinner,
-            flags.json
-         );
-
-         if (!flags.json) {
-            spinner.start('Loading embedding model...');
+         if (!flags.all && !flags.library?.length) {
+            console.error(chalk.red('Error: Specify a library with --library, or search all libraries with --all'));
+            process.exit(1);
          }
 
-         const embedder = new Embedder();
+         const libraries = flags.all
+            ? await this.resolveAllLibraries(flags.path, spinner, flags.json)
+            : await this.resolveLibraries(flags.library ?? [], flags.path, spinner, flags.json);
+
+         // Queries are embedded with the model each library was built with
+         const searcher = new MultiLibrarySearcher(libraries, {
+            embedderOverrides: {
+               url: flags['embedder-url'],
+               apiKey: flags['embedder-api-key'],
+            },
+         });
 
-         await embedder.initialize();
+         const hybridAlpha = parseFloat(flags['hybrid-alpha']),
+               mmrLambda = flags['mmr-lambda'] === undefined ? undefined : parseFloat(flags['mmr-lambda']);
 
          if (!flags.json) {
-            spinner.succeed('Embedding model loaded');
+            spinner.start('Searching...');
          }
 
-         const store = new VectorStore(libraryPath);
+         try {
+            const { results, failures } = await searcher.search({
+               query: args.query,
+               k: flags.k,
+               hybridAlpha,
+               fusion: flags.fusion as 'rrf' | 'linear',
+               contentVersion: flags['content-version'],
+               languages: flags.language,
+               sourceFile: flags['source-file'],
+               sourceType: flags['source-type'],
+               entityTypes: flags['entity-type'],
+               contextBefore: flags['context-before'],
+               contextAfter: flags['context-after'],
+               returnParents: flags['return-parents'],
+               mmrLambda,
+               maxPerFile: flags['max-per-file'],
+               advancedQuery: flags['advanced-query'],
+            });
+
+            if (failures.length === libraries.length) {
+               throw new Error(failures.map((f) => { return `${f.library}: ${f.error}`; }).join('; '));
+            }
+
+            if (!flags.json) {
+               spinner.stop();
+            }
+
+            for (const failure of failures) {
+               console.error(chalk.yellow(`Warning: Skipped library '${failure.library}': ${failure.error}`));
+            }
+
+            if (flags.json) {
+               console.log(JSON.stringify(results, null, 2));
+            } else {
+               this.printResults(results, libraries.length > 1);
+            }
+         } finally {
+            await searcher.dispose();
+
+            for (const { store } of libraries) {
+               store.close();
+            }
+         }
+      } catch(error) {
+         spinner.fail('Query failed');
+         console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+         process.exit(1);
+      }
+   }
 
-         store.initialize();
+   private async resolveLibraries(
+      libraries: string[],
+      paths: string[] | undefined,
+      spinner: ReturnType<typeof import('ora').default>,
+      isJson: boolean
+   ): Promise<SearchableLibrary[]> {
+      const resolved: Array<{ name: string; path: string }> = [];
 
-         const searcher = new Searcher(embedder, store),
-               hybridAlpha = parseFloat(flags['hybrid-alpha']);
+      for (const library of libraries) {
+         resolved.push({
+            name: this.isFilePath(library) ? path.basename(library, '.libragen') : library,
+            path: await this.resolveLibraryPath(library, paths, spinner, isJson),
+         });
+      }
 
-         if (!flags.json) {
-            spinner.start('Searching...');
-         }
+      // Migrates libraries that predate the current schema
+      return openSearchableLibraries(resolved);
+   }
 
-         const results = await searcher.search({
-            query: args.query,
-            k: flags.k,
-            hybridAlpha,
-            contentVersion: flags['content-version'],
-            contextBefore: flags['context-before'],
-            contextAfter: flags['context-after'],
-         });
+   private async resolveAllLibraries(
+      paths: string[] | undefined,
+      spinner: ReturnType<typeof import('ora').default>,
+      isJson: boolean
+   ): Promise<SearchableLibrary[]> {
+      const transformedPaths = this.transformPaths(paths);
 
-         if (!flags.json) {
-            spinner.stop();
-         }
+      const manager = new LibraryManager(transformedPaths ? { paths: transformedPaths } : undefined);
 
-         if (flags.json) {
-            console.log(JSON.stringify(results, null, 2));
-         } else {
-            this.printResults(results);
-         }
+      const installed = await manager.listInstalled();
 
-         store.close();
-         await embedder.dispose();
-      } catch(error) {
-         spinner.fail('Query failed');
-         console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+      if (installed.length === 0) {
+         console.error(chalk.red('\nError: No libraries are installed.'));
          process.exit(1);
       }
+
+      if (!isJson) {
+         spinner.info(`Searching ${installed.length} libraries`);
+      }
+
+      return openSearchableLibraries(installed);
    }
 
    private isFilePath(value: string): boolean {
@@ -180,7 +297,7 @@ Supports both library names (resolved from installed libraries) and direct file
       return installed.path;
    }
 
-   private printResults(results: Awaited<ReturnType<Searcher['search']>>): void {
+   private printResults(results: MultiLibrarySearchResult[], showLibrary: boolean): void {
       if (results.length === 0) {
          console.log(chalk.yellow('\nNo results found.'));
          return;
@@ -189,13 +306,14 @@ Supports both library names (resolved from installed libraries) and direct file
       console.log(chalk.bold(`\n📚 Found ${results.length} results:\n`));
 
       for (const [ index, result ] of results.entries()) {
-         this.printSingleResult(result, index);
+         this.printSingleResult(result, index, showLibrary);
       }
    }
 
    private printSingleResult(
-      result: Awaited<ReturnType<Searcher['search']>>[number],
-      index: number
+      result: MultiLibrarySearchResult,
+      index: number,
+      showLibrary: boolean
    ): void {
       const sourceInfo = result.sourceFile
          ? chalk.dim(path.basename(result.sourceFile))
@@ -206,8 +324,19 @@ Supports both library names (resolved from installed libraries) and direct file
       console.log(chalk.bold.cyan(`${index + 1}. ${sourceInfo}${lineInfo}`));
       console.log(chalk.dim(`   Score: ${result.score.toFixed(4)}`));
 
-      if (result.contentVersion) {
-         console.log(chalk.dim(`   Version: ${result.contentVersion}`));
+      if (typeof result.metadata?.breadcrumb === 'string') {
+         console.log(chalk.dim(`   Section: ${result.metadata.breadcrumb}`));
+      }
+
+      this.printProvenance(result);
+
+      if (showLibrary) {
+         console.log(chalk.dim(`   Library: ${result.library}`));
+      }
+
+      if (result.snippet && !result.highlights) {
+         // Parents returned in place of the match show where it matched
+         console.log(chalk.dim(`   Match: ${this.highlightText(result.snippet.text, result.snippet.highlights)}`));
       }
 
       console.log('');
@@ -219,7 +348,26 @@ Supports both library names (resolved from installed libraries) and direct file
       console.log('');
    }
 
-   private printContextBefore(result: Awaited<ReturnType<Searcher['search']>>[number]): void {
+   /**
+    * Print the source, content version and commit of the result's document.
+    */
+   private printProvenance(result: MultiLibrarySearchResult): void {
+      const version = result.contentVersion ?? result.source?.contentVersion;
+
+      if (result.source) {
+         console.log(chalk.dim(`   Source: ${result.source.uri}`));
+      }
+
+      if (version) {
+         console.log(chalk.dim(`   Version: ${version}`));
+      }
+
+      if (result.source?.ref) {
+         console.log(chalk.dim(`   Commit: ${result.source.ref}`));
+      }
+   }
+
+   private printContextBefore(result: MultiLibrarySearchResult): void {
       if (!result.contextBefore || result.contextBefore.length === 0) {
          return;
       }
@@ -235,13 +383,13 @@ Supports both library names (resolved from installed libraries) and direct file
       console.log('');
    }
 
-   private printMainContent(result: Awaited<ReturnType<Searcher['search']>>[number]): void {
-      const content = result.content.trim();
+   private printMainContent(result: MultiLibrarySearchResult): void {
+      const content = this.highlightText(result.content, result.highlights ?? []).trim();
 
       console.log(`   ${content.split('\n').join('\n   ')}`);
    }
 
-   private printContextAfter(result: Awaited<ReturnType<Searcher['search']>>[number]): void {
+   private printContextAfter(result: MultiLibrarySearchResult): void {
       if (!result.contextAfter || result.contextAfter.length === 0) {
          return;
       }
@@ -257,4 +405,19 @@ Supports both library names (resolved from installed libraries) and direct file
          console.log(chalk.dim(`   ${chunk.content.trim().split('\n').join('\n   ')}`));
       }
    }
+
+   /**
+    * Render the terms a keyword query matched in a text in bold.
+    */
+   private highlightText(text: string, highlights: TextHighlight[]): string {
+      let rendered = '',
+          offset = 0;
+
+      for (const { start, end } of highlights) {
+         rendered += text.slice(offset, start) + chalk.bold.yellow(text.slice(start, end));
+         offset = end;
+      }
+
+      return rendered + text.slice(offset);
+   }
 }
@@ -0,0 +1,134 @@
+/**
+ * Serve command - Serve installed libraries over a local HTTP search API
+ */
+
+/* eslint-disable no-console, no-process-exit */
+
+import { Flags } from '@oclif/core';
+import chalk from 'chalk';
+import { Embedder, Reranker, LibraryManager, SearchServer, discoverLibraryPaths } from '@libragen/core';
+import { BaseCommand } from '../base-command.ts';
+
+export default class Serve extends BaseCommand {
+   public static override summary = 'Serve installed libraries over a local HTTP search API';
+
+   public static override description = `Start a JSON HTTP API for searching installed libraries, for tools that
+can't use the MCP server over stdio.
+
+Routes:
+  GET  /libraries                  List installed libraries
+  GET  /libraries/:name            Get a library's metadata
+  POST /search                     Search one or more libraries
+  GET  /chunks/:id?library=<name>  Get a single chunk
+
+Libraries are discovered from each project's .libragen/libraries directory and the
+global library directory, like the MCP server.`;
+
+   public static override examples = [
+      '<%= config.bin %> <%= command.id %>',
+      '<%= config.bin %> <%= command.id %> --port 8080 --token "$LIBRAGEN_SERVE_TOKEN"',
+      '<%= config.bin %> <%= command.id %> -p ./my-project --rerank',
+   ];
+
+   public static override flags = {
+      port: Flags.integer({
+         description: 'Port to listen on',
+         default: 3737,
+         env: 'LIBRAGEN_SERVE_PORT',
+      }),
+      host: Flags.string({
+         description: 'Host to bind to',
+         default: '127.0.0.1',
+      }),
+      path: Flags.string({
+         char: 'p',
+         description: 'Project directory (will search <path>/.libragen/libraries); defaults to the current directory',
+         multiple: true,
+      }),
+      token: Flags.string({
+         description: 'Require this bearer token on every request',
+         env: 'LIBRAGEN_SERVE_TOKEN',
+      }),
+      rerank: Flags.boolean({
+         description: 'Load the cross-encoder reranker so requests can use rerank',
+         default: false,
+      }),
+      'max-k': Flags.integer({
+         description: 'Maximum number of results per search',
+         default: 50,
+      }),
+      'max-concurrent': Flags.integer({
+         description: 'Maximum number of searches run at once',
+         default: 4,
+      }),
+      'embedder-url': Flags.string({
+         description: 'Base URL of the embeddings API, for libraries built with the http embedder '
+            + '(defaults to the URL recorded in the library)',
+         env: 'LIBRAGEN_EMBEDDER_URL',
+      }),
+      'embedder-api-key': Flags.string({
+         description: 'API key for the embeddings API, for libraries built with the http embedder',
+         env: 'LIBRAGEN_EMBEDDER_API_KEY',
+      }),
+   };
+
+   public async run(): Promise<void> {
+      const { flags } = await this.parse(Serve);
+
+      const spinner = this.createSpinner();
+
+      try {
+         const paths = await discoverLibraryPaths(flags.path ?? [ process.cwd() ]),
+               embedder = new Embedder();
+
+         spinner.start('Loading embedding model...');
+         // Warm the model so the first search doesn't wait for it
+         await embedder.embed('warmup');
+
+         let reranker: Reranker | undefined;
+
+         if (flags.rerank) {
+            spinner.text = 'Loading reranker model...';
+            reranker = new Reranker();
+            await reranker.initialize();
+         }
+
+         const server = new SearchServer({
+            manager: new LibraryManager({ paths }),
+            embedder,
+            reranker,
+            embedderOverrides: {
+               url: flags['embedder-url'],
+               apiKey: flags['embedder-api-key'],
+            },
+            authToken: flags.token,
+            maxK: flags['max-k'],
+            maxConcurrentSearches: flags['max-concurrent'],
+         });
+
+         const address = await server.listen(flags.port, flags.host);
+
+         spinner.succeed(`Listening on ${chalk.cyan(`http://${flags.host}:${address.port}`)}`);
+
+         for (const libraryPath of paths) {
+            this.logInfo('Libraries', libraryPath);
+         }
+
+         if (!flags.token) {
+            this.logInfo('Auth', chalk.yellow('none (set --token to require a bearer token)'));
+         }
+
+         const shutdown = async (): Promise<void> => {
+            await server.close();
+            await embedder.dispose();
+            await reranker?.dispose();
+            process.exit(0);
+         };
+
+         process.once('SIGINT', shutdown);
+         process.once('SIGTERM', shutdown);
+      } catch(error) {
+         this.handleError(error, spinner);
+      }
+   }
+}
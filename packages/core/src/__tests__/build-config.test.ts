@@ -0,0 +1,87 @@
+/**
+ * Tests for build config files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs/promises';
+import { loadBuildConfig, parseBuildConfig } from '../build-config.ts';
+
+describe('parseBuildConfig', () => {
+   it('parses JSON configs', () => {
+      const config = parseBuildConfig(JSON.stringify({
+         name: 'team-docs',
+         sources: [ { source: './docs' }, { source: 'https://github.com/org/api', ref: 'v2.0.0', license: [ 'MIT' ] } ],
+      }), 'libragen.build.json');
+
+      expect(config.name).toBe('team-docs');
+      expect(config.sources[1]).toEqual({ source: 'https://github.com/org/api', ref: 'v2.0.0', license: [ 'MIT' ] });
+   });
+
+   it('parses YAML configs', () => {
+      const yaml = `
+name: team-docs
+sources:
+  - source: ./docs
+    exclude: [drafts/**]
+  - source: https://github.com/org/sdk
+    include: [packages/client/**]
+    contentVersion: 3.1.0
+`;
+
+      const config = parseBuildConfig(yaml, 'libragen.build.yaml');
+
+      expect(config.sources).toEqual([
+         { source: './docs', exclude: [ 'drafts/**' ] },
+         { source: 'https://github.com/org/sdk', include: [ 'packages/client/**' ], contentVersion: '3.1.0' },
+      ]);
+   });
+
+   it('requires at least one source', () => {
+      expect(() => { return parseBuildConfig('{"name":"x"}', 'a.json'); }).toThrow('"sources" must list at least one source');
+      expect(() => { return parseBuildConfig('{"sources":[]}', 'a.json'); }).toThrow('"sources" must list at least one source');
+      expect(() => { return parseBuildConfig('{"sources":[{"ref":"main"}]}', 'a.json'); }).toThrow('sources[0] must have a "source"');
+   });
+
+   it('rejects fields of the wrong type', () => {
+      expect(() => { return parseBuildConfig('{"keywords":"a","sources":[{"source":"."}]}', 'a.json'); })
+         .toThrow('"keywords" must be an array of strings');
+      expect(() => { return parseBuildConfig('{"sources":[{"source":".","include":"**/*.md"}]}', 'a.json'); })
+         .toThrow('sources[0].include must be an array of strings');
+   });
+
+   it('reports unparseable files', () => {
+      expect(() => { return parseBuildConfig('{', 'a.json'); }).toThrow('Could not parse build config a.json');
+      expect(() => { return parseBuildConfig('- a', 'a.yml'); }).toThrow('expected an object');
+   });
+});
+
+describe('loadBuildConfig', () => {
+   let tempDir: string;
+
+   beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'libragen-build-config-test-'));
+   });
+
+   afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   it('resolves local paths against the config file directory', async () => {
+      const configPath = path.join(tempDir, 'libragen.build.json');
+
+      await fs.writeFile(configPath, JSON.stringify({
+         output: 'dist/team-docs.libragen',
+         sources: [ { source: 'docs' }, { source: 'https://github.com/org/api' } ],
+      }));
+
+      const config = await loadBuildConfig(configPath);
+
+      expect(config.output).toBe(path.join(tempDir, 'dist/team-docs.libragen'));
+      expect(config.sources.map((s) => { return s.source; })).toEqual([
+         path.join(tempDir, 'docs'),
+         'https://github.com/org/api',
+      ]);
+   });
+});
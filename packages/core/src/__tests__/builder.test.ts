@@ -0,0 +1,330 @@
+/**
+ * Tests for the Builder
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { Builder, BuildCancelledError } from '../builder.ts';
+import type { BuildProgress } from '../builder.ts';
+import type { IEmbedder } from '../embedder.ts';
+import { VectorStore } from '../store.ts';
+import { EmbeddingCache } from '../embedding-cache.ts';
+
+const DIMENSIONS = 8;
+
+/**
+ * Embedder that derives small deterministic vectors from the text, recording the size
+ * of every batch it is given. Fails once it has embedded `failAfter` batches, if given.
+ */
+function createFakeEmbedder(batchSizes: number[], failAfter?: number): IEmbedder {
+   const embed = async (text: string): Promise<Float32Array> => {
+      const vector = new Float32Array(DIMENSIONS);
+
+      for (let i = 0; i < text.length; i++) {
+         vector[i % DIMENSIONS] += text.charCodeAt(i) / 1000;
+      }
+
+      return vector;
+   };
+
+   return {
+      dimensions: DIMENSIONS,
+      model: 'test/fake-embedder',
+      initialize: async () => {
+         return undefined;
+      },
+      embed,
+      embedBatch: async (texts) => {
+         if (batchSizes.length === failAfter) {
+            throw new Error('Embedder crashed');
+         }
+
+         batchSizes.push(texts.length);
+         return Promise.all(texts.map(embed));
+      },
+      dispose: async () => {
+         return undefined;
+      },
+   };
+}
+
+describe('Builder', () => {
+   let tempDir: string;
+
+   beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'libragen-builder-test-'));
+   });
+
+   afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   it('streams large sources through bounded batches', async () => {
+      const sourceDir = path.join(tempDir, 'docs'),
+            fileCount = 2000,
+            batchSizes: number[] = [],
+            progressUpdates: BuildProgress[] = [];
+
+      await fs.mkdir(sourceDir);
+
+      for (let i = 0; i < fileCount; i++) {
+         const name = `page-${String(i).padStart(4, '0')}.md`;
+
+         await fs.writeFile(path.join(sourceDir, name), `# Page ${i}\n\nContent of synthetic page number ${i}.\n`);
+      }
+
+      const builder = new Builder({ embedder: createFakeEmbedder(batchSizes) }),
+            output = path.join(tempDir, 'docs.libragen');
+
+      const result = await builder.build(sourceDir, { output, noAstChunking: true }, (progress) => {
+         progressUpdates.push(progress);
+      });
+
+      const embeddingUpdates = progressUpdates.filter((p) => { return p.phase === 'embedding'; });
+
+      // Files are chunked and embedded in batches, not all at once
+      expect(embeddingUpdates.length).toBeGreaterThan(1);
+      expect(embeddingUpdates[0].current).toBeLessThan(fileCount);
+      expect(embeddingUpdates[embeddingUpdates.length - 1]).toMatchObject({ current: fileCount, total: fileCount });
+      expect(Math.max(...batchSizes)).toBeLessThanOrEqual(50);
+
+      expect(result.stats.chunkCount).toBe(fileCount);
+      expect(result.stats.sourceCount).toBe(fileCount);
+      await expect(fs.access(`${result.outputPath}.partial`)).rejects.toThrow();
+
+      const store = new VectorStore(result.outputPath);
+
+      store.initialize();
+
+      try {
+         const hash = createHash('sha256');
+
+         // The content hash covers every chunk, in the order they were stored
+         for (let id = 1; id <= fileCount; id++) {
+            hash.update(store.getChunk(id)?.content ?? '');
+         }
+
+         expect(store.getChunkCount()).toBe(fileCount);
+         expect(result.metadata.contentHash).toBe(`sha256:${hash.digest('hex')}`);
+      } finally {
+         store.close();
+      }
+   });
+
+   it('gives embedders that embed several batches at once that many per call', async () => {
+      const sourceDir = path.join(tempDir, 'docs'),
+            batchSizes: number[] = [],
+            embedder = { ...createFakeEmbedder(batchSizes), concurrency: 4 };
+
+      await fs.mkdir(sourceDir);
+
+      for (let i = 0; i < 300; i++) {
+         await fs.writeFile(path.join(sourceDir, `page-${i}.md`), `# Page ${i}\n\nParallel page ${i}.\n`);
+      }
+
+      const result = await new Builder({ embedder })
+         .build(sourceDir, { output: path.join(tempDir, 'docs.libragen'), noAstChunking: true });
+
+      // Batches of 256 and 44 chunks, each embedded in as few calls of 200 as possible
+      expect(batchSizes).toEqual([ 200, 56, 44 ]);
+      expect(result.stats.chunkCount).toBe(300);
+   });
+
+   it('reuses embeddings cached by other builds of the same content', async () => {
+      const cache = new EmbeddingCache({ dir: path.join(tempDir, 'cache') }),
+            batchSizes: number[] = [];
+
+      for (const name of [ 'first', 'second' ]) {
+         await fs.mkdir(path.join(tempDir, name));
+         await fs.writeFile(path.join(tempDir, name, 'README.md'), '# Shared\n\nVendored docs shared by both.\n');
+      }
+      await fs.writeFile(path.join(tempDir, 'second', 'own.md'), '# Own\n\nOnly in the second library.\n');
+
+      try {
+         const builder = new Builder({ embedder: createFakeEmbedder(batchSizes), embeddingCache: cache });
+
+         const first = await builder.build(path.join(tempDir, 'first'), { output: path.join(tempDir, 'first.libragen') }),
+               second = await builder.build(path.join(tempDir, 'second'), { output: path.join(tempDir, 'second.libragen') });
+
+         expect(first.stats).toMatchObject({ embeddingsCached: 0, embeddingsComputed: 1 });
+         expect(second.stats).toMatchObject({ embeddingsCached: 1, embeddingsComputed: 1 });
+         expect(batchSizes).toEqual([ 1, 1 ]);
+         expect((await cache.stats()).entryCount).toBe(2);
+      } finally {
+         cache.close();
+      }
+   });
+
+   it('only reuses embeddings of a base library built with the same quantization', async () => {
+      const sourceDir = path.join(tempDir, 'docs'),
+            base = path.join(tempDir, 'base.libragen');
+
+      await fs.mkdir(sourceDir);
+      await fs.writeFile(path.join(sourceDir, 'README.md'), '# Docs\n\nUnchanged between builds.\n');
+
+      const build = async (quantization: string, output: string): Promise<number> => {
+         const embedder = { ...createFakeEmbedder([]), quantization },
+               result = await new Builder({ embedder }).build(sourceDir, { output, base });
+
+         return result.stats.embeddingsReused;
+      };
+
+      await new Builder({ embedder: { ...createFakeEmbedder([]), quantization: 'q8' } })
+         .build(sourceDir, { output: base });
+
+      expect(await build('q8', path.join(tempDir, 'q8.libragen'))).toBe(1);
+      expect(await build('fp32', path.join(tempDir, 'fp32.libragen'))).toBe(0);
+
+      // Libraries that predate recorded quantization were built by the q8 embedder
+      await new Builder({ embedder: createFakeEmbedder([]) }).build(sourceDir, { output: base });
+
+      expect(await build('q8', path.join(tempDir, 'q8-again.libragen'))).toBe(1);
+   });
+
+   it('records the content version of a single-version build on its chunks', async () => {
+      const sourceDir = path.join(tempDir, 'docs'),
+            output = path.join(tempDir, 'docs.libragen'),
+            embedder = createFakeEmbedder([]);
+
+      await fs.mkdir(sourceDir);
+      await fs.writeFile(path.join(sourceDir, 'hooks.md'), '# Hooks\n\nEffects run after render.\n');
+
+      await new Builder({ embedder }).build(sourceDir, { output, contentVersion: '18.2.0' });
+
+      const store = new VectorStore(output),
+            query = await embedder.embed('Effects run after render.');
+
+      store.initialize();
+
+      try {
+         for (const contentVersion of [ '18.2.0', '^18', 'latest' ]) {
+            expect(store.vectorSearch(query, 5, { contentVersion })).toHaveLength(1);
+            expect(store.keywordSearch('effects', 5, { contentVersion })).toHaveLength(1);
+         }
+         expect(store.vectorSearch(query, 5, { contentVersion: '^17' })).toHaveLength(0);
+      } finally {
+         store.close();
+      }
+   });
+
+   it('embeds child chunks and stores each chunk as their parent', async () => {
+      const sourceDir = path.join(tempDir, 'docs');
+
+      const paragraphs = Array.from({ length: 8 }, (_, i) => {
+         return `Paragraph ${i + 1} explains one more detail of effect cleanup.`;
+      });
+
+      await fs.mkdir(sourceDir);
+      await fs.writeFile(path.join(sourceDir, 'hooks.md'), `# Cleanup\n\n${paragraphs.join('\n\n')}\n`);
+
+      const builder = new Builder({ embedder: createFakeEmbedder([]) }),
+            output = path.join(tempDir, 'docs.libragen');
+
+      await expect(builder.build(sourceDir, { output, childChunkSize: 1000 }))
+         .rejects
+         .toThrow('Child chunk size must be a positive integer smaller than the chunk size');
+
+      const result = await builder.build(sourceDir, { output, childChunkSize: 150 }),
+            store = new VectorStore(result.outputPath);
+
+      store.initialize();
+
+      try {
+         const parents = store.getChunkParents([ 1, 2 ]);
+
+         expect(result.metadata.chunking.childChunkSize).toBe(150);
+         expect(result.stats.chunkCount).toBeGreaterThan(1);
+         expect(parents.get(1)?.content).toContain('Paragraph 8');
+         expect(parents.get(2)?.id).toBe(parents.get(1)?.id);
+      } finally {
+         store.close();
+      }
+   });
+
+   it('resumes an interrupted build from its last checkpoint', async () => {
+      const sourceDir = path.join(tempDir, 'docs'),
+            output = path.join(tempDir, 'docs.libragen'),
+            fileCount = 600;
+
+      await fs.mkdir(sourceDir);
+
+      for (let i = 0; i < fileCount; i++) {
+         await fs.writeFile(path.join(sourceDir, `page-${i}.md`), `# Page ${i}\n\nResumable page ${i}.\n`);
+      }
+
+      // The first batch of chunks is embedded in 6 calls; the second fails
+      const crashing = new Builder({ embedder: createFakeEmbedder([], 6) });
+
+      await expect(crashing.build(sourceDir, { output, noAstChunking: true })).rejects.toThrow('Embedder crashed');
+      await expect(fs.access(`${output}.partial`)).resolves.toBeUndefined();
+
+      // Resuming with other options is refused
+      const other = new Builder({ embedder: createFakeEmbedder([]) });
+
+      await expect(other.build(sourceDir, { output, noAstChunking: true, chunkSize: 500, resume: true }))
+         .rejects
+         .toThrow('other options');
+
+      const batchSizes: number[] = [],
+            builder = new Builder({ embedder: createFakeEmbedder(batchSizes) }),
+            result = await builder.build(sourceDir, { output, noAstChunking: true, resume: true });
+
+      const fresh = await new Builder({ embedder: createFakeEmbedder([]) })
+         .build(sourceDir, { output: path.join(tempDir, 'fresh.libragen'), noAstChunking: true });
+
+      expect(result.stats.embeddingsResumed).toBe(256);
+      expect(result.stats.embeddingsComputed).toBe(fileCount - 256);
+      expect(batchSizes.reduce((sum, size) => { return sum + size; }, 0)).toBe(fileCount - 256);
+      expect(result.stats.chunkCount).toBe(fileCount);
+      expect(result.metadata.contentHash).toBe(fresh.metadata.contentHash);
+      await expect(fs.access(`${output}.partial`)).rejects.toThrow();
+   });
+
+   it('cancels a build through its signal and removes the partial output', async () => {
+      const sourceDir = path.join(tempDir, 'docs'),
+            output = path.join(tempDir, 'docs.libragen'),
+            controller = new AbortController(),
+            batchSizes: number[] = [],
+            embedder = createFakeEmbedder(batchSizes),
+            embedBatch = embedder.embedBatch.bind(embedder);
+
+      await fs.mkdir(sourceDir);
+
+      for (let i = 0; i < 600; i++) {
+         await fs.writeFile(path.join(sourceDir, `page-${i}.md`), `# Page ${i}\n\nCancellable page ${i}.\n`);
+      }
+
+      // Cancel once the first batch of chunks is written and the next is being embedded
+      embedder.embedBatch = async (texts) => {
+         if (batchSizes.length === 8) {
+            controller.abort();
+         }
+
+         return embedBatch(texts);
+      };
+
+      const builder = new Builder({ embedder });
+
+      await expect(builder.build(sourceDir, { output, noAstChunking: true, signal: controller.signal }))
+         .rejects
+         .toBeInstanceOf(BuildCancelledError);
+      expect(batchSizes.length).toBeLessThan(12);
+      await expect(fs.access(`${output}.partial`)).rejects.toThrow();
+      await expect(fs.access(output)).rejects.toThrow();
+   });
+
+   it('fails without writing a library when there is no content', async () => {
+      const outputPath = path.join(tempDir, 'empty.libragen'),
+            builder = new Builder({ embedder: createFakeEmbedder([]) });
+
+      await fs.mkdir(path.join(tempDir, 'empty'));
+
+      await expect(builder.build(path.join(tempDir, 'empty'), { output: outputPath }))
+         .rejects
+         .toThrow('No content found to index');
+      await expect(fs.access(outputPath)).rejects.toThrow();
+   });
+});
@@ -119,6 +119,12 @@ describe('Chunker', () => {
          expect(chunks[0].metadata.startLine).toBe(1);
       });
 
+      it('splits Markdown documents along their sections', async () => {
+         const chunks = await chunker.chunkText('# Guide\n\nIntro.\n\n## Install\n\nRun it.', 'docs/guide.md');
+
+         expect(chunks.map((c) => { return c.metadata.breadcrumb; })).toEqual([ 'Guide', 'Guide > Install' ]);
+      });
+
       it('splits large content into multiple chunks', async () => {
          // Create content larger than default chunk size
          const lines = Array.from({ length: 200 }, (_, i) => {
@@ -135,6 +141,34 @@ describe('Chunker', () => {
       });
    });
 
+   describe('splitIntoChildren', () => {
+      it('splits chunks into children that keep their parent and breadcrumb', async () => {
+         const paragraphs = Array.from({ length: 6 }, (_, i) => {
+            return `Paragraph ${i + 1} explains one more detail of effect cleanup.`;
+         });
+
+         const parent: Chunk = {
+            content: paragraphs.join('\n\n'),
+            embeddingContent: `Hooks > Cleanup\n\n${paragraphs.join('\n\n')}`,
+            metadata: { sourceFile: 'hooks.md', startLine: 10, endLine: 20, language: 'markdown' },
+         };
+
+         const children = await new Chunker({ chunkSize: 150, chunkOverlap: 0 }).splitIntoChildren([ parent ]);
+
+         expect(children.length).toBeGreaterThan(1);
+         expect(children.every((c) => { return c.parent === parent; })).toBe(true);
+         expect(children[0].embeddingContent).toBe(`Hooks > Cleanup\n\n${children[0].content}`);
+         expect(children[0].metadata.startLine).toBe(10);
+         expect(children[1].metadata.startLine).toBeGreaterThan(10);
+      });
+
+      it('keeps chunks that already fit whole', async () => {
+         const chunk: Chunk = { content: 'Short.', metadata: { sourceFile: 'a.md' } };
+
+         expect(await chunker.splitIntoChildren([ chunk ])).toEqual([ chunk ]);
+      });
+   });
+
    describe('chunkFile', () => {
       it('chunks a file from the filesystem', async () => {
          const filePath = path.join(tempDir, 'test.js');
@@ -213,6 +213,13 @@ describe('CollectionClient', () => {
          expect(results[0].version).toBe('0.9.0');
       });
 
+      it('filters by content version range', async () => {
+         const results = await client.search('rust', { contentVersion: '<1.74' });
+
+         expect(results).toHaveLength(1);
+         expect(results[0].contentVersion).toBe('1.73.0');
+      });
+
       it('returns empty array when no matches', async () => {
          const results = await client.search('nonexistent');
 
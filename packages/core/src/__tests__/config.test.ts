@@ -4,6 +4,8 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs/promises';
 
 // We need to reset modules between tests to pick up env changes
 let configModule: typeof import('../config.ts');
@@ -136,4 +138,47 @@ describe('config', () => {
          expect(dir).toMatch(/[/\\]models$/);
       });
    });
+
+   describe('getEmbeddingCacheDir', () => {
+      it('should return embeddings subdirectory', async () => {
+         // eslint-disable-next-line no-process-env
+         process.env.LIBRAGEN_HOME = '/custom/libragen';
+         vi.resetModules();
+         configModule = await import('../config.ts');
+
+         expect(normalizePath(configModule.getEmbeddingCacheDir())).toBe('/custom/libragen/embeddings');
+      });
+   });
+
+   describe('discoverLibraryPaths', () => {
+      let tempDir: string;
+
+      beforeEach(async () => {
+         tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'libragen-config-test-'));
+      });
+
+      afterEach(async () => {
+         await fs.rm(tempDir, { recursive: true, force: true });
+      });
+
+      it('should include existing project library directories before the global directory', async () => {
+         // eslint-disable-next-line no-process-env
+         process.env.LIBRAGEN_HOME = '/custom/libragen';
+         vi.resetModules();
+         configModule = await import('../config.ts');
+
+         const withLibraries = path.join(tempDir, 'with-libraries'),
+               withoutLibraries = path.join(tempDir, 'without-libraries');
+
+         await fs.mkdir(path.join(withLibraries, '.libragen', 'libraries'), { recursive: true });
+         await fs.mkdir(withoutLibraries);
+
+         const paths = await configModule.discoverLibraryPaths([ withoutLibraries, withLibraries ]);
+
+         expect(paths.map(normalizePath)).toEqual([
+            normalizePath(path.join(withLibraries, '.libragen', 'libraries')),
+            '/custom/libragen/libraries',
+         ]);
+      });
+   });
 });
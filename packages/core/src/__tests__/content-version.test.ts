@@ -0,0 +1,84 @@
+/**
+ * Tests for content version naming and ordering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+   contentVersionFromRef,
+   compareContentVersions,
+   sortContentVersions,
+   inferContentVersionType,
+   matchContentVersions,
+} from '../content-version.ts';
+
+describe('contentVersionFromRef', () => {
+   it('drops a leading "v" from version tags', () => {
+      expect(contentVersionFromRef('v18.0.0')).toBe('18.0.0');
+      expect(contentVersionFromRef('refs/tags/v18.2.1')).toBe('18.2.1');
+      expect(contentVersionFromRef('1.74.0')).toBe('1.74.0');
+   });
+
+   it('keeps other ref names as they are', () => {
+      expect(contentVersionFromRef('main')).toBe('main');
+      expect(contentVersionFromRef('refs/heads/vnext')).toBe('vnext');
+   });
+});
+
+describe('compareContentVersions', () => {
+   it('compares numeric parts as numbers', () => {
+      expect(compareContentVersions('10.0.0', '9.2.1')).toBeGreaterThan(0);
+      expect(compareContentVersions('1.9.0', '1.10.0')).toBeLessThan(0);
+      expect(compareContentVersions('v2.0.0', '2.0.0')).toBe(0);
+   });
+
+   it('orders prereleases before their release', () => {
+      expect(compareContentVersions('18.0.0-rc.1', '18.0.0')).toBeLessThan(0);
+   });
+});
+
+describe('sortContentVersions', () => {
+   it('sorts newest first without duplicates', () => {
+      expect(sortContentVersions([ '17.0.0', '19.0.0', '18.0.0', '19.0.0' ])).toEqual([ '19.0.0', '18.0.0', '17.0.0' ]);
+   });
+});
+
+describe('inferContentVersionType', () => {
+   it('recognizes dates and semver versions', () => {
+      expect(inferContentVersionType([ '2024-05-01', '2024-06' ])).toBe('date');
+      expect(inferContentVersionType([ '1.74', '18.2.0' ])).toBe('semver');
+      expect(inferContentVersionType([ 'main', '18.2.0' ])).toBeUndefined();
+   });
+});
+
+describe('matchContentVersions', () => {
+   const versions = [ '17.0.2', '18.2.0', '18.3.1', '19.0.0' ];
+
+   it('prefers an exact match', () => {
+      expect(matchContentVersions('18.2.0', versions)).toEqual([ '18.2.0' ]);
+      expect(matchContentVersions('main', [ 'main', 'next' ], 'custom')).toEqual([ 'main' ]);
+   });
+
+   it('matches semver ranges', () => {
+      expect(matchContentVersions('^18', versions)).toEqual([ '18.3.1', '18.2.0' ]);
+      expect(matchContentVersions('>=17.0 <18.3', versions, 'semver')).toEqual([ '18.2.0', '17.0.2' ]);
+      expect(matchContentVersions('18.x', versions)).toEqual([ '18.3.1', '18.2.0' ]);
+   });
+
+   it('matches "latest"', () => {
+      expect(matchContentVersions('latest', versions)).toEqual([ '19.0.0' ]);
+      expect(matchContentVersions('latest', [])).toEqual([]);
+   });
+
+   it('matches date ranges at the precision given', () => {
+      const dates = [ '2024-01-15', '2024-05-01', '2024-05-31', '2024-07-01' ];
+
+      expect(matchContentVersions('2024-05', dates)).toEqual([ '2024-05-31', '2024-05-01' ]);
+      expect(matchContentVersions('>=2024-02 <=2024-05', dates, 'date')).toEqual([ '2024-05-31', '2024-05-01' ]);
+      expect(matchContentVersions('>2024-05', dates)).toEqual([ '2024-07-01' ]);
+   });
+
+   it('only matches exactly for other version types', () => {
+      expect(matchContentVersions('^18', versions, 'commit')).toEqual([]);
+      expect(matchContentVersions('not a range', versions)).toEqual([]);
+   });
+});
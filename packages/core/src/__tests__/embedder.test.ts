@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { Embedder } from '../embedder.js';
+import { Embedder, createEmbedder, getLibraryEmbedderOptions, getEmbeddingModelKey } from '../embedder.js';
+import { ParallelEmbedder } from '../parallel-embedder.js';
 import type { EmbedProgress } from '../embedder.js';
 
 // Mock the transformers module
@@ -189,6 +190,38 @@ describe('Embedder', () => {
       });
    });
 
+   describe('prefix profiles', () => {
+      it('picks the profile the model was trained with', () => {
+         expect(new Embedder().prefixProfile).toBe('bge');
+         expect(new Embedder({ model: 'Xenova/e5-small-v2' }).prefixProfile).toBe('e5');
+         expect(new Embedder({ model: 'Xenova/all-MiniLM-L6-v2' }).prefixProfile).toBe('none');
+         expect(new Embedder({ prefixProfile: 'none' }).prefixProfile).toBe('none');
+      });
+
+      it('rejects unknown profiles', () => {
+         expect(() => { return new Embedder({ prefixProfile: 'unknown' }); }).toThrow('Unknown embedding prefix profile');
+      });
+
+      it('applies the query prefix in embedQuery', async () => {
+         const embed = vi.spyOn(embedder, 'embed');
+
+         await embedder.embedQuery('hooks');
+
+         expect(embed).toHaveBeenCalledWith('Represent this sentence for searching relevant passages: hooks');
+      });
+
+      it('applies the document prefix in embedDocuments', async () => {
+         const e5 = new Embedder({ model: 'Xenova/e5-small-v2' }),
+               embedBatch = vi.spyOn(e5, 'embedBatch');
+
+         await e5.embedDocuments([ 'a', 'b' ]);
+
+         expect(embedBatch).toHaveBeenCalledWith([ 'passage: a', 'passage: b' ], undefined);
+
+         await e5.dispose();
+      });
+   });
+
    describe('dispose', () => {
       it('marks embedder as not initialized after dispose', async () => {
          await embedder.initialize();
@@ -250,3 +283,73 @@ describe('Embedder', () => {
       });
    });
 });
+
+describe('createEmbedder', () => {
+   it('embeds on the calling thread by default', () => {
+      expect(createEmbedder()).toBeInstanceOf(Embedder);
+      expect(createEmbedder({ workers: 1 })).toBeInstanceOf(Embedder);
+   });
+
+   it('embeds in worker threads when asked for more than one worker', async () => {
+      const embedder = createEmbedder({ model: 'Xenova/all-MiniLM-L6-v2', workers: 3 });
+
+      expect(embedder).toBeInstanceOf(ParallelEmbedder);
+      expect(embedder).toMatchObject({ concurrency: 3, model: 'Xenova/all-MiniLM-L6-v2', provider: 'transformers' });
+
+      // No workers are started until the embedder is initialized
+      await embedder.dispose();
+   });
+
+   it('rejects invalid worker counts and workers for the http embedder', () => {
+      expect(() => { return createEmbedder({ workers: 2.5 }); }).toThrow('Invalid number of embedding workers');
+      expect(() => { return createEmbedder({ provider: 'http', url: 'http://a/v1', model: 'm', workers: 2 }); })
+         .toThrow('only supported by the transformers embedder');
+   });
+});
+
+describe('getLibraryEmbedderOptions', () => {
+   it('uses the default model for libraries without embedding metadata', () => {
+      expect(getLibraryEmbedderOptions(undefined)).toEqual({ prefixProfile: 'none' });
+   });
+
+   it('loads the recorded local model', () => {
+      expect(getLibraryEmbedderOptions({ model: 'Xenova/all-MiniLM-L6-v2', dimensions: 384 }))
+         .toEqual({ provider: 'transformers', model: 'Xenova/all-MiniLM-L6-v2', prefixProfile: 'none' });
+   });
+
+   it('uses the recorded prefix profile', () => {
+      expect(getLibraryEmbedderOptions({ model: 'Xenova/bge-small-en-v1.5', dimensions: 384, prefixProfile: 'bge' }))
+         .toMatchObject({ prefixProfile: 'bge' });
+   });
+
+   it('uses the recorded endpoint for http libraries, unless overridden', () => {
+      const embedding = { model: 'nomic-embed-text', dimensions: 768, provider: 'http', url: 'http://a/v1' };
+
+      expect(getLibraryEmbedderOptions(embedding)).toMatchObject({ provider: 'http', url: 'http://a/v1', dimensions: 768 });
+      expect(getLibraryEmbedderOptions(embedding, { url: 'http://b/v1', apiKey: 'key' }))
+         .toMatchObject({ url: 'http://b/v1', apiKey: 'key' });
+   });
+
+   it('requires an endpoint for http libraries', () => {
+      expect(() => { return getLibraryEmbedderOptions({ model: 'm', dimensions: 3, provider: 'http' }); })
+         .toThrow('no embeddings API URL');
+   });
+});
+
+describe('getEmbeddingModelKey', () => {
+   it('matches libraries with embedders of the same model', () => {
+      expect(getEmbeddingModelKey({ model: 'Xenova/bge-small-en-v1.5' })).toBe(getEmbeddingModelKey(new Embedder()));
+      expect(getEmbeddingModelKey(undefined)).toBe(getEmbeddingModelKey(new Embedder()));
+   });
+
+   it('distinguishes providers, endpoints, and models', () => {
+      const keys = new Set([
+         getEmbeddingModelKey({ model: 'm' }),
+         getEmbeddingModelKey({ model: 'm', provider: 'http', url: 'http://a/v1' }),
+         getEmbeddingModelKey({ model: 'm', provider: 'http', url: 'http://b/v1' }),
+         getEmbeddingModelKey({ model: 'n', provider: 'http', url: 'http://a/v1' }),
+      ]);
+
+      expect(keys.size).toBe(4);
+   });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for the embedding cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs/promises';
+import { EmbeddingCache, getEmbeddingCacheNamespace } from '../embedding-cache.ts';
+import type { IEmbedder } from '../embedder.ts';
+
+// Size of each test embedding in bytes
+const EMBEDDING_SIZE = 4 * 4;
+
+function vector(value: number): Float32Array {
+   return new Float32Array([ value, value, value, value ]);
+}
+
+function sleep(ms: number): Promise<void> {
+   return new Promise((resolve) => {
+      setTimeout(resolve, ms);
+   });
+}
+
+describe('EmbeddingCache', () => {
+   let tempDir: string,
+       cache: EmbeddingCache;
+
+   beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'libragen-embedding-cache-test-'));
+      cache = new EmbeddingCache({ dir: tempDir, maxSizeBytes: EMBEDDING_SIZE * 10 });
+   });
+
+   afterEach(async () => {
+      cache.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   it('returns the embeddings stored in the same namespace', async () => {
+      await cache.set('model-a', [ { hash: 'one', embedding: vector(1) }, { hash: 'two', embedding: vector(2) } ]);
+
+      const found = await cache.get('model-a', [ 'one', 'two', 'three' ]);
+
+      expect([ ...found.keys() ].sort()).toEqual([ 'one', 'two' ]);
+      expect(found.get('two')).toEqual(vector(2));
+      expect((await cache.get('model-b', [ 'one' ])).size).toBe(0);
+   });
+
+   it('evicts the least recently used embeddings past its size limit', async () => {
+      await cache.set('model', Array.from({ length: 10 }, (_, i) => {
+         return { hash: `old-${i}`, embedding: vector(i) };
+      }));
+      await sleep(5);
+
+      // Using the first embedding keeps it from being evicted
+      await cache.get('model', [ 'old-0' ]);
+      await sleep(5);
+      await cache.set('model', [ { hash: 'new', embedding: vector(99) } ]);
+
+      const stats = await cache.stats();
+
+      // Evicted down to 90% of the limit, keeping the embeddings used last
+      expect(stats.entryCount).toBe(9);
+      expect(stats.sizeBytes).toBe(EMBEDDING_SIZE * 9);
+      expect((await cache.get('model', [ 'old-0', 'new' ])).size).toBe(2);
+   });
+
+   it('reports totals per namespace', async () => {
+      await cache.set('model-a', [ { hash: 'one', embedding: vector(1) }, { hash: 'two', embedding: vector(2) } ]);
+      await cache.set('model-b', [ { hash: 'one', embedding: vector(1) } ]);
+
+      expect(await cache.stats()).toMatchObject({
+         path: path.join(tempDir, 'embeddings.db'),
+         entryCount: 3,
+         sizeBytes: EMBEDDING_SIZE * 3,
+         maxSizeBytes: EMBEDDING_SIZE * 10,
+         models: [
+            { namespace: 'model-a', entryCount: 2, sizeBytes: EMBEDDING_SIZE * 2 },
+            { namespace: 'model-b', entryCount: 1, sizeBytes: EMBEDDING_SIZE },
+         ],
+      });
+   });
+
+   it('prunes by size and by how long embeddings went unused', async () => {
+      await cache.set('model', [ { hash: 'one', embedding: vector(1) }, { hash: 'two', embedding: vector(2) } ]);
+      await sleep(20);
+      await cache.set('model', [ { hash: 'three', embedding: vector(3) } ]);
+
+      expect(await cache.prune({ unusedForMs: 10 })).toBe(2);
+      expect(await cache.prune({ maxSizeBytes: 0 })).toBe(1);
+      expect((await cache.stats()).entryCount).toBe(0);
+   });
+
+   it('deletes the cache database when cleared', async () => {
+      await cache.set('model', [ { hash: 'one', embedding: vector(1) } ]);
+      await cache.clear();
+
+      await expect(fs.access(cache.path)).rejects.toThrow();
+      expect((await cache.stats()).entryCount).toBe(0);
+      await expect(fs.access(cache.path)).rejects.toThrow();
+   });
+});
+
+describe('getEmbeddingCacheNamespace', () => {
+   const embedder: IEmbedder = {
+      dimensions: 384,
+      model: 'Xenova/bge-small-en-v1.5',
+      provider: 'transformers',
+      quantization: 'q8',
+      prefixProfile: 'bge',
+      initialize: async () => {
+         return undefined;
+      },
+      embed: async () => {
+         return new Float32Array(384);
+      },
+      embedBatch: async (texts) => {
+         return texts.map(() => { return new Float32Array(384); });
+      },
+      dispose: async () => {
+         return undefined;
+      },
+   };
+
+   it('distinguishes models, quantizations, and prefix profiles', () => {
+      const namespaces = new Set([
+         getEmbeddingCacheNamespace(embedder),
+         getEmbeddingCacheNamespace({ ...embedder, model: 'Xenova/all-MiniLM-L6-v2' }),
+         getEmbeddingCacheNamespace({ ...embedder, quantization: 'fp32' }),
+         getEmbeddingCacheNamespace({ ...embedder, prefixProfile: 'none' }),
+      ]);
+
+      expect(namespaces.size).toBe(4);
+      expect(getEmbeddingCacheNamespace({ ...embedder })).toBe(getEmbeddingCacheNamespace(embedder));
+   });
+
+   it('does not cache embeddings of embedders without a model', () => {
+      expect(getEmbeddingCacheNamespace({ ...embedder, model: undefined })).toBeUndefined();
+   });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { HttpEmbedder } from '../http-embedder.js';
+import { Embedder, createEmbedder } from '../embedder.js';
+
+interface RecordedRequest {
+   headers: http.IncomingHttpHeaders;
+   body: { model: string; input: string[] };
+}
+
+describe('HttpEmbedder', () => {
+   let server: http.Server,
+       baseUrl: string,
+       requests: RecordedRequest[],
+       failuresBeforeSuccess: number,
+       failureStatus: number;
+
+   function fakeEmbedding(text: string): number[] {
+      return [ text.length, text.charCodeAt(0) || 0, 1 ];
+   }
+
+   beforeEach(async () => {
+      requests = [];
+      failuresBeforeSuccess = 0;
+      failureStatus = 500;
+
+      server = http.createServer((req, res) => {
+         let raw = '';
+
+         req.on('data', (chunk) => { raw += chunk; });
+         req.on('end', () => {
+            const body = JSON.parse(raw);
+
+            requests.push({ headers: req.headers, body });
+
+            if (req.url !== '/v1/embeddings') {
+               res.writeHead(404).end();
+               return;
+            }
+
+            if (failuresBeforeSuccess > 0) {
+               failuresBeforeSuccess -= 1;
+               res.writeHead(failureStatus).end('try again');
+               return;
+            }
+
+            // Return embeddings in reverse order to check that indexes are respected
+            const data = (body.input as string[])
+               .map((text, index) => {
+                  return { object: 'embedding', index, embedding: fakeEmbedding(text) };
+               })
+               .reverse();
+
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ object: 'list', data, model: body.model }));
+         });
+      });
+
+      await new Promise<void>((resolve) => {
+         server.listen(0, '127.0.0.1', resolve);
+      });
+
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+   });
+
+   afterEach(async () => {
+      await new Promise<void>((resolve) => {
+         server.close(() => { resolve(); });
+      });
+   });
+
+   it('detects dimensions from the endpoint on initialize', async () => {
+      const embedder = new HttpEmbedder({ url: baseUrl, model: 'test-model' });
+
+      expect(embedder.dimensions).toBe(0);
+
+      await embedder.initialize();
+
+      expect(embedder.dimensions).toBe(3);
+      expect(requests).toHaveLength(1);
+   });
+
+   it('skips detection when dimensions are configured', async () => {
+      const embedder = new HttpEmbedder({ url: baseUrl, model: 'test-model', dimensions: 3 });
+
+      await embedder.initialize();
+
+      expect(requests).toHaveLength(0);
+   });
+
+   it('batches texts and returns embeddings in input order', async () => {
+      const embedder = new HttpEmbedder({ url: baseUrl, model: 'test-model', dimensions: 3, batchSize: 2 }),
+            texts = [ 'a', 'bb', 'ccc', 'dddd', 'eeeee' ];
+
+      const embeddings = await embedder.embedBatch(texts);
+
+      expect(requests.map((r) => { return r.body.input; })).toEqual([ [ 'a', 'bb' ], [ 'ccc', 'dddd' ], [ 'eeeee' ] ]);
+      expect(embeddings.map((e) => { return Array.from(e); })).toEqual(texts.map(fakeEmbedding));
+   });
+
+   it('sends the model and API key', async () => {
+      const embedder = new HttpEmbedder({ url: `${baseUrl}/`, model: 'test-model', apiKey: 'secret', dimensions: 3 });
+
+      await embedder.embed('hello');
+
+      expect(requests[0].body.model).toBe('test-model');
+      expect(requests[0].headers.authorization).toBe('Bearer secret');
+   });
+
+   it('retries server errors and rate limiting', async () => {
+      const embedder = new HttpEmbedder({ url: baseUrl, model: 'test-model', dimensions: 3, retryDelayMs: 1 });
+
+      failuresBeforeSuccess = 2;
+      failureStatus = 429;
+
+      const embedding = await embedder.embed('hello');
+
+      expect(Array.from(embedding)).toEqual(fakeEmbedding('hello'));
+      expect(requests).toHaveLength(3);
+   });
+
+   it('gives up after the configured number of retries', async () => {
+      const embedder = new HttpEmbedder({
+         url: baseUrl,
+         model: 'test-model',
+         dimensions: 3,
+         maxRetries: 1,
+         retryDelayMs: 1,
+      });
+
+      failuresBeforeSuccess = 5;
+
+      await expect(embedder.embed('hello')).rejects.toThrow('500');
+      expect(requests).toHaveLength(2);
+   });
+
+   it('does not retry client errors', async () => {
+      const embedder = new HttpEmbedder({ url: baseUrl, model: 'test-model', dimensions: 3, retryDelayMs: 1 });
+
+      failuresBeforeSuccess = 1;
+      failureStatus = 400;
+
+      await expect(embedder.embed('hello')).rejects.toThrow('400');
+      expect(requests).toHaveLength(1);
+   });
+
+   it('rejects embeddings with unexpected dimensions', async () => {
+      const embedder = new HttpEmbedder({ url: baseUrl, model: 'test-model', dimensions: 384 });
+
+      await expect(embedder.embed('hello')).rejects.toThrow('expected 384');
+   });
+
+   describe('createEmbedder', () => {
+      it('creates an HttpEmbedder for the http provider', () => {
+         const embedder = createEmbedder({ provider: 'http', url: baseUrl, model: 'test-model' });
+
+         expect(embedder).toBeInstanceOf(HttpEmbedder);
+         expect(embedder.model).toBe('test-model');
+         expect(embedder.provider).toBe('http');
+      });
+
+      it('requires a url and model for the http provider', () => {
+         expect(() => { return createEmbedder({ provider: 'http', model: 'test-model' }); })
+            .toThrow('requires a url and a model');
+      });
+
+      it('creates a local Embedder by default', () => {
+         const embedder = createEmbedder();
+
+         expect(embedder).toBeInstanceOf(Embedder);
+         expect(embedder.provider).toBe('transformers');
+      });
+   });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+   KeywordQuerySyntaxError,
+   HIGHLIGHT_START,
+   HIGHLIGHT_END,
+   parseHighlightedText,
+   validateKeywordQuery,
+} from '../keyword-query.js';
+
+function getError(query: string): KeywordQuerySyntaxError {
+   try {
+      validateKeywordQuery(query);
+   } catch(e) {
+      if (e instanceof KeywordQuerySyntaxError) {
+         return e;
+      }
+      throw e;
+   }
+
+   throw new Error(`Expected "${query}" to be invalid`);
+}
+
+const VALID_QUERIES = [
+   'hooks',
+   '"use effect"',
+   '"say ""hi"""',
+   'useEff*',
+   '"use eff"*',
+   'NEAR(cleanup effect, 5)',
+   'hooks AND (state OR reducer)',
+   'hooks NOT class',
+   'content: hooks',
+   '^intro',
+   'one + two',
+   'café',
+];
+
+// Query, problem, and the character it's reported at
+const INVALID_QUERIES: Array<[ string, string, number ]> = [
+   [ '"use effect', 'the quote at character 1 is never closed', 1 ],
+   [ '(hooks OR state', 'the "(" at character 1 is never closed', 1 ],
+   [ 'hooks)', '")" at character 6 has no matching "("', 6 ],
+   [ 'hooks AND', 'AND at character 7 needs a term on each side', 7 ],
+   [ 'OR state', 'OR at character 1 needs a term on each side', 1 ],
+   [ 'title: hooks', 'unknown column "title" at character 6; only "content" can be searched', 6 ],
+   [ 'hooks *', '"*" at character 7 must directly follow a term, e.g. useEff*', 7 ],
+];
+
+describe('validateKeywordQuery', () => {
+   it.each(VALID_QUERIES)('accepts %s', (query) => {
+      expect(() => { validateKeywordQuery(query); }).not.toThrow();
+   });
+
+   it('points at unexpected punctuation and suggests quoting the term', () => {
+      const error = getError('hooks use-effect');
+
+      expect(error.position).toBe(10);
+      expect(error.message).toBe(
+         'Invalid keyword query: unexpected "-" at character 10; put terms containing ' +
+         'punctuation in double quotes, e.g. "use-effect"'
+      );
+   });
+
+   it.each(INVALID_QUERIES)('rejects %s', (query, message, position) => {
+      const error = getError(query);
+
+      expect(error.message).toBe(`Invalid keyword query: ${message}`);
+      expect(error.position).toBe(position);
+      expect(error.query).toBe(query);
+   });
+
+   it('rejects queries without terms', () => {
+      expect(getError('  ').message).toBe('Invalid keyword query: the query has no terms');
+   });
+
+   it('reads lower-case operators as terms', () => {
+      expect(() => { validateKeywordQuery('hooks and'); }).not.toThrow();
+   });
+});
+
+describe('parseHighlightedText', () => {
+   it('strips the markers and returns the offsets of the matched terms', () => {
+      const marked = `the ${HIGHLIGHT_START}useEffect${HIGHLIGHT_END} hook runs ${HIGHLIGHT_START}effects${HIGHLIGHT_END}`;
+
+      expect(parseHighlightedText(marked)).toEqual({
+         text: 'the useEffect hook runs effects',
+         highlights: [ { start: 4, end: 13 }, { start: 24, end: 31 } ],
+      });
+   });
+
+   it('returns text without markers unchanged', () => {
+      expect(parseHighlightedText('no matches')).toEqual({ text: 'no matches', highlights: [] });
+   });
+});
@@ -214,6 +214,23 @@ describe('Library', () => {
 
          await library.close();
       });
+
+      it('indexes embeddings with the dimensions of the library\'s model', async () => {
+         const library = await Library.create(libraryPath, {
+            name: 'test-library',
+            embedding: { model: 'nomic-ai/nomic-embed-text-v1.5', dimensions: 768 },
+         });
+
+         const embedding = new Float32Array(768).fill(0.1);
+
+         library.addChunks([ { content: 'Wide chunk', metadata: { sourceFile: 'file1.ts' } } ], [ embedding ]);
+
+         const results = library.getStore().vectorSearch(embedding, 1);
+
+         expect(results.map((r) => { return r.content; })).toEqual([ 'Wide chunk' ]);
+
+         await library.close();
+      });
    });
 
    describe('computeContentHash', () => {
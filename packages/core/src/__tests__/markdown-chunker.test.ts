@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MarkdownChunker } from '../markdown-chunker.js';
+
+describe('MarkdownChunker', () => {
+   let chunker: MarkdownChunker;
+
+   beforeEach(() => {
+      chunker = new MarkdownChunker();
+   });
+
+   describe('isSupported', () => {
+      it('returns true for Markdown, MDX, and reStructuredText documents', () => {
+         expect(MarkdownChunker.isSupported('README.md')).toBe(true);
+         expect(MarkdownChunker.isSupported('docs/intro.mdx')).toBe(true);
+         expect(MarkdownChunker.isSupported('docs/index.rst')).toBe(true);
+      });
+
+      it('returns false for other files', () => {
+         expect(MarkdownChunker.isSupported('notes.txt')).toBe(false);
+         expect(MarkdownChunker.isSupported('index.ts')).toBe(false);
+      });
+   });
+
+   describe('chunkText', () => {
+      it('splits documents on their sections with a breadcrumb of headings', async () => {
+         const lines = [
+            '# Hooks',
+            '',
+            'Hooks let you use state.',
+            '',
+            '## useEffect',
+            '',
+            'Synchronizes a component with an external system.',
+            '',
+            '### Cleanup',
+            '',
+            'Return a cleanup function.',
+            '',
+            '## useState',
+            '',
+            'Adds a state variable.',
+         ];
+
+         const chunks = await chunker.chunkText(lines.join('\n'), 'docs/hooks.md');
+
+         expect(chunks.map((c) => { return c.metadata.breadcrumb; })).toEqual([
+            'Hooks',
+            'Hooks > useEffect',
+            'Hooks > useEffect > Cleanup',
+            'Hooks > useState',
+         ]);
+         expect(chunks[2].content).toBe('### Cleanup\n\nReturn a cleanup function.');
+         expect(chunks[2].embeddingContent).toBe('Hooks > useEffect > Cleanup\n\n### Cleanup\n\nReturn a cleanup function.');
+         expect(chunks[2].metadata).toMatchObject({ startLine: 9, endLine: 11, language: 'markdown' });
+      });
+
+      it('parses frontmatter into metadata and starts breadcrumbs with its title', async () => {
+         const lines = [
+            '---',
+            'title: Guide',
+            'tags: [react, hooks]',
+            '---',
+            '',
+            '## Hooks',
+            '',
+            '### `useEffect`',
+            '',
+            'Synchronizes a component with an external system.',
+         ];
+
+         const [ chunk, ...rest ] = await chunker.chunkText(lines.join('\n'), 'docs/guide.mdx');
+
+         expect(rest).toHaveLength(0);
+         expect(chunk.content).not.toContain('title: Guide');
+         expect(chunk.metadata).toMatchObject({
+            breadcrumb: 'Guide > Hooks > useEffect',
+            frontmatter: { title: 'Guide', tags: [ 'react', 'hooks' ] },
+            startLine: 6,
+         });
+      });
+
+      it('ignores headings inside code blocks', async () => {
+         const lines = [
+            '## Shell',
+            '',
+            '```sh',
+            '# Install dependencies',
+            'npm install',
+            '```',
+         ];
+
+         const chunks = await chunker.chunkText(lines.join('\n'), 'README.md');
+
+         expect(chunks).toHaveLength(1);
+         expect(chunks[0].metadata.breadcrumb).toBe('Shell');
+      });
+
+      it('recognizes setext headings', async () => {
+         const content = 'Guide\n=====\n\nIntro.\n\nInstall\n-------\n\nRun npm install.';
+
+         const chunks = await chunker.chunkText(content, 'README.md');
+
+         expect(chunks.map((c) => { return c.metadata.breadcrumb; })).toEqual([ 'Guide', 'Guide > Install' ]);
+      });
+
+      it('ranks reStructuredText headings by the order their adornments appear in', async () => {
+         const lines = [
+            '=====',
+            'Guide',
+            '=====',
+            '',
+            'Intro.',
+            '',
+            'Hooks',
+            '-----',
+            '',
+            'Hooks let you use state.',
+            '',
+            'useEffect',
+            '~~~~~~~~~',
+            '',
+            'Synchronizes a component.',
+            '',
+            'Events',
+            '------',
+            '',
+            'Handling events.',
+         ];
+
+         const chunks = await chunker.chunkText(lines.join('\n'), 'docs/index.rst');
+
+         expect(chunks.map((c) => { return c.metadata.breadcrumb; })).toEqual([
+            'Guide',
+            'Guide > Hooks',
+            'Guide > Hooks > useEffect',
+            'Guide > Events',
+         ]);
+         expect(chunks[0].metadata).toMatchObject({ startLine: 1, language: 'rst' });
+      });
+
+      it('splits sections larger than the chunk size, keeping their breadcrumb', async () => {
+         const paragraphs = Array.from({ length: 10 }, (_, i) => {
+            return `Paragraph ${i + 1} explains one more detail of effect cleanup.`;
+         });
+
+         const small = new MarkdownChunker({ chunkSize: 200, chunkOverlap: 0 }),
+               chunks = await small.chunkText(`# Hooks\n\n## Cleanup\n\n${paragraphs.join('\n\n')}`, 'hooks.md');
+
+         expect(chunks.length).toBeGreaterThan(1);
+         expect(new Set(chunks.map((c) => { return c.metadata.breadcrumb; }))).toEqual(new Set([ 'Hooks > Cleanup' ]));
+         expect(chunks[1].metadata.startLine).toBeGreaterThan(chunks[0].metadata.startLine ?? 0);
+      });
+
+      it('leaves chunks of documents without headings without a breadcrumb', async () => {
+         const chunks = await chunker.chunkText('Just some notes.', 'notes.md');
+
+         expect(chunks).toHaveLength(1);
+         expect(chunks[0].embeddingContent).toBeUndefined();
+         expect(chunks[0].metadata.breadcrumb).toBeUndefined();
+      });
+   });
+});
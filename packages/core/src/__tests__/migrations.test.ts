@@ -360,6 +360,145 @@ describe('Library migration integration', () => {
          await library.close();
       });
 
+      it('adds and backfills the vector index for v1 libraries', async () => {
+         const store = new VectorStore(libraryPath);
+
+         store.initialize();
+
+         const embedding = new Float32Array(384).fill(0);
+
+         embedding[0] = 1;
+
+         store.addChunks(
+            [
+               { content: 'indexed chunk', metadata: { sourceFile: 'a.md', startLine: 1, endLine: 1 } },
+               { content: 'other chunk', metadata: { sourceFile: 'b.md', startLine: 1, endLine: 1 } },
+            ],
+            [ embedding, new Float32Array(384).fill(0.05) ],
+            { contentVersion: '1.0.0' }
+         );
+
+         // Remove the index to simulate a library built before schema v2
+         store.getDatabase().exec(`
+            DROP TRIGGER chunks_vec_ai;
+            DROP TRIGGER chunks_vec_ad;
+            DROP TRIGGER chunks_vec_au;
+            DROP TABLE chunks_vec;
+         `);
+         store.setMeta('schema_version', '1');
+         store.setMetadata({
+            name: 'v1-library',
+            version: '1.0.0',
+            createdAt: new Date().toISOString(),
+            embedding: { model: 'test', dimensions: 384 },
+            chunking: { strategy: 'recursive', chunkSize: 1000, chunkOverlap: 100 },
+            stats: { chunkCount: 2, sourceCount: 2, fileSize: 0 },
+            contentHash: '',
+         });
+         store.close();
+
+         const library = await Library.open(libraryPath),
+               db = library.getStore().getDatabase();
+
+         const indexed = db.prepare('SELECT COUNT(*) AS count FROM chunks_vec').get() as { count: number };
+
+         expect(indexed.count).toBe(2);
+
+         const results = library.getStore().vectorSearch(embedding, 1, { contentVersion: '1.0.0' });
+
+         expect(results[0].content).toBe('indexed chunk');
+
+         await library.close();
+      });
+
+      it('records documents and links chunks for v2 libraries', async () => {
+         const store = new VectorStore(libraryPath);
+
+         store.initialize();
+         store.addChunks(
+            [
+               { content: 'first', metadata: { sourceFile: 'a.md', startLine: 1, endLine: 1 } },
+               { content: 'second', metadata: { sourceFile: 'a.md', startLine: 2, endLine: 2 } },
+               { content: 'other', metadata: { sourceFile: 'b.md', startLine: 1, endLine: 1 } },
+            ],
+            [ new Float32Array(384).fill(0.1), new Float32Array(384).fill(0.2), new Float32Array(384).fill(0.3) ]
+         );
+
+         // Remove the document columns to simulate a library built before schema v3
+         store.getDatabase().exec(`
+            DROP INDEX idx_chunks_source_id;
+            DROP INDEX idx_sources_path;
+            ALTER TABLE chunks DROP COLUMN source_id;
+            ALTER TABLE sources DROP COLUMN path;
+            ALTER TABLE sources DROP COLUMN license;
+         `);
+         store.setMeta('schema_version', '2');
+         store.setMetadata({
+            name: 'v2-library',
+            version: '1.0.0',
+            createdAt: new Date().toISOString(),
+            embedding: { model: 'test', dimensions: 384 },
+            chunking: { strategy: 'recursive', chunkSize: 1000, chunkOverlap: 100 },
+            stats: { chunkCount: 3, sourceCount: 2, fileSize: 0 },
+            contentHash: '',
+            source: { type: 'git', url: 'https://github.com/a/b', commitHash: 'abc123', licenses: [ 'MIT' ] },
+         });
+         store.close();
+
+         const library = await Library.open(libraryPath),
+               sources = library.getStore().getSources();
+
+         expect(sources).toHaveLength(2);
+         expect(sources[0]).toMatchObject({
+            type: 'git',
+            uri: 'https://github.com/a/b',
+            path: 'a.md',
+            ref: 'abc123',
+            license: 'MIT',
+            chunkCount: 2,
+         });
+         expect(sources[1]).toMatchObject({ path: 'b.md', chunkCount: 1 });
+
+         await library.close();
+      });
+
+      it('adds parent chunks for v3 libraries', async () => {
+         const store = new VectorStore(libraryPath);
+
+         store.initialize();
+
+         const [ chunkId ] = store.addChunks(
+            [ { content: 'first', metadata: { sourceFile: 'a.md', startLine: 1, endLine: 1 } } ],
+            [ new Float32Array(384).fill(0.1) ]
+         );
+
+         // Remove the parents to simulate a library built before schema v4
+         store.getDatabase().exec(`
+            DROP INDEX idx_chunks_parent_id;
+            ALTER TABLE chunks DROP COLUMN parent_id;
+            DROP TABLE parents;
+         `);
+         store.setMeta('schema_version', '3');
+         store.setMetadata({
+            name: 'v3-library',
+            version: '1.0.0',
+            createdAt: new Date().toISOString(),
+            embedding: { model: 'test', dimensions: 384 },
+            chunking: { strategy: 'recursive', chunkSize: 1000, chunkOverlap: 100 },
+            stats: { chunkCount: 1, sourceCount: 1, fileSize: 0 },
+            contentHash: '',
+         });
+         store.close();
+
+         const library = await Library.open(libraryPath),
+               columns = library.getStore().getDatabase().pragma('table_info(chunks)') as Array<{ name: string }>;
+
+         expect(columns.map((c) => { return c.name; })).toContain('parent_id');
+         expect(library.getStore().getChunkParents([ chunkId ]).size).toBe(0);
+
+         await library.close();
+      });
+
       it('refuses migration in read-only mode', async () => {
          // Create a library with an old schema version
          const store = new VectorStore(libraryPath);
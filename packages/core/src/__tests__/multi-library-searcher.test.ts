@@ -0,0 +1,314 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MultiLibrarySearcher, openSearchableLibraries } from '../multi-library-searcher.js';
+import { VectorStore } from '../store.js';
+import { Embedder } from '../embedder.js';
+import type { Chunk } from '../chunker.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+// Mock the transformers module
+vi.mock('@huggingface/transformers', () => {
+   const mockPipeline = vi.fn().mockImplementation(async (texts: string | string[]) => {
+      const textsArray = Array.isArray(texts) ? texts : [ texts ],
+            embeddingDim = 384;
+
+      // Generate deterministic mock embeddings based on text content
+      const data = new Float32Array(textsArray.length * embeddingDim);
+
+      for (let i = 0; i < textsArray.length; i++) {
+         const text = textsArray[i],
+               baseValue = (text.charCodeAt(0) % 100) / 100;
+
+         for (let j = 0; j < embeddingDim; j++) {
+            data[i * embeddingDim + j] = baseValue + (j % 10) / 100;
+         }
+      }
+
+      return { data };
+   });
+
+   return {
+      pipeline: vi.fn().mockResolvedValue(mockPipeline),
+      env: {
+         cacheDir: undefined as string | undefined,
+         allowLocalModels: true,
+         backends: {
+            onnx: {
+               wasm: {
+                  numThreads: 1,
+               },
+            },
+         },
+      },
+   };
+});
+
+describe('MultiLibrarySearcher', () => {
+   let embedder: Embedder,
+       tempDir: string,
+       stores: VectorStore[];
+
+   beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'multi-searcher-test-'));
+      embedder = new Embedder();
+      stores = [];
+   });
+
+   afterEach(async () => {
+      for (const store of stores) {
+         store.close();
+      }
+      await embedder.dispose();
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   function createMockChunk(content: string, file: string): Chunk {
+      return {
+         content,
+         metadata: {
+            sourceFile: file,
+            startLine: 1,
+            endLine: 5,
+            language: 'js',
+         },
+      };
+   }
+
+   async function createLibrary(
+      name: string,
+      contents: string[],
+      embedding: Record<string, unknown> = { model: 'Xenova/bge-small-en-v1.5', dimensions: 384 }
+   ): Promise<{ name: string; store: VectorStore }> {
+      const store = new VectorStore(path.join(tempDir, `${name}.libragen`));
+
+      store.initialize();
+      stores.push(store);
+
+      const chunks = contents.map((content, i) => {
+         return createMockChunk(content, `${name}-${i}.js`);
+      });
+
+      store.addChunks(chunks, await embedder.embedBatch(contents));
+      store.setMetadata({ name, embedding });
+
+      return { name, store };
+   }
+
+   it('attributes results to their library and fuses their normalized scores', async () => {
+      const searcher = new MultiLibrarySearcher([
+         await createLibrary('alpha', [ 'hello from alpha', 'goodbye from alpha' ]),
+         await createLibrary('beta', [ 'hello from beta', 'goodbye from beta' ]),
+      ], { embedder });
+
+      const { results, failures } = await searcher.search({ query: 'hello', k: 4 });
+
+      expect(failures).toEqual([]);
+      expect(results.map((r) => { return r.library; })).toEqual([ 'alpha', 'beta', 'alpha', 'beta' ]);
+      expect(results.map((r) => { return r.score; })).toEqual([ 1, 1, 0, 0 ]);
+      expect(results[0].libraryScore).toBeGreaterThan(results[2].libraryScore);
+   });
+
+   it('limits fused results to k', async () => {
+      const searcher = new MultiLibrarySearcher([
+         await createLibrary('alpha', [ 'hello one', 'hello two', 'hello three' ]),
+         await createLibrary('beta', [ 'hello four', 'hello five' ]),
+      ], { embedder });
+
+      const { results } = await searcher.search({ query: 'hello', k: 3 });
+
+      expect(results).toHaveLength(3);
+   });
+
+   it('scores the results of a single library like those of several', async () => {
+      const searcher = new MultiLibrarySearcher([
+         await createLibrary('alpha', [ 'hello from alpha', 'goodbye from alpha' ]),
+      ], { embedder });
+
+      const { results } = await searcher.search({ query: 'hello', k: 2 });
+
+      expect(results.map((r) => { return r.score; })).toEqual([ 1, 0 ]);
+      expect(results[0].libraryScore).toBeGreaterThan(results[1].libraryScore);
+   });
+
+   it('embeds the query once per embedding model', async () => {
+      const searcher = new MultiLibrarySearcher([
+         await createLibrary('alpha', [ 'hello from alpha' ]),
+         await createLibrary('beta', [ 'hello from beta' ]),
+      ], { embedder });
+
+      const embedSpy = vi.spyOn(embedder, 'embed');
+
+      await searcher.search({ query: 'hello' });
+
+      expect(embedSpy).toHaveBeenCalledTimes(1);
+   });
+
+   it('reports libraries that cannot be searched and searches the rest', async () => {
+      const searcher = new MultiLibrarySearcher([
+         await createLibrary('alpha', [ 'hello from alpha' ]),
+         await createLibrary('remote', [ 'hello from remote' ], { model: 'm', dimensions: 384, provider: 'http' }),
+      ], { embedder });
+
+      const { results, failures } = await searcher.search({ query: 'hello' });
+
+      expect(results.map((r) => { return r.library; })).toEqual([ 'alpha' ]);
+      expect(failures).toHaveLength(1);
+      expect(failures[0].library).toBe('remote');
+   });
+
+   it('searches by keyword without embedding the query or creating embedders', async () => {
+      const searcher = new MultiLibrarySearcher([
+         await createLibrary('alpha', [ 'hello from alpha' ]),
+         await createLibrary('remote', [ 'hello from remote' ], { model: 'm', dimensions: 384, provider: 'http' }),
+      ], { embedder });
+
+      const embedSpy = vi.spyOn(embedder, 'embed');
+
+      const { results, failures } = await searcher.search({ query: 'hello', hybridAlpha: 0 });
+
+      expect(failures).toEqual([]);
+      expect(results.map((r) => { return r.library; }).sort()).toEqual([ 'alpha', 'remote' ]);
+      expect(embedSpy).not.toHaveBeenCalled();
+   });
+
+   it('creates and disposes embedders for other models', async () => {
+      const searcher = new MultiLibrarySearcher([
+         await createLibrary('alpha', [ 'hello from alpha' ], { model: 'Xenova/all-MiniLM-L6-v2', dimensions: 384 }),
+      ], { embedder });
+
+      const embedSpy = vi.spyOn(embedder, 'embed'),
+            disposeSpy = vi.spyOn(Embedder.prototype, 'dispose');
+
+      const { results } = await searcher.search({ query: 'hello' });
+
+      expect(results).toHaveLength(1);
+      expect(embedSpy).not.toHaveBeenCalled();
+
+      await searcher.dispose();
+
+      expect(disposeSpy).toHaveBeenCalledTimes(1);
+   });
+
+   it('packs results into a token budget counted by each library\'s embedder', async () => {
+      const searcher = new MultiLibrarySearcher([
+         await createLibrary('alpha', [ 'hello from alpha' ]),
+         await createLibrary('beta', [ 'hello from beta' ]),
+      ], { embedder });
+
+      const countSpy = vi.spyOn(embedder, 'countTokens').mockImplementation(async (text) => {
+         return text.split(' ').length;
+      });
+
+      const { excerpts, tokensUsed, omitted, failures } = await searcher.searchWithinBudget({ query: 'hello', maxTokens: 3 });
+
+      expect(failures).toEqual([]);
+      expect(excerpts).toHaveLength(1);
+      expect(excerpts[0]).toMatchObject({ library: 'alpha', sourceFile: 'alpha-0.js', tokens: 3 });
+      expect(tokensUsed).toBe(3);
+      expect(omitted).toBe(1);
+      expect(countSpy).toHaveBeenCalledWith('hello from alpha');
+   });
+
+   it('counts tokens with the embedder of the library a result came from', async () => {
+      const otherModel = { model: 'Xenova/all-MiniLM-L6-v2', dimensions: 384 };
+
+      // Libraries with the same name, built with different models
+      const searcher = new MultiLibrarySearcher([
+         { ...await createLibrary('first', [ 'hello from first' ]), name: 'docs' },
+         { ...await createLibrary('second', [ 'hello from second' ], otherModel), name: 'docs' },
+      ], { embedder });
+
+      // The shared embedder counts words, the other model's embedder characters
+      const countSpy = vi.spyOn(Embedder.prototype, 'countTokens').mockImplementation(async function countTokens(
+         this: Embedder,
+         text: string
+      ) {
+         return this === embedder ? text.split(' ').length : text.length;
+      });
+
+      const { excerpts } = await searcher.searchWithinBudget({ query: 'hello', maxTokens: 100 });
+
+      countSpy.mockRestore();
+
+      expect(excerpts.map((e) => { return [ e.sourceFile, e.tokens ]; }).sort()).toEqual([
+         [ 'first-0.js', 3 ],
+         [ 'second-0.js', 17 ],
+      ]);
+   });
+
+   it('returns nothing for an empty query', async () => {
+      const searcher = new MultiLibrarySearcher([
+         await createLibrary('alpha', [ 'hello from alpha' ]),
+      ], { embedder });
+
+      expect((await searcher.search({ query: '  ' })).results).toEqual([]);
+   });
+});
+
+describe('openSearchableLibraries', () => {
+   let tempDir: string;
+
+   beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'open-searchable-test-'));
+   });
+
+   afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   function createV1Library(libraryPath: string): void {
+      const store = new VectorStore(libraryPath);
+
+      store.initialize();
+      store.addChunks(
+         [ { content: 'hello', metadata: { sourceFile: 'a.md', startLine: 1, endLine: 1 } } ],
+         [ new Float32Array(384).fill(0.1) ]
+      );
+
+      // Remove the vector index, as in libraries built before schema v2
+      store.getDatabase().exec(`
+         DROP TRIGGER chunks_vec_ai;
+         DROP TRIGGER chunks_vec_ad;
+         DROP TRIGGER chunks_vec_au;
+         DROP TABLE chunks_vec;
+      `);
+      store.setMeta('schema_version', '1');
+      store.setMetadata({ name: 'old', embedding: { model: 'Xenova/bge-small-en-v1.5', dimensions: 384 } });
+      store.close();
+   }
+
+   it('migrates libraries that predate the vector index', async () => {
+      const libraryPath = path.join(tempDir, 'old.libragen');
+
+      createV1Library(libraryPath);
+
+      const [ library ] = await openSearchableLibraries([ { name: 'old', path: libraryPath } ]);
+
+      try {
+         const indexed = library.store.getDatabase().prepare('SELECT COUNT(*) AS count FROM chunks_vec').get();
+
+         expect(indexed).toEqual({ count: 1 });
+      } finally {
+         library.store.close();
+      }
+   });
+
+   it('closes the libraries it opened when another fails to open', async () => {
+      const libraryPath = path.join(tempDir, 'old.libragen'),
+            closeSpy = vi.spyOn(VectorStore.prototype, 'close');
+
+      createV1Library(libraryPath);
+      closeSpy.mockClear();
+
+      const opening = openSearchableLibraries([
+         { name: 'old', path: libraryPath },
+         { name: 'missing', path: path.join(tempDir, 'missing.libragen') },
+      ]);
+
+      await expect(opening).rejects.toThrow('Library file not found');
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+
+      closeSpy.mockRestore();
+   });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Worker } from 'worker_threads';
+import { ParallelEmbedder } from '../parallel-embedder.js';
+import type { EmbeddingWorkerFactory } from '../parallel-embedder.js';
+
+/**
+ * Stub embedding worker. Embeds each text as its length, answers after `delayMs` so that
+ * workers can be made to answer out of order, crashes on the text "crash", and exits on
+ * the text "exit". Fails to start if `failStart` is set.
+ */
+const STUB_WORKER = `
+   const { parentPort, workerData } = require('worker_threads');
+
+   if (workerData.failStart) {
+      throw new Error('Model failed to load');
+   }
+
+   parentPort.on('message', ({ id, texts }) => {
+      if (texts.includes('crash')) {
+         throw new Error('Stub worker crashed');
+      }
+
+      if (texts.includes('exit')) {
+         process.exit(1);
+      }
+
+      setTimeout(() => {
+         const embeddings = texts.map((text) => { return new Float32Array([ text.length ]); });
+
+         parentPort.postMessage({ id, embeddings });
+      }, workerData.delayMs);
+   });
+`;
+
+describe('ParallelEmbedder', () => {
+   let embedder: ParallelEmbedder | undefined,
+       started: Worker[];
+
+   afterEach(async () => {
+      await embedder?.dispose();
+      embedder = undefined;
+   });
+
+   // Later workers answer sooner, so results come back in the reverse order of the shards
+   function createEmbedder(workers: number, failingWorker?: number): ParallelEmbedder {
+      started = [];
+
+      const createWorker: EmbeddingWorkerFactory = () => {
+         const workerData = {
+            delayMs: (workers - (started.length % workers)) * 50,
+            failStart: started.length % workers === failingWorker,
+         };
+
+         const worker = new Worker(STUB_WORKER, { eval: true, workerData });
+
+         started.push(worker);
+
+         return worker;
+      };
+
+      embedder = new ParallelEmbedder({ workers }, createWorker);
+
+      return embedder;
+   }
+
+   function lengthsOf(embeddings: Float32Array[]): number[] {
+      return embeddings.map((embedding) => { return embedding[0]; });
+   }
+
+   it('returns embeddings of batches sharded between workers in input order', async () => {
+      const texts = [ 'a', 'bb', 'ccc', 'dddd', 'eeeee', 'ffffff', 'ggggggg' ],
+            parallel = createEmbedder(3);
+
+      const embeddings = await parallel.embedBatch(texts);
+
+      expect(started).toHaveLength(3);
+      expect(lengthsOf(embeddings)).toEqual([ 1, 2, 3, 4, 5, 6, 7 ]);
+   });
+
+   it('reports progress as each worker finishes its share', async () => {
+      const parallel = createEmbedder(2),
+            processed: number[] = [];
+
+      await parallel.embedBatch([ 'a', 'bb', 'ccc' ], (progress) => {
+         processed.push(progress.processed);
+      });
+
+      expect(processed).toEqual([ 1, 3 ]);
+   });
+
+   it('rejects the call when a worker fails', async () => {
+      const parallel = createEmbedder(2);
+
+      await expect(parallel.embedBatch([ 'a', 'crash' ])).rejects.toThrow('Stub worker crashed');
+   });
+
+   it('fails later calls once a worker has exited', async () => {
+      const parallel = createEmbedder(2);
+
+      await expect(parallel.embedBatch([ 'a', 'exit' ])).rejects.toThrow('Embedding worker exited with code 1');
+      await expect(parallel.embedBatch([ 'a', 'bb' ])).rejects.toThrow('Embedding worker exited with code 1');
+   });
+
+   it('stops the other workers when one fails to start, and starts them again', async () => {
+      const parallel = createEmbedder(3, 1);
+
+      await expect(parallel.initialize()).rejects.toThrow('Model failed to load');
+      expect(started.map((worker) => { return worker.threadId; })).toEqual([ -1, -1, -1 ]);
+
+      await expect(parallel.initialize()).rejects.toThrow('Model failed to load');
+      expect(started).toHaveLength(6);
+   });
+
+   it('terminates its workers when disposed', async () => {
+      const parallel = createEmbedder(2);
+
+      await parallel.initialize();
+
+      const exits = started.map((worker) => {
+         return new Promise((resolve) => { worker.once('exit', resolve); });
+      });
+
+      await parallel.dispose();
+
+      expect(await Promise.all(exits)).toHaveLength(2);
+      expect(started.map((worker) => { return worker.threadId; })).toEqual([ -1, -1 ]);
+   });
+});
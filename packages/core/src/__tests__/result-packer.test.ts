@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { packResults, estimateTokens } from '../result-packer.js';
+import type { PackableResult } from '../result-packer.js';
+import type { StoredChunk } from '../store.js';
+
+function lines(from: number, to: number): string {
+   const numbered = Array.from({ length: to - from + 1 }, (_, i) => {
+      return `line ${from + i}`;
+   });
+
+   return numbered.join('\n');
+}
+
+function createChunk(id: number, startLine: number, endLine: number, file: string = 'guide.md'): StoredChunk {
+   return { id, content: lines(startLine, endLine), sourceFile: file, sourceType: 'file', startLine, endLine };
+}
+
+function createResult(
+   chunk: StoredChunk,
+   score: number,
+   context: Pick<PackableResult, 'contextBefore' | 'contextAfter'> = {}
+): PackableResult {
+   return { ...chunk, score, ...context };
+}
+
+// Counts one token per line, to keep budgets easy to follow
+async function countLines(text: string): Promise<number> {
+   return text.split('\n').length;
+}
+
+describe('packResults', () => {
+   it('merges results whose lines overlap or adjoin into one excerpt', async () => {
+      const first = createChunk(1, 1, 10),
+            second = createChunk(2, 8, 15),
+            third = createChunk(3, 16, 20);
+
+      const { excerpts, tokensUsed } = await packResults(
+         [ createResult(first, 0.9), createResult(third, 0.8), createResult(second, 0.7) ],
+         { maxTokens: 100, countTokens: countLines }
+      );
+
+      expect(excerpts).toHaveLength(1);
+      expect(excerpts[0]).toMatchObject({
+         sourceFile: 'guide.md',
+         startLine: 1,
+         endLine: 20,
+         content: lines(1, 20),
+         score: 0.9,
+         chunkIds: [ 1, 3, 2 ],
+         tokens: 20,
+      });
+      expect(tokensUsed).toBe(20);
+   });
+
+   it('includes context shared by several results once', async () => {
+      const shared = createChunk(2, 11, 20);
+
+      const { excerpts, tokensUsed } = await packResults(
+         [
+            createResult(createChunk(1, 1, 10), 0.9, { contextAfter: [ shared ] }),
+            createResult(createChunk(3, 21, 30), 0.8, { contextBefore: [ shared ] }),
+         ],
+         { maxTokens: 100, countTokens: countLines }
+      );
+
+      expect(excerpts).toHaveLength(1);
+      expect(excerpts[0].content).toBe(lines(1, 30));
+      expect(tokensUsed).toBe(30);
+   });
+
+   it('keeps results from different files apart, best first', async () => {
+      const { excerpts } = await packResults(
+         [ createResult(createChunk(1, 1, 5, 'b.md'), 0.9), createResult(createChunk(2, 1, 5, 'a.md'), 0.8) ],
+         { maxTokens: 100, countTokens: countLines }
+      );
+
+      expect(excerpts.map((e) => { return e.sourceFile; })).toEqual([ 'b.md', 'a.md' ]);
+   });
+
+   it('drops context that does not fit, then results whose match does not fit', async () => {
+      const { excerpts, tokensUsed, omitted } = await packResults(
+         [
+            createResult(createChunk(1, 1, 10, 'a.md'), 0.9, { contextAfter: [ createChunk(2, 11, 20, 'a.md') ] }),
+            createResult(createChunk(3, 1, 10, 'b.md'), 0.8),
+            createResult(createChunk(4, 1, 3, 'c.md'), 0.7),
+         ],
+         { maxTokens: 15, countTokens: countLines }
+      );
+
+      expect(excerpts.map((e) => { return [ e.sourceFile, e.endLine ]; })).toEqual([ [ 'a.md', 10 ], [ 'c.md', 3 ] ]);
+      expect(tokensUsed).toBe(13);
+      expect(omitted).toBe(1);
+   });
+
+   it('keeps the provenance of the excerpt\'s document', async () => {
+      const source = { id: 1, type: 'git', uri: 'https://github.com/a/b', path: 'guide.md', ref: 'abc123' };
+
+      const { excerpts } = await packResults(
+         [ { ...createResult(createChunk(1, 1, 10), 0.9), source }, createResult(createChunk(2, 11, 20), 0.8) ],
+         { maxTokens: 100, countTokens: countLines }
+      );
+
+      expect(excerpts).toHaveLength(1);
+      expect(excerpts[0].source).toEqual(source);
+   });
+
+   it('estimates tokens from the text length without a counter', async () => {
+      const { tokensUsed } = await packResults([ createResult(createChunk(1, 1, 1), 1) ], { maxTokens: 100 });
+
+      expect(tokensUsed).toBe(estimateTokens('line 1'));
+      expect(estimateTokens('12345678')).toBe(2);
+   });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { SearchServer } from '../search-server.js';
+import type { SearchServerConfig } from '../search-server.js';
+import { LibraryManager } from '../manager.js';
+import { Library } from '../library.js';
+import { Embedder } from '../embedder.js';
+
+// Mock the transformers module
+vi.mock('@huggingface/transformers', () => {
+   const mockPipeline = vi.fn().mockImplementation(async (texts: string | string[]) => {
+      const textsArray = Array.isArray(texts) ? texts : [ texts ],
+            embeddingDim = 384;
+
+      // Generate deterministic mock embeddings based on text content
+      const data = new Float32Array(textsArray.length * embeddingDim);
+
+      for (let i = 0; i < textsArray.length; i++) {
+         const text = textsArray[i],
+               baseValue = (text.charCodeAt(0) % 100) / 100;
+
+         for (let j = 0; j < embeddingDim; j++) {
+            data[i * embeddingDim + j] = baseValue + (j % 10) / 100;
+         }
+      }
+
+      return { data };
+   });
+
+   return {
+      pipeline: vi.fn().mockResolvedValue(mockPipeline),
+      env: {
+         cacheDir: undefined as string | undefined,
+         allowLocalModels: true,
+         backends: {
+            onnx: {
+               wasm: {
+                  numThreads: 1,
+               },
+            },
+         },
+      },
+   };
+});
+
+describe('SearchServer', () => {
+   let tempDir: string,
+       embedder: Embedder,
+       server: SearchServer | undefined,
+       baseUrl: string;
+
+   beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'libragen-search-server-test-'));
+      embedder = new Embedder();
+
+      await createTestLibrary('alpha', [ 'hello from alpha', 'goodbye from alpha' ]);
+      await createTestLibrary('beta', [ 'hello from beta' ]);
+   });
+
+   afterEach(async () => {
+      await server?.close();
+      server = undefined;
+      await embedder.dispose();
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   async function createTestLibrary(name: string, contents: string[]): Promise<void> {
+      const lib = await Library.create(path.join(tempDir, `${name}.libragen`), {
+         name,
+         description: `Test library: ${name}`,
+         version: '1.0.0',
+      });
+
+      const chunks = contents.map((content, i) => {
+         return { content, metadata: { sourceFile: `${name}-${i}.md`, startLine: 1, endLine: 1 } };
+      });
+
+      lib.addChunks(chunks, await embedder.embedBatch(contents));
+      await lib.finalize();
+      await lib.close();
+   }
+
+   async function startServer(config: SearchServerConfig = {}): Promise<void> {
+      server = new SearchServer({
+         manager: new LibraryManager({ paths: [ tempDir ] }),
+         embedder,
+         ...config,
+      });
+
+      const address = await server.listen(0);
+
+      baseUrl = `http://127.0.0.1:${address.port}`;
+   }
+
+   function search(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+      return fetch(`${baseUrl}/search`, {
+         method: 'POST',
+         headers: { 'Content-Type': 'application/json', ...headers },
+         body: JSON.stringify(body),
+      });
+   }
+
+   it('lists installed libraries', async () => {
+      await startServer();
+
+      const response = await fetch(`${baseUrl}/libraries`),
+            body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.libraries.map((l: { name: string }) => { return l.name; })).toEqual([ 'alpha', 'beta' ]);
+      expect(body.libraries[0].description).toBe('Test library: alpha');
+   });
+
+   it('returns a library\'s metadata', async () => {
+      await startServer();
+
+      const response = await fetch(`${baseUrl}/libraries/alpha`),
+            body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.metadata.name).toBe('alpha');
+      expect(body.metadata.version).toBe('1.0.0');
+   });
+
+   it('returns 404 for unknown libraries and routes', async () => {
+      await startServer();
+
+      expect((await fetch(`${baseUrl}/libraries/missing`)).status).toBe(404);
+      expect((await fetch(`${baseUrl}/nothing-here`)).status).toBe(404);
+      expect((await search({ query: 'hello', libraries: [ 'missing' ] })).status).toBe(404);
+   });
+
+   it('searches all libraries by default', async () => {
+      await startServer();
+
+      const response = await search({ query: 'hello', k: 5 }),
+            body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.failures).toEqual([]);
+      expect(new Set(body.results.map((r: { library: string }) => { return r.library; })))
+         .toEqual(new Set([ 'alpha', 'beta' ]));
+   });
+
+   it('searches only the requested libraries', async () => {
+      await startServer();
+
+      const body = await (await search({ query: 'hello', libraries: [ 'beta' ] })).json();
+
+      expect(body.results).toHaveLength(1);
+      expect(body.results[0].library).toBe('beta');
+      expect(body.results[0].content).toBe('hello from beta');
+   });
+
+   it('returns chunks by id', async () => {
+      await startServer();
+
+      const response = await fetch(`${baseUrl}/chunks/1?library=alpha`),
+            body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.chunk.content).toBe('hello from alpha');
+      expect((await fetch(`${baseUrl}/chunks/1`)).status).toBe(400);
+      expect((await fetch(`${baseUrl}/chunks/999?library=alpha`)).status).toBe(404);
+   });
+
+   it('validates search requests', async () => {
+      await startServer({ maxK: 10, maxQueryLength: 20 });
+
+      expect((await search({})).status).toBe(400);
+      expect((await search({ query: 'hello', k: 11 })).status).toBe(400);
+      expect((await search({ query: 'x'.repeat(21) })).status).toBe(400);
+      expect((await search({ query: 'hello', fusion: 'max' })).status).toBe(400);
+      expect((await search({ query: 'hello', languages: 'js' })).status).toBe(400);
+      expect((await search({ query: 'hello', rerank: true })).status).toBe(400);
+      expect((await search({ query: 'hello', advancedQuery: 'yes' })).status).toBe(400);
+      expect((await search({ query: 'hello AND', advancedQuery: true })).status).toBe(400);
+   });
+
+   it('rejects oversized request bodies', async () => {
+      await startServer({ maxBodyBytes: 100 });
+
+      const response = await search({ query: 'hello', sourceFile: 'x'.repeat(200) });
+
+      expect(response.status).toBe(413);
+   });
+
+   it('rejects requests with the wrong method', async () => {
+      await startServer();
+
+      expect((await fetch(`${baseUrl}/search`)).status).toBe(405);
+   });
+
+   it('requires the bearer token when configured', async () => {
+      await startServer({ authToken: 'secret' });
+
+      const unauthorized = await fetch(`${baseUrl}/libraries`);
+
+      expect(unauthorized.status).toBe(401);
+      expect(unauthorized.headers.get('www-authenticate')).toBe('Bearer');
+      expect((await fetch(`${baseUrl}/libraries`, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+      expect((await fetch(`${baseUrl}/libraries`, { headers: { Authorization: 'Bearer secret' } })).status).toBe(200);
+   });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Searcher } from '../searcher.js';
 import { VectorStore } from '../store.js';
-import { Embedder } from '../embedder.js';
+import { Embedder, EmbeddingModelMismatchError } from '../embedder.js';
 import type { Chunk } from '../chunker.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -209,6 +209,132 @@ describe('Searcher', () => {
          expect(results.length).toBe(1);
          expect(results[0].contentVersion).toBe('1.0.0');
       });
+
+      it('searches the newest content version of libraries that hold several', async () => {
+         const chunk1 = createMockChunk('function v1()'),
+               chunk2 = createMockChunk('function v2()');
+
+         store.addChunk(chunk1, await embedder.embed(chunk1.content), { contentVersion: '9.0.0' });
+         store.addChunk(chunk2, await embedder.embed(chunk2.content), { contentVersion: '10.0.0' });
+         store.setMetadata({ name: 'test', contentVersions: [ '10.0.0', '9.0.0' ] });
+
+         const newest = await searcher.search({ query: 'function' }),
+               older = await searcher.search({ query: 'function', contentVersion: '9.0.0' });
+
+         expect(newest.map((r) => { return r.contentVersion; })).toEqual([ '10.0.0' ]);
+         expect(older.map((r) => { return r.contentVersion; })).toEqual([ '9.0.0' ]);
+         expect(searcher.keywordSearch('function').map((r) => { return r.contentVersion; })).toEqual([ '10.0.0' ]);
+      });
+
+      it('returns the parent of matched child chunks once when returnParents is set', async () => {
+         const parent = createMockChunk('function setup() {}\nfunction teardown() {}', 'hooks.js'),
+               first = { ...createMockChunk('function setup() {}', 'hooks.js'), parent },
+               second = { ...createMockChunk('function teardown() {}', 'hooks.js'), parent };
+
+         second.metadata = { ...second.metadata, startLine: 2, endLine: 2 };
+
+         store.addChunks([ first, second ], await embedder.embedBatch([ first.content, second.content ]));
+
+         const children = await searcher.search({ query: 'function' }),
+               parents = await searcher.search({ query: 'function', returnParents: true });
+
+         expect(children).toHaveLength(2);
+         expect(children[0].parentId).toBeUndefined();
+         expect(parents).toHaveLength(1);
+         expect(parents[0]).toMatchObject({ content: parent.content, startLine: 1, endLine: 5 });
+         expect(parents[0].parentId).toBeDefined();
+      });
+   });
+
+   describe('embedding model compatibility', () => {
+      function setEmbeddingMetadata(model: string, dimensions: number): void {
+         store.setMetadata({ name: 'test', embedding: { model, dimensions } });
+      }
+
+      it('searches libraries built with the same model', async () => {
+         await addTestChunks();
+         setEmbeddingMetadata('Xenova/bge-small-en-v1.5', 384);
+
+         const results = await searcher.search({ query: 'hello' });
+
+         expect(results.length).toBeGreaterThan(0);
+      });
+
+      it('rejects libraries built with a different model', async () => {
+         await addTestChunks();
+         setEmbeddingMetadata('text-embedding-3-small', 384);
+
+         await expect(searcher.search({ query: 'hello' }))
+            .rejects
+            .toThrow(EmbeddingModelMismatchError);
+      });
+
+      it('searches libraries built with a different model by keyword only', async () => {
+         await addTestChunks();
+         setEmbeddingMetadata('text-embedding-3-small', 1536);
+
+         const results = await searcher.search({ query: 'hello', hybridAlpha: 0 });
+
+         expect(results.length).toBeGreaterThan(0);
+      });
+
+      it('searches by keyword without embedding the query', async () => {
+         await addTestChunks();
+
+         const embedSpy = vi.spyOn(embedder, 'embed'),
+               withoutEmbedder = new Searcher(null, store);
+
+         expect((await searcher.search({ query: 'hello', hybridAlpha: 0 })).length).toBeGreaterThan(0);
+         expect((await withoutEmbedder.search({ query: 'hello', hybridAlpha: 0 })).length).toBeGreaterThan(0);
+         expect(embedSpy).not.toHaveBeenCalled();
+         await expect(withoutEmbedder.search({ query: 'hello' })).rejects.toThrow('can only search by keyword');
+      });
+
+      it('rejects query embeddings with different dimensions', async () => {
+         await addTestChunks();
+         setEmbeddingMetadata('Xenova/bge-small-en-v1.5', 384);
+
+         await expect(searcher.search({ query: 'hello', queryEmbedding: new Float32Array(768) }))
+            .rejects
+            .toThrow('768 dimensions');
+      });
+
+      it('uses a precomputed query embedding without embedding again', async () => {
+         await addTestChunks();
+
+         const queryEmbedding = await embedder.embed('hello'),
+               embedSpy = vi.spyOn(embedder, 'embed');
+
+         const results = await searcher.search({ query: 'hello', queryEmbedding });
+
+         expect(results.length).toBeGreaterThan(0);
+         expect(embedSpy).not.toHaveBeenCalled();
+      });
+
+      it('applies the query prefix of the library\'s prefix profile', async () => {
+         await addTestChunks();
+         store.setMetadata({
+            name: 'test',
+            embedding: { model: 'Xenova/bge-small-en-v1.5', dimensions: 384, prefixProfile: 'bge' },
+         });
+
+         const embedSpy = vi.spyOn(embedder, 'embed');
+
+         await searcher.search({ query: 'hello' });
+
+         expect(embedSpy).toHaveBeenCalledWith('Represent this sentence for searching relevant passages: hello');
+      });
+
+      it('embeds queries without a prefix for libraries that don\'t record a profile', async () => {
+         await addTestChunks();
+         setEmbeddingMetadata('Xenova/bge-small-en-v1.5', 384);
+
+         const embedSpy = vi.spyOn(embedder, 'embed');
+
+         await searcher.search({ query: 'hello' });
+
+         expect(embedSpy).toHaveBeenCalledWith('hello');
+      });
    });
 
    describe('vectorSearch', () => {
@@ -393,4 +519,54 @@ describe('Searcher', () => {
          expect(results[0].score).toBe(99.5);
       });
    });
+
+   describe('diversity', () => {
+      function createEmbedding(values: Record<number, number>): Float32Array {
+         const embedding = new Float32Array(384);
+
+         for (const [ index, value ] of Object.entries(values)) {
+            embedding[Number(index)] = value;
+         }
+
+         return embedding;
+      }
+
+      const query = { query: 'hooks', queryEmbedding: createEmbedding({ 0: 1 }), hybridAlpha: 1, k: 2 };
+
+      beforeEach(() => {
+         const first = createMockChunk('first', 'a.md'),
+               duplicate = createMockChunk('near duplicate of first', 'a.md'),
+               other = createMockChunk('other', 'b.md'),
+               unrelated = createMockChunk('unrelated', 'c.md');
+
+         duplicate.metadata = { ...duplicate.metadata, startLine: 10, endLine: 15 };
+
+         store.addChunks([ first, duplicate, other, unrelated ], [
+            createEmbedding({ 0: 1, 1: 1 }),
+            createEmbedding({ 0: 1, 1: 1, 2: 0.1 }),
+            createEmbedding({ 0: 1, 3: 1.05 }),
+            createEmbedding({ 5: 1 }),
+         ]);
+      });
+
+      it('favors results unlike those above them with mmrLambda', async () => {
+         const relevant = await searcher.search(query),
+               diverse = await searcher.search({ ...query, mmrLambda: 0.5 }),
+               relevanceOnly = await searcher.search({ ...query, mmrLambda: 1 });
+
+         expect(relevant.map((r) => { return r.content; })).toEqual([ 'first', 'near duplicate of first' ]);
+         expect(diverse.map((r) => { return r.content; })).toEqual([ 'first', 'other' ]);
+         expect(relevanceOnly).toEqual(relevant);
+      });
+
+      it('caps the results from one source file with maxPerFile', async () => {
+         const results = await searcher.search({ ...query, k: 3, maxPerFile: 1 });
+
+         expect(results.map((r) => { return r.sourceFile; })).toEqual([ 'a.md', 'b.md', 'c.md' ]);
+      });
+
+      it('rejects lambdas outside 0-1', async () => {
+         await expect(searcher.search({ ...query, mmrLambda: 1.5 })).rejects.toThrow('mmrLambda must be between 0 and 1');
+      });
+   });
 });
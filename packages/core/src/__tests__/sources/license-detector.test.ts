@@ -186,6 +186,21 @@ describe('LicenseDetector', () => {
       });
    });
 
+   describe('detectFromFileHeader', () => {
+      it('reads the SPDX identifier from a header comment', () => {
+         expect(detector.detectFromFileHeader('// SPDX-License-Identifier: MIT\nexport {};')).toBe('MIT');
+         expect(detector.detectFromFileHeader('/* SPDX-License-Identifier: Apache-2.0 OR MIT */')).toBe('Apache-2.0 OR MIT');
+         expect(detector.detectFromFileHeader('<!-- SPDX-License-Identifier: CC-BY-4.0 -->\n# Docs')).toBe('CC-BY-4.0');
+      });
+
+      it('ignores identifiers below the header', () => {
+         const content = `${'line\n'.repeat(30)}// SPDX-License-Identifier: MIT`;
+
+         expect(detector.detectFromFileHeader(content)).toBeNull();
+         expect(detector.detectFromFileHeader('# No license header')).toBeNull();
+      });
+   });
+
    describe('detectFromDirectory', () => {
       it('finds and parses LICENSE file', async () => {
          await fs.writeFile(path.join(tempDir, 'LICENSE'), MIT_LICENSE);
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { VectorStore } from '../store.js';
+import { KeywordQuerySyntaxError } from '../keyword-query.js';
+import type { SearchFilter, SearchResult } from '../store.js';
 import type { Chunk } from '../chunker.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -130,6 +132,22 @@ describe('VectorStore', () => {
          expect(stored?.language).toBe('js');
       });
 
+      it('stores the section breadcrumb and frontmatter of document chunks', () => {
+         store.initialize();
+
+         const chunk = createMockChunk('Return a cleanup function.', 'docs/hooks.md');
+
+         chunk.metadata.breadcrumb = 'Hooks > useEffect > Cleanup';
+         chunk.metadata.frontmatter = { title: 'Hooks', sidebar: 2 };
+
+         const [ id ] = store.addChunks([ chunk ], [ createMockEmbedding() ]);
+
+         expect(store.getChunk(id)?.metadata).toEqual({
+            breadcrumb: 'Hooks > useEffect > Cleanup',
+            frontmatter: { title: 'Hooks', sidebar: 2 },
+         });
+      });
+
       it('throws if not initialized', () => {
          const chunk = createMockChunk('test'),
                embedding = createMockEmbedding();
@@ -235,6 +253,91 @@ describe('VectorStore', () => {
          expect(results.length).toBe(1);
          expect(results[0].content).toBe('v1 chunk');
       });
+
+      it('filters by content version range and "latest"', () => {
+         store.initialize();
+
+         for (const version of [ '17.0.2', '18.2.0', '18.3.1', '19.0.0' ]) {
+            store.addChunk(createMockChunk(`react ${version}`), createMockEmbedding(), { contentVersion: version });
+         }
+
+         const contentOf = (results: Array<{ content: string }>): string[] => {
+            return results.map((r) => { return r.content; }).sort();
+         };
+
+         expect(contentOf(store.vectorSearch(createMockEmbedding(), 10, { contentVersion: '^18' })))
+            .toEqual([ 'react 18.2.0', 'react 18.3.1' ]);
+         expect(contentOf(store.keywordSearch('react', 10, { contentVersion: '>=18.3 <20' })))
+            .toEqual([ 'react 18.3.1', 'react 19.0.0' ]);
+         expect(contentOf(store.vectorSearch(createMockEmbedding(), 10, { contentVersion: 'latest' })))
+            .toEqual([ 'react 19.0.0' ]);
+         expect(store.vectorSearch(createMockEmbedding(), 10, { contentVersion: '^20' })).toEqual([]);
+      });
+   });
+
+   describe('vector index', () => {
+      it('keeps chunks_vec in sync with the chunks table', () => {
+         store.initialize();
+
+         const ids = store.addChunks(
+            [ createMockChunk('a'), createMockChunk('b'), createMockChunk('c') ],
+            [ createMockEmbedding(), createMockEmbedding(), createMockEmbedding() ]
+         );
+
+         const db = store.getDatabase();
+
+         const countIndexed = (): number => {
+            return (db.prepare('SELECT COUNT(*) AS count FROM chunks_vec').get() as { count: number }).count;
+         };
+
+         expect(countIndexed()).toBe(3);
+
+         db.prepare('DELETE FROM chunks WHERE id = ?').run(ids[0]);
+
+         expect(countIndexed()).toBe(2);
+      });
+
+      it('returns cosine similarity scores from the index', () => {
+         store.initialize();
+
+         const embedding = new Float32Array(384).fill(0);
+
+         embedding[0] = 1;
+
+         store.addChunk(createMockChunk('exact'), embedding);
+
+         const results = store.vectorSearch(embedding, 1);
+
+         expect(results[0].content).toBe('exact');
+         expect(results[0].score).toBeCloseTo(1, 5);
+      });
+
+      it('falls back to scanning when the index is missing', () => {
+         store.initialize();
+
+         const embedding = new Float32Array(384).fill(0);
+
+         embedding[0] = 1;
+
+         store.addChunk(createMockChunk('first'), embedding);
+         store.addChunk(createMockChunk('second'), createMockEmbedding());
+         store.close();
+
+         // Simulate a library created before the index existed
+         const legacy = new VectorStore(dbPath);
+
+         legacy.initialize();
+         legacy.getDatabase().exec('DROP TABLE chunks_vec');
+         legacy.close();
+
+         store = new VectorStore(dbPath);
+         store.initialize();
+
+         const results = store.vectorSearch(embedding, 2);
+
+         expect(results.length).toBe(2);
+         expect(results[0].content).toBe('first');
+      });
    });
 
    describe('keywordSearch', () => {
@@ -271,6 +374,45 @@ describe('VectorStore', () => {
 
          expect(results.length).toBe(5);
       });
+
+      it('returns the offsets of the matched terms and a snippet around them', () => {
+         store.initialize();
+
+         store.addChunk(createMockChunk('Hooks let you use state. The useState hook returns a pair.'), createMockEmbedding());
+
+         const [ result ] = store.keywordSearch('hook', 10),
+               matched = result.highlights?.map(({ start, end }) => { return result.content.slice(start, end); });
+
+         expect(matched).toEqual([ 'Hooks', 'hook' ]);
+         expect(result.snippet?.text).toBe(result.content);
+         expect(result.snippet?.highlights).toEqual(result.highlights);
+      });
+
+      it('matches phrases and prefixes with advancedQuery', () => {
+         store.initialize();
+
+         store.addChunk(createMockChunk('call useEffect to run effects'), createMockEmbedding());
+         store.addChunk(createMockChunk('effects run after render'), createMockEmbedding());
+
+         const contentOf = (query: string): string[] => {
+            return store.keywordSearch(query, 10, { advancedQuery: true }).map((r) => { return r.content; });
+         };
+
+         expect(contentOf('useEff*')).toEqual([ 'call useEffect to run effects' ]);
+         expect(contentOf('"run effects"')).toEqual([ 'call useEffect to run effects' ]);
+         expect(contentOf('effects NOT render')).toEqual([ 'call useEffect to run effects' ]);
+         // Without advancedQuery, punctuation is dropped and any term matches
+         expect(store.keywordSearch('"run effects"', 10)).toHaveLength(2);
+      });
+
+      it('throws KeywordQuerySyntaxError for invalid advanced queries', () => {
+         store.initialize();
+
+         store.addChunk(createMockChunk('hello world'), createMockEmbedding());
+
+         expect(() => { store.keywordSearch('hello)', 10, { advancedQuery: true }); }).toThrow(KeywordQuerySyntaxError);
+         expect(store.keywordSearch('hello)', 10)).toHaveLength(1);
+      });
    });
 
    describe('hybridSearch', () => {
@@ -310,6 +452,139 @@ describe('VectorStore', () => {
          expect(results.length).toBe(1);
          expect(results[0].score).toBeGreaterThan(0);
       });
+
+      it('keeps the keyword matches of results found by both searches', () => {
+         store.initialize();
+
+         store.addChunk(createMockChunk('function test'), createMockEmbedding());
+
+         const [ result ] = store.hybridSearch(createMockEmbedding(), 'test', 1);
+
+         expect(result.highlights).toEqual([ { start: 9, end: 13 } ]);
+      });
+   });
+
+   describe('hybridSearch weighting', () => {
+      function unitEmbedding(...values: number[]): Float32Array {
+         const embedding = new Float32Array(384).fill(0);
+
+         values.forEach((v, i) => {
+            embedding[i] = v;
+         });
+
+         return embedding;
+      }
+
+      beforeEach(() => {
+         store.initialize();
+
+         // "vector match" is closest to the query embedding but shares no keywords; the
+         // two near neighbours push "goodbye keyword" out of the vector candidates
+         store.addChunk(createMockChunk('vector match'), unitEmbedding(1));
+         store.addChunk(createMockChunk('near neighbour one'), unitEmbedding(0.9, 0.1));
+         store.addChunk(createMockChunk('near neighbour two'), unitEmbedding(0.8, 0.2));
+         store.addChunk(createMockChunk('goodbye keyword'), unitEmbedding(0, 1));
+      });
+
+      it.each([ 'rrf', 'linear' ] as const)('favors vector results when alpha is high (%s)', (fusion) => {
+         const results = store.hybridSearch(unitEmbedding(1), 'goodbye', 1, { alpha: 0.9, fusion });
+
+         expect(results[0].content).toBe('vector match');
+      });
+
+      it.each([ 'rrf', 'linear' ] as const)('favors keyword results when alpha is low (%s)', (fusion) => {
+         const results = store.hybridSearch(unitEmbedding(1), 'goodbye', 1, { alpha: 0.1, fusion });
+
+         expect(results[0].content).toBe('goodbye keyword');
+      });
+
+      it('scores linear fusion between 0 and 1', () => {
+         const results = store.hybridSearch(unitEmbedding(1), 'goodbye', 4, { fusion: 'linear' });
+
+         for (const result of results) {
+            expect(result.score).toBeGreaterThanOrEqual(0);
+            expect(result.score).toBeLessThanOrEqual(1);
+         }
+      });
+   });
+
+   describe('search filters', () => {
+      function createCodeChunk(content: string, file: string, entityType: string): Chunk {
+         return {
+            content,
+            metadata: {
+               sourceFile: file,
+               startLine: 1,
+               endLine: 5,
+               language: 'typescript',
+               codeContext: {
+                  scope: [],
+                  entities: [ { name: 'example', type: entityType } ],
+                  siblings: [],
+                  imports: [],
+               },
+            },
+         };
+      }
+
+      beforeEach(() => {
+         store.initialize();
+
+         store.addChunk(createMockChunk('shared term in script', 'src/lib/script.js'), createMockEmbedding());
+         store.addChunk(
+            { content: 'shared term in guide', metadata: { sourceFile: 'docs/guide.md', language: 'markdown' } },
+            createMockEmbedding(),
+            { sourceType: 'url' }
+         );
+         store.addChunk(createCodeChunk('shared term in function', 'src/util.ts', 'function'), createMockEmbedding());
+         store.addChunk(createCodeChunk('shared term in class', 'src/model.ts', 'class'), createMockEmbedding());
+      });
+
+      const searchModes = [
+         [ 'vectorSearch', (filter: SearchFilter) => { return store.vectorSearch(createMockEmbedding(), 10, filter); } ],
+         [ 'keywordSearch', (filter: SearchFilter) => { return store.keywordSearch('shared', 10, filter); } ],
+         [ 'hybridSearch', (filter: SearchFilter) => { return store.hybridSearch(createMockEmbedding(), 'shared', 10, filter); } ],
+      ] as const;
+
+      function contents(results: SearchResult[]): string[] {
+         return results.map((r) => { return r.content; }).sort();
+      }
+
+      it.each(searchModes)('%s filters by language', (_name, search) => {
+         expect(contents(search({ languages: [ 'markdown', 'js' ] })))
+            .toEqual([ 'shared term in guide', 'shared term in script' ]);
+      });
+
+      it.each(searchModes)('%s filters by source file glob', (_name, search) => {
+         expect(contents(search({ sourceFile: 'src/*.ts' })))
+            .toEqual([ 'shared term in class', 'shared term in function' ]);
+         expect(contents(search({ sourceFile: 'lib/*.js' }))).toEqual([ 'shared term in script' ]);
+      });
+
+      it.each(searchModes)('%s filters by source type', (_name, search) => {
+         expect(contents(search({ sourceType: 'url' }))).toEqual([ 'shared term in guide' ]);
+      });
+
+      it.each(searchModes)('%s filters by code entity type', (_name, search) => {
+         expect(contents(search({ entityTypes: [ 'function' ] }))).toEqual([ 'shared term in function' ]);
+      });
+
+      it.each(searchModes)('%s combines filters', (_name, search) => {
+         expect(search({ languages: [ 'typescript' ], entityTypes: [ 'class' ], sourceFile: 'src/util.ts' }))
+            .toEqual([]);
+      });
+
+      it('applies filters when scanning without the vector index', () => {
+         store.getDatabase().exec('DROP TABLE chunks_vec');
+         store.close();
+
+         store = new VectorStore(dbPath);
+         store.initialize();
+
+         const results = store.vectorSearch(createMockEmbedding(), 10, { entityTypes: [ 'class' ] });
+
+         expect(contents(results)).toEqual([ 'shared term in class' ]);
+      });
    });
 
    describe('metadata operations', () => {
@@ -369,4 +644,163 @@ describe('VectorStore', () => {
          expect(store.getChunkCount()).toBe(2);
       });
    });
+
+   describe('getChunksBySourceFile', () => {
+      it('returns a file\'s chunks in file order', () => {
+         store.initialize();
+
+         const second = createMockChunk('second', 'guide.md'),
+               first = createMockChunk('first', 'guide.md');
+
+         second.metadata.startLine = 10;
+         second.metadata.endLine = 20;
+
+         store.addChunk(second, createMockEmbedding());
+         store.addChunk(first, createMockEmbedding());
+         store.addChunk(createMockChunk('other', 'other.md'), createMockEmbedding());
+
+         const chunks = store.getChunksBySourceFile('guide.md');
+
+         expect(chunks.map((c) => { return c.content; })).toEqual([ 'first', 'second' ]);
+         expect(store.getChunksBySourceFile('missing.md')).toEqual([]);
+      });
+
+      it('filters by content version', () => {
+         store.initialize();
+
+         store.addChunks([ createMockChunk('v1', 'guide.md') ], [ createMockEmbedding() ], { contentVersion: '1.0.0' });
+         store.addChunks([ createMockChunk('v2', 'guide.md') ], [ createMockEmbedding() ], { contentVersion: '2.0.0' });
+
+         const chunks = store.getChunksBySourceFile('guide.md', '2.0.0');
+
+         expect(chunks.map((c) => { return c.content; })).toEqual([ 'v2' ]);
+      });
+   });
+
+   describe('sources', () => {
+      it('links added chunks to their recorded document', () => {
+         store.initialize();
+
+         const [ guideId ] = store.addSources([
+            { type: 'git', uri: 'https://github.com/a/b', path: 'guide.md', ref: 'abc123', size: 12, license: 'MIT' },
+            { type: 'git', uri: 'https://github.com/a/b', path: 'api.md' },
+         ]);
+
+         const [ chunkId, otherId ] = store.addChunks(
+            [ createMockChunk('guide', 'guide.md'), createMockChunk('unrecorded', 'other.md') ],
+            [ createMockEmbedding(), createMockEmbedding() ]
+         );
+
+         const sources = store.getChunkSources([ chunkId, otherId ]);
+
+         expect(sources.size).toBe(1);
+         expect(sources.get(chunkId)).toMatchObject({
+            id: guideId,
+            type: 'git',
+            path: 'guide.md',
+            ref: 'abc123',
+            size: 12,
+            license: 'MIT',
+         });
+      });
+
+      it('matches documents by content version', () => {
+         store.initialize();
+
+         const [ v1, v2 ] = store.addSources([
+            { type: 'local', uri: '/docs', path: 'guide.md', contentVersion: '1.0.0' },
+            { type: 'local', uri: '/docs', path: 'guide.md', contentVersion: '2.0.0' },
+         ]);
+
+         const [ chunkId ] = store.addChunks([ createMockChunk('v2', 'guide.md') ], [ createMockEmbedding() ], { contentVersion: '2.0.0' });
+
+         expect(store.getChunkSources([ chunkId ]).get(chunkId)?.id).toBe(v2);
+         expect(store.getSources().map((s) => { return [ s.id, s.chunkCount ]; })).toEqual([ [ v1, 0 ], [ v2, 1 ] ]);
+      });
+
+      it('returns nothing when no documents were recorded', () => {
+         store.initialize();
+
+         const [ chunkId ] = store.addChunks([ createMockChunk('guide', 'guide.md') ], [ createMockEmbedding() ]);
+
+         expect(store.getSources()).toEqual([]);
+         expect(store.getChunkSources([ chunkId ]).size).toBe(0);
+      });
+   });
+
+   describe('getChunkParents', () => {
+      it('stores each parent once and links its children to it', () => {
+         store.initialize();
+
+         const parent = createMockChunk('section', 'guide.md'),
+               first = { ...createMockChunk('first half', 'guide.md'), parent },
+               second = { ...createMockChunk('second half', 'guide.md'), parent };
+
+         parent.metadata.endLine = 40;
+
+         const ids = store.addChunks(
+            [ first, second, createMockChunk('whole', 'other.md') ],
+            [ createMockEmbedding(), createMockEmbedding(), createMockEmbedding() ],
+            { contentVersion: '1.0.0' }
+         );
+
+         const parents = store.getChunkParents(ids);
+
+         expect(parents.size).toBe(2);
+         expect(parents.get(ids[0])).toEqual({
+            id: parents.get(ids[1])?.id,
+            content: 'section',
+            sourceFile: 'guide.md',
+            contentVersion: '1.0.0',
+            startLine: 1,
+            endLine: 40,
+         });
+         expect(parents.has(ids[2])).toBe(false);
+      });
+   });
+
+   describe('getAllEmbeddings', () => {
+      it('yields each embedding with the text it was computed from', () => {
+         store.initialize();
+
+         const embedding = createMockEmbedding();
+
+         store.addChunk(createMockChunk('raw content'), embedding);
+         store.addChunk(
+            { ...createMockChunk('other content'), embeddingContent: 'context\n\nother content' },
+            createMockEmbedding()
+         );
+
+         const entries = store.getAllEmbeddings();
+
+         expect(entries.map((e) => { return e.embeddingInput; }))
+            .toEqual([ 'raw content', 'context\n\nother content' ]);
+         expect(Array.from(entries[0].embedding)).toEqual(Array.from(embedding));
+      });
+   });
+
+   describe('iterateEmbeddingInputs and getEmbeddings', () => {
+      it('look up embeddings by chunk ID', () => {
+         store.initialize();
+
+         const embedding = createMockEmbedding(),
+               firstId = store.addChunk(createMockChunk('raw content'), embedding);
+
+         store.addChunk(
+            { ...createMockChunk('other content'), embeddingContent: 'context\n\nother content' },
+            createMockEmbedding()
+         );
+
+         const inputs = Array.from(store.iterateEmbeddingInputs());
+
+         expect(inputs.map((i) => { return i.embeddingInput; }))
+            .toEqual([ 'raw content', 'context\n\nother content' ]);
+
+         const embeddings = store.getEmbeddings([ firstId, 999 ]);
+
+         expect([ ...embeddings.keys() ]).toEqual([ firstId ]);
+         expect(Array.from(embeddings.get(firstId) ?? [])).toEqual(Array.from(embedding));
+         expect(store.getEmbeddings([]).size).toBe(0);
+      });
+   });
 });
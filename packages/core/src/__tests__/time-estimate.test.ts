@@ -85,6 +85,20 @@ describe('time-estimate', () => {
          // Should include minutes for larger values
          expect(estimate.formattedTime).toMatch(/\d+m|\d+h/);
       });
+
+      it('takes the number of embedding workers into account', () => {
+         const cores = getSystemInfo().cpuCores,
+               single = estimateEmbeddingTime(1000),
+               parallel = estimateEmbeddingTime(1000, 4);
+
+         expect(estimateEmbeddingTime(1000, 1).chunksPerSecond).toBe(single.chunksPerSecond);
+         expect(parallel.chunksPerSecond).toBeGreaterThanOrEqual(single.chunksPerSecond);
+         expect(parallel.chunksPerSecond).toBeLessThan(single.chunksPerSecond * 4);
+
+         // Workers beyond the cores available for embedding don't speed it up
+         expect(estimateEmbeddingTime(1000, cores * 2).chunksPerSecond)
+            .toBe(estimateEmbeddingTime(1000, Math.max(1, cores - 1)).chunksPerSecond);
+      });
    });
 
    describe('formatSystemInfo', () => {
@@ -0,0 +1,227 @@
+/**
+ * Build config - Declarative description of a library built from one or more sources
+ *
+ * A build config file (e.g. `libragen.build.json` or `libragen.build.yaml`) holds the
+ * library's metadata and build settings, and lists the sources it combines. Each source
+ * has its own include/exclude patterns, git ref, license, and content version.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// Sources with a URL scheme (git URLs) are left as they are when resolving paths
+const URL_PATTERN = /^[a-z][a-z\d+.-]*:\/\//i;
+
+/**
+ * One source of a library built from a build config.
+ */
+export interface BuildSource {
+
+   /**
+    * Source directory, file path, or git URL. Relative paths are resolved against the
+    * directory of the config file.
+    */
+   source: string;
+
+   /** Glob patterns to include */
+   include?: string[];
+
+   /** Glob patterns to exclude (added to the defaults and to the config's `exclude`) */
+   exclude?: string[];
+
+   /** Git branch, tag, or commit to check out (git sources only) */
+   ref?: string;
+
+   /** SPDX license identifier(s) for this source (default: the config's `license`) */
+   license?: string[];
+
+   /** Version of this source's content, stored with its chunks */
+   contentVersion?: string;
+
+   /**
+    * Path prepended to the paths of this source's documents (git sources only), e.g. the
+    * repository name. Needed when two repositories contain files with the same path.
+    */
+   prefix?: string;
+}
+
+/**
+ * Contents of a build config file.
+ */
+export interface BuildConfig {
+
+   /** JSON schema of the file, for editor support */
+   $schema?: string;
+
+   /** Library name (defaults to the name of the first source) */
+   name?: string;
+
+   /** Library version (default: 0.1.0) */
+   version?: string;
+
+   /** Version of the library's content as a whole */
+   contentVersion?: string;
+
+   /** Short description of the library */
+   description?: string;
+
+   /** Guidance for AI agents on when to use this library */
+   agentDescription?: string;
+
+   /** Example queries this library can answer */
+   exampleQueries?: string[];
+
+   /** Searchable keywords/tags */
+   keywords?: string[];
+
+   /** Programming languages covered (e.g., "typescript", "python") */
+   programmingLanguages?: string[];
+
+   /** Human/natural languages of the content as ISO 639-1 codes (e.g., "en", "es") */
+   textLanguages?: string[];
+
+   /** Frameworks covered (e.g., "react", "express") */
+   frameworks?: string[];
+
+   /** SPDX license identifier(s) for sources that don't declare their own */
+   license?: string[];
+
+   /** Output path for the .libragen file, relative to the config file */
+   output?: string;
+
+   /** Target chunk size in characters (default: 1000) */
+   chunkSize?: number;
+
+   /** Chunk overlap in characters (default: 100) */
+   chunkOverlap?: number;
+
+   /** Size of the child chunks embedded in place of each chunk */
+   childChunkSize?: number;
+
+   /** Glob patterns to exclude from every source (added to defaults) */
+   exclude?: string[];
+
+   /** Disable default exclusions (node_modules, .git, dist, etc.) */
+   noDefaultExcludes?: boolean;
+
+   /** Disable AST-aware chunking for code files */
+   noAstChunking?: boolean;
+
+   /** Context mode for AST chunking (default: "full") */
+   contextMode?: 'none' | 'minimal' | 'full';
+
+   /** Sources to build the library from */
+   sources: BuildSource[];
+}
+
+const STRING_ARRAY_FIELDS = [
+   'exampleQueries',
+   'keywords',
+   'programmingLanguages',
+   'textLanguages',
+   'frameworks',
+   'license',
+   'exclude',
+] as const;
+
+const SOURCE_STRING_ARRAY_FIELDS = [ 'include', 'exclude', 'license' ] as const;
+
+function isStringArray(value: unknown): boolean {
+   return Array.isArray(value) && value.every((item) => { return typeof item === 'string'; });
+}
+
+/**
+ * Check that a parsed config has the shape of a BuildConfig, returning a description
+ * of the first problem found.
+ */
+function findConfigProblem(config: Record<string, unknown>): string | undefined {
+   const invalidField = STRING_ARRAY_FIELDS.find((field) => {
+      return config[field] !== undefined && !isStringArray(config[field]);
+   });
+
+   if (invalidField) {
+      return `"${invalidField}" must be an array of strings`;
+   }
+
+   if (!Array.isArray(config.sources) || config.sources.length === 0) {
+      return '"sources" must list at least one source';
+   }
+
+   const sources = config.sources as Array<Record<string, unknown>>;
+
+   for (let i = 0; i < sources.length; i++) {
+      const source = sources[i];
+
+      if (typeof source?.source !== 'string' || source.source === '') {
+         return `sources[${i}] must have a "source" path or git URL`;
+      }
+
+      const invalidSourceField = SOURCE_STRING_ARRAY_FIELDS.find((field) => {
+         return source[field] !== undefined && !isStringArray(source[field]);
+      });
+
+      if (invalidSourceField) {
+         return `sources[${i}].${invalidSourceField} must be an array of strings`;
+      }
+   }
+
+   return undefined;
+}
+
+/**
+ * Parse the contents of a build config file. Files ending in `.yaml` or `.yml` are
+ * parsed as YAML, and anything else as JSON.
+ *
+ * @param content - File contents
+ * @param fileName - File name, used to pick the format and in error messages
+ * @throws Error if the file can't be parsed or isn't a valid build config
+ */
+export function parseBuildConfig(content: string, fileName: string): BuildConfig {
+   const isYaml = /\.ya?ml$/i.test(fileName);
+
+   let config: unknown;
+
+   try {
+      config = isYaml ? parseYaml(content) : JSON.parse(content);
+   } catch(e) {
+      throw new Error(`Could not parse build config ${fileName}: ${e instanceof Error ? e.message : String(e)}`);
+   }
+
+   if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      throw new Error(`Invalid build config ${fileName}: expected an object`);
+   }
+
+   const problem = findConfigProblem(config as Record<string, unknown>);
+
+   if (problem) {
+      throw new Error(`Invalid build config ${fileName}: ${problem}`);
+   }
+
+   return config as BuildConfig;
+}
+
+/**
+ * Load a build config file. Relative local source paths and the output path are
+ * resolved against the directory containing the file.
+ *
+ * @param configPath - Path to a JSON or YAML build config
+ * @throws Error if the file can't be read, parsed, or isn't a valid build config
+ */
+export async function loadBuildConfig(configPath: string): Promise<BuildConfig> {
+   const resolvedPath = path.resolve(configPath),
+         configDir = path.dirname(resolvedPath),
+         config = parseBuildConfig(await fs.readFile(resolvedPath, 'utf-8'), configPath);
+
+   return {
+      ...config,
+      output: config.output === undefined ? undefined : path.resolve(configDir, config.output),
+      sources: config.sources.map((source) => {
+         if (URL_PATTERN.test(source.source)) {
+            return source;
+         }
+
+         return { ...source, source: path.resolve(configDir, source.source) };
+      }),
+   };
+}
@@ -8,18 +8,112 @@
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import { createHash } from 'crypto';
-import { Embedder } from './embedder.ts';
+import { Embedder, DEFAULT_QUANTIZATION } from './embedder.ts';
 import type { IEmbedder } from './embedder.ts';
+import { HttpEmbedder } from './http-embedder.ts';
+import { getEmbeddingCacheNamespace } from './embedding-cache.ts';
+import type { EmbeddingCache } from './embedding-cache.ts';
+import { DEFAULT_PREFIX_PROFILE } from './embedding-prefixes.ts';
 import { Chunker } from './chunker.ts';
 import type { Chunk } from './chunker.ts';
 import { CodeChunker } from './code-chunker.ts';
 import type { ContextMode } from './code-chunker.ts';
 import { VectorStore } from './store.ts';
-import { GitSource, isGitUrl, parseGitUrl, getAuthToken } from './sources/index.ts';
+import type { NewSourceDocument } from './store.ts';
+import { GitSource, LicenseDetector, isGitUrl, parseGitUrl, getAuthToken } from './sources/index.ts';
 import type { GitSourceResult } from './sources/index.ts';
 import { CURRENT_SCHEMA_VERSION } from './migrations/index.ts';
 import { deriveGitLibraryName } from './utils.ts';
 import type { LibraryMetadata, SourceProvenance } from './types.ts';
+import type { BuildConfig, BuildSource } from './build-config.ts';
+import { contentVersionFromRef } from './content-version.ts';
+import { LibraryWriter } from './library-writer.ts';
+import type { ChunkBatch, LibrarySummary } from './library-writer.ts';
+
+const DEFAULT_EMBEDDING_MODEL = 'Xenova/bge-small-en-v1.5';
+
+// Chunks read, embedded, and written together; bounds how much of a build is in memory
+const CHUNK_BATCH_SIZE = 256;
+
+// Chunks passed to the embedder in one call
+const EMBEDDING_BATCH_SIZE = 50;
+
+/**
+ * Hash the text a chunk's embedding is computed from, for matching chunks across builds.
+ */
+function hashEmbeddingInput(input: string): string {
+   return createHash('sha256').update(input).digest('hex');
+}
+
+/**
+ * Compute the SHA git uses to identify a blob with the given contents.
+ */
+function gitBlobSha(bytes: Buffer): string {
+   return createHash('sha1')
+      .update(`blob ${bytes.length}\0`)
+      .update(bytes)
+      .digest('hex');
+}
+
+/**
+ * Order source files by the path their documents are recorded with.
+ */
+function compareDocumentPaths(a: SourceDocumentFile, b: SourceDocumentFile): number {
+   if (a.documentPath === b.documentPath) {
+      return 0;
+   }
+
+   return a.documentPath < b.documentPath ? -1 : 1;
+}
+
+/**
+ * Describe an ingested document for the library's sources table. A license declared
+ * in the document's own SPDX header takes precedence over the source's licenses.
+ */
+function describeDocument(
+   documentPath: string,
+   content: string,
+   provenance: SourceProvenance,
+   licenseDetector: LicenseDetector
+): NewSourceDocument {
+   const bytes = Buffer.from(content, 'utf-8'),
+         sourceLicense = provenance.licenses?.length ? provenance.licenses.join(' AND ') : undefined;
+
+   return {
+      type: provenance.type,
+      uri: provenance.url ?? provenance.path ?? documentPath,
+      path: documentPath,
+      ref: provenance.commitHash,
+      blobSha: gitBlobSha(bytes),
+      size: bytes.length,
+      contentHash: `sha256:${createHash('sha256').update(bytes).digest('hex')}`,
+      license: licenseDetector.detectFromFileHeader(content) ?? sourceLicense,
+      contentVersion: provenance.contentVersion,
+   };
+}
+
+/**
+ * Error thrown when a build is cancelled through its `signal`. By the time it is thrown,
+ * the build's partial output and temporary directories have been removed.
+ */
+export class BuildCancelledError extends Error {
+
+   public readonly name = 'BuildCancelledError';
+
+   public constructor() {
+      super('Build cancelled');
+   }
+
+}
+
+/**
+ * Throw a BuildCancelledError if the build's signal has been aborted.
+ */
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+   if (signal?.aborted) {
+      throw new BuildCancelledError();
+   }
+}
 
 /**
  * Options for building a library.
@@ -35,7 +129,10 @@ export interface BuildOptions {
    /** Library version (default: 0.1.0) */
    version?: string;
 
-   /** Version of the source content */
+   /**
+    * Version of the source content. Recorded on the chunks of every source that doesn't
+    * have a version of its own, so searches can filter on it.
+    */
    contentVersion?: string;
 
    /** Short description of the library */
@@ -65,6 +162,13 @@ export interface BuildOptions {
    /** Chunk overlap in characters (default: 100) */
    chunkOverlap?: number;
 
+   /**
+    * Split each chunk into child chunks of about this many characters for embedding,
+    * storing the chunk as their parent (default: disabled). Searches match the children
+    * and can return their parents with `returnParents`. Must be smaller than `chunkSize`.
+    */
+   childChunkSize?: number;
+
    /** Glob patterns to include */
    include?: string[];
 
@@ -77,6 +181,12 @@ export interface BuildOptions {
    /** Git branch, tag, or commit to checkout (remote git sources only) */
    gitRef?: string;
 
+   /**
+    * Several git branches or tags to build into one library (remote git sources only).
+    * Each ref's chunks are stored with its content version, e.g. "18.0.0" for "v18.0.0".
+    */
+   gitRefs?: string[];
+
    /** Auth token for private git repositories */
    gitRepoAuthToken?: string;
 
@@ -88,6 +198,27 @@ export interface BuildOptions {
 
    /** Context mode for AST chunking: 'none', 'minimal', or 'full' (default: 'full') */
    contextMode?: ContextMode;
+
+   /**
+    * Path to a previous build of this library. Embeddings are copied from it for chunks
+    * whose embedding input is unchanged, as long as it was built with the same embedding
+    * model and quantization; only new or changed chunks are embedded.
+    */
+   base?: string;
+
+   /**
+    * Continue an interrupted build from the checkpoint in its work file
+    * (`<output>.partial`) instead of starting over. The build must have the same sources
+    * and options, or it fails.
+    */
+   resume?: boolean;
+
+   /**
+    * Signal that cancels the build. It is checked between build phases and between
+    * embedding batches; once aborted, the build removes its partial output and cloned
+    * repositories, then rejects with a BuildCancelledError.
+    */
+   signal?: AbortSignal;
 }
 
 /**
@@ -118,6 +249,18 @@ export interface BuildResult {
 
       /** Chunks processed per second */
       chunksPerSecond: number;
+
+      /** Number of embeddings copied from the base library */
+      embeddingsReused: number;
+
+      /** Number of embeddings found in the embedding cache */
+      embeddingsCached: number;
+
+      /** Number of embeddings generated by the embedder */
+      embeddingsComputed: number;
+
+      /** Number of embeddings kept from the interrupted build that was resumed */
+      embeddingsResumed: number;
    };
 
    /** Git-specific information (if source was a git URL) */
@@ -163,11 +306,14 @@ export interface BuildProgress {
    /** Human-readable message */
    message: string;
 
-   /** Current item being processed (for embedding phase) */
+   /** Source files read so far (for embedding phase) */
    current?: number;
 
-   /** Total items to process (for embedding phase) */
+   /** Source files to read in total (for embedding phase) */
    total?: number;
+
+   /** Chunks embedded so far (for embedding phase) */
+   chunkCount?: number;
 }
 
 /**
@@ -193,6 +339,13 @@ export interface BuilderConfig {
     * ```
     */
    embedder?: IEmbedder;
+
+   /**
+    * Cache of embeddings shared across builds. Chunks whose embeddings were computed by
+    * an earlier build with the same model aren't embedded again, and the embeddings this
+    * build computes are added to it. The cache is left open for the caller to close.
+    */
+   embeddingCache?: EmbeddingCache;
 }
 
 /**
@@ -214,6 +367,9 @@ export interface ResolvedSource {
 
    /** Include patterns (may be modified for git path filtering) */
    includePatterns?: string[];
+
+   /** Exclude patterns for this source */
+   excludePatterns?: string[];
 }
 
 /**
@@ -224,26 +380,89 @@ export interface EmbeddingResult {
    /** Generated embeddings */
    embeddings: Float32Array[];
 
-   /** Time spent embedding in seconds */
-   duration: number;
+   /** Number of embeddings copied from the base library */
+   reused: number;
+
+   /** Number of embeddings found in the embedding cache */
+   cached: number;
 
-   /** Chunks processed per second */
-   chunksPerSecond: number;
+   /** Number of embeddings generated by the embedder */
+   computed: number;
 }
 
 /**
- * Options for creating the library database.
+ * Embeddings of a previous build that can be reused by this one.
  */
-export interface CreateLibraryOptions {
+export interface ReusableEmbeddings {
 
-   /** Path for the output file */
-   outputPath: string;
+   /** The previous build's library, open for reading */
+   store: VectorStore;
+
+   /** ID of each of its chunks, keyed by a hash of the chunk's embedding input */
+   chunkIds: Map<string, number>;
+}
+
+/**
+ * Embeddings cached across builds that this build can use and add to.
+ */
+export interface CachedEmbeddings {
+
+   /** The embedding cache */
+   cache: EmbeddingCache;
+
+   /** Namespace of the build's embedder in the cache */
+   namespace: string;
+}
+
+/**
+ * A source file to read and chunk.
+ */
+export interface SourceDocumentFile {
+
+   /** Where to read the file from */
+   filePath: string;
+
+   /** Path the document is recorded with in the library */
+   documentPath: string;
+}
+
+/**
+ * A source file's document and the chunks cut from it.
+ */
+export interface ChunkedDocument {
 
-   /** Chunks to store */
+   /** Per-document provenance */
+   document: NewSourceDocument;
+
+   /** Chunks cut from the document, in order */
    chunks: Chunk[];
+}
 
-   /** Embeddings for chunks */
-   embeddings: Float32Array[];
+/**
+ * Chunkers and detectors shared by every document of a build.
+ */
+export interface DocumentChunkers {
+
+   /** Text chunker, also used to list the files of local directories */
+   textChunker: Chunker;
+
+   /** AST-aware chunker for code files (null when disabled) */
+   codeChunker: CodeChunker | null;
+
+   /** Chunker splitting chunks into the children that are embedded, if enabled */
+   childChunker: Chunker | null;
+
+   /** Detector for licenses declared in a document's own header */
+   licenseDetector: LicenseDetector;
+}
+
+/**
+ * Options for creating the library.
+ */
+export interface CreateLibraryOptions {
+
+   /** Path for the output file */
+   outputPath: string;
 
    /** Library name */
    libraryName: string;
@@ -257,13 +476,41 @@ export interface CreateLibraryOptions {
    /** Chunk overlap used */
    chunkOverlap: number;
 
-   /** Source provenance */
-   provenance: SourceProvenance;
+   /** Provenance of each source, in build order */
+   sources: SourceProvenance[];
+
+   /** Sources as given to the build */
+   buildSources: BuildSource[];
 
    /** Build options */
    buildOptions: BuildOptions;
 }
 
+/**
+ * A batch of chunks from a build's sources, with how far through the source files it is.
+ */
+interface SourceBatch extends ChunkBatch {
+   filesRead: number;
+   fileCount: number;
+}
+
+/**
+ * Reads the next batch of chunks of a build, or undefined once every file is read.
+ */
+type BatchReader = () => Promise<SourceBatch | undefined>;
+
+/**
+ * What each batch of chunks is embedded with and written to.
+ */
+interface BatchWriteContext {
+   embedder: IEmbedder;
+   writer: LibraryWriter;
+   reusable?: ReusableEmbeddings;
+   cached?: CachedEmbeddings;
+   progress: BuildProgressCallback;
+   signal?: AbortSignal;
+}
+
 /**
  * Builder class for creating .libragen libraries from source files.
  *
@@ -306,101 +553,44 @@ export class Builder {
    ): Promise<BuildResult> {
       const opts = options ?? {};
 
-      const progress = onProgress ?? ((): void => {});
-
-      const gitSource = new GitSource();
-
-      let resolved: ResolvedSource | undefined;
-
-      try {
-         // Phase 1: Resolve source
-         progress({ phase: 'initializing', progress: 5, message: 'Initializing...' });
-         resolved = await this._resolveSource(source, opts, gitSource, progress);
-
-         // Derive library name and version
-         const libraryName = opts.name ||
-            (resolved.isGit
-               ? deriveGitLibraryName(parseGitUrl(source).repoUrl)
-               : path.basename(resolved.sourcePath));
-
-         const libraryVersion = opts.version || '0.1.0';
-
-         // Resolve output path
-         const outputPath = await this._resolveOutputPath(opts.output, libraryName, libraryVersion);
-
-         // Phase 2: Chunk source files BEFORE loading model
-         // This ensures we fail fast on empty directories without loading the model
-         const chunkSize = opts.chunkSize ?? 1000,
-               chunkOverlap = opts.chunkOverlap ?? 100;
-
-         const chunks = await this._chunkSource(resolved, opts, chunkSize, chunkOverlap, progress);
-
-         // Phase 3: Initialize embedder (only after we know we have content)
-         progress({ phase: 'loading-model', progress: 20, message: 'Loading embedding model...' });
-
-         const embedder = this._config.embedder ?? new Embedder();
-
-         const disposeEmbedder = !this._config.embedder;
-
-         try {
-            await embedder.initialize();
-
-            // Phase 4: Generate embeddings
-            const embeddingResult = await this._generateEmbeddings(chunks, embedder, progress);
-
-            // Phase 5: Create library database
-            progress({ phase: 'creating-database', progress: 90, message: 'Creating library database...' });
+      if (!opts.gitRefs?.length) {
+         return this._buildSources([ { source } ], opts, onProgress);
+      }
 
-            const metadata = await this._createLibrary({
-               outputPath,
-               chunks,
-               embeddings: embeddingResult.embeddings,
-               libraryName,
-               libraryVersion,
-               chunkSize,
-               chunkOverlap,
-               provenance: resolved.provenance,
-               buildOptions: opts,
-            });
+      if (!isGitUrl(source)) {
+         throw new Error(`Git refs can only be built from a git source, not ${source}`);
+      }
 
-            // Get final file size
-            const fileStats = await fs.stat(outputPath);
+      const sources = opts.gitRefs.map((ref) => {
+         return { source, ref, contentVersion: contentVersionFromRef(ref) };
+      });
 
-            progress({ phase: 'complete', progress: 100, message: 'Complete' });
+      return this._buildSources(sources, opts, onProgress);
+   }
 
-            // Build result
-            const result: BuildResult = {
-               outputPath: path.resolve(outputPath),
-               metadata,
-               stats: {
-                  chunkCount: chunks.length,
-                  sourceCount: metadata.stats.sourceCount,
-                  fileSize: fileStats.size,
-                  embedDuration: embeddingResult.duration,
-                  chunksPerSecond: embeddingResult.chunksPerSecond,
-               },
-            };
+   /**
+    * Build a single .libragen library from all the sources listed in a build config, each
+    * recorded with its own provenance.
+    *
+    * @param config - Build config, e.g. from `loadBuildConfig()`
+    * @param options - Build options, which take precedence over the config's settings
+    * @param onProgress - Optional progress callback
+    * @returns Build result with output path and metadata
+    * @throws Error if build fails
+    */
+   public async buildFromConfig(
+      config: BuildConfig,
+      options?: BuildOptions,
+      onProgress?: BuildProgressCallback
+   ): Promise<BuildResult> {
+      const { sources, ...settings } = config;
 
-            if (resolved.gitResult) {
-               result.git = {
-                  commitHash: resolved.gitResult.commitHash,
-                  ref: resolved.gitResult.ref,
-                  detectedLicense: resolved.gitResult.detectedLicense,
-               };
-            }
+      // Options left undefined (e.g. CLI flags that weren't given) use the config values
+      const definedOptions = Object.fromEntries(Object.entries(options ?? {}).filter(([ , value ]) => {
+         return value !== undefined;
+      }));
 
-            return result;
-         } finally {
-            if (disposeEmbedder) {
-               await embedder.dispose();
-            }
-         }
-      } finally {
-         // Clean up git temp directory
-         if (resolved?.gitResult?.tempDir) {
-            await gitSource.cleanup(resolved.gitResult.tempDir);
-         }
-      }
+      return this._buildSources(sources, { ...settings, ...definedOptions }, onProgress);
    }
 
    /**
@@ -465,6 +655,8 @@ export class Builder {
          patterns: includePatterns,
          ignore: opts.exclude,
          useDefaultIgnore: !opts.noDefaultExcludes,
+         // Files are read from the clone as they are chunked
+         skipContent: true,
       });
 
       // Determine licenses: explicit > auto-detected
@@ -516,180 +708,291 @@ export class Builder {
             licenses: opts.license,
          },
          includePatterns: opts.include,
+         excludePatterns: opts.exclude,
       };
    }
 
    /**
-    * Chunk source files into smaller pieces for embedding.
-    * Uses AST-aware chunking for supported code files (unless disabled), falling back to
-    * text-based chunking for unsupported files.
+    * List the files of a source to read and chunk. Git files are read from the clone and
+    * recorded with their path in the repository; local files with their path on disk.
+    * Files are listed in path order, so that a resumed build reads them in the same order
+    * as the build it continues.
     *
     * @param resolved - Resolved source information
     * @param opts - Build options
-    * @param chunkSize - Target chunk size
-    * @param chunkOverlap - Chunk overlap
-    * @param progress - Progress callback
-    * @returns Array of chunks
+    * @param textChunker - Chunker whose default patterns and ignores are used for
+    * local directories
     */
-   protected async _chunkSource(
+   protected async _listSourceFiles(
       resolved: ResolvedSource,
       opts: BuildOptions,
-      chunkSize: number,
-      chunkOverlap: number,
-      progress: BuildProgressCallback
-   ): Promise<Chunk[]> {
-      progress({ phase: 'chunking', progress: 30, message: 'Chunking source files...' });
+      textChunker: Chunker
+   ): Promise<SourceDocumentFile[]> {
+      if (resolved.gitResult) {
+         return resolved.gitResult.files
+            .map((file) => { return { filePath: file.path, documentPath: file.relativePath }; })
+            .sort(compareDocumentPaths);
+      }
 
-      const useAstChunking = !opts.noAstChunking,
-            contextMode = opts.contextMode ?? 'full';
+      const stats = await fs.stat(resolved.sourcePath);
 
-      const textChunker = new Chunker({ chunkSize, chunkOverlap });
+      if (!stats.isDirectory()) {
+         return [ { filePath: resolved.sourcePath, documentPath: resolved.sourcePath } ];
+      }
 
-      const codeChunker = useAstChunking
-         ? new CodeChunker({ maxChunkSize: chunkSize, contextMode })
-         : null;
+      const files = await textChunker.listFiles(resolved.sourcePath, {
+         patterns: resolved.includePatterns,
+         ignore: resolved.excludePatterns ?? opts.exclude,
+         useDefaultIgnore: !opts.noDefaultExcludes,
+      });
 
-      let chunks: Chunk[];
+      return files
+         .map((file) => { return { filePath: file, documentPath: file }; })
+         .sort(compareDocumentPaths);
+   }
 
-      if (resolved.gitResult) {
-         chunks = await this._chunkSourceFiles(
-            resolved.gitResult.files,
-            textChunker,
-            codeChunker
-         );
-      } else {
-         const stats = await fs.stat(resolved.sourcePath);
-
-         if (stats.isDirectory()) {
-            chunks = await textChunker.chunkDirectory(resolved.sourcePath, {
-               patterns: resolved.includePatterns,
-               ignore: opts.exclude,
-               useDefaultIgnore: !opts.noDefaultExcludes,
-            });
+   /**
+    * Fingerprint the sources and options that decide a build's chunks and embeddings, so
+    * that an interrupted build is only resumed by one that would write the same library.
+    *
+    * @param options - Options for creating the library
+    * @param embedder - Embedder used for the build
+    */
+   protected _fingerprintBuild(options: CreateLibraryOptions, embedder: IEmbedder): string {
+      const opts = options.buildOptions;
+
+      const fingerprint = JSON.stringify({
+         buildSources: options.buildSources,
+         sources: options.sources,
+         include: opts.include,
+         exclude: opts.exclude,
+         noDefaultExcludes: opts.noDefaultExcludes,
+         chunkSize: options.chunkSize,
+         chunkOverlap: options.chunkOverlap,
+         childChunkSize: opts.childChunkSize,
+         noAstChunking: opts.noAstChunking,
+         contextMode: opts.contextMode,
+         model: embedder.model,
+         dimensions: embedder.dimensions,
+         prefixProfile: embedder.prefixProfile,
+      });
 
-            // If AST chunking is enabled, re-chunk code files with CodeChunker
-            if (codeChunker) {
-               chunks = await this._enhanceChunksWithAst(chunks, codeChunker);
-            }
-         } else if (codeChunker && CodeChunker.isSupported(resolved.sourcePath)) {
-            // Single file with AST chunking
-            const astChunks = await codeChunker.tryChunkText(
-               await fs.readFile(resolved.sourcePath, 'utf-8'),
-               resolved.sourcePath
-            );
-
-            chunks = astChunks ?? await textChunker.chunkFile(resolved.sourcePath);
-         } else {
-            // Single file without AST chunking
-            chunks = await textChunker.chunkFile(resolved.sourcePath);
+      return createHash('sha256').update(fingerprint).digest('hex');
+   }
+
+   /**
+    * Read a source file, chunk it, and describe it for per-document provenance.
+    * Uses AST-aware chunking for supported code files (unless disabled), falling back to
+    * text-based chunking for unsupported files.
+    *
+    * @param file - Source file to chunk
+    * @param resolved - Resolved source the file belongs to
+    * @param chunkers - Chunkers and detectors shared by the build
+    * @returns The document and its chunks, or null if the file can't be read or chunked,
+    * or has no content
+    */
+   protected async _chunkDocument(
+      file: SourceDocumentFile,
+      resolved: ResolvedSource,
+      chunkers: DocumentChunkers
+   ): Promise<ChunkedDocument | null> {
+      const { textChunker, codeChunker, childChunker, licenseDetector } = chunkers;
+
+      try {
+         const content = await fs.readFile(file.filePath, 'utf-8');
+
+         let chunks: Chunk[] | null = null;
+
+         // Try AST chunking first for supported files
+         if (codeChunker && CodeChunker.isSupported(file.documentPath)) {
+            chunks = await codeChunker.tryChunkText(content, file.documentPath);
          }
-      }
 
-      if (chunks.length === 0) {
-         throw new Error('No content found to index. Check your source path and include/exclude patterns.');
+         chunks = chunks ?? await textChunker.chunkText(content, file.documentPath);
+
+         if (chunks.length === 0) {
+            return null;
+         }
+
+         if (childChunker) {
+            chunks = await childChunker.splitIntoChildren(chunks);
+         }
+
+         return {
+            document: describeDocument(file.documentPath, content, resolved.provenance, licenseDetector),
+            chunks,
+         };
+      } catch(_e) {
+         // Skip files that can't be read or chunked (binary, permission issues, etc.)
+         return null;
       }
+   }
 
-      return chunks;
+   /**
+    * Open the library of a previous build to reuse its embeddings, indexing its chunks by
+    * a hash of their embedding input. Only the index is held in memory; embeddings are
+    * read as they are needed. Returns undefined if the base library was built with a
+    * different embedding model, quantization, or prefix profile, since its vectors would
+    * not be comparable. Libraries that don't record their quantization predate recording
+    * it and were built by the default local embedder, so are read as its quantization.
+    *
+    * @param basePath - Path to the previous .libragen file
+    * @param embedder - Embedder used for this build
+    * @returns Reusable embeddings, whose store the caller must close
+    */
+   protected async _loadBaseEmbeddings(
+      basePath: string,
+      embedder: IEmbedder
+   ): Promise<ReusableEmbeddings | undefined> {
+      await fs.access(basePath);
+
+      const store = new VectorStore(basePath);
+
+      try {
+         store.initialize();
+
+         const baseEmbedding = store.getMetadata<LibraryMetadata>()?.embedding,
+               baseProfile = baseEmbedding?.prefixProfile ?? DEFAULT_PREFIX_PROFILE,
+               baseQuantization = baseEmbedding?.quantization ?? DEFAULT_QUANTIZATION;
+
+         const sameModel = !!embedder.model
+            && baseEmbedding?.model === embedder.model
+            && baseEmbedding.dimensions === embedder.dimensions
+            && baseQuantization === (embedder.quantization ?? DEFAULT_QUANTIZATION)
+            && baseProfile === (embedder.prefixProfile ?? DEFAULT_PREFIX_PROFILE);
+
+         if (!sameModel) {
+            store.close();
+            return undefined;
+         }
+
+         const chunkIds = new Map<string, number>();
+
+         for (const { id, embeddingInput } of store.iterateEmbeddingInputs()) {
+            chunkIds.set(hashEmbeddingInput(embeddingInput), id);
+         }
+
+         return { store, chunkIds };
+      } catch(e) {
+         store.close();
+         throw e;
+      }
    }
 
    /**
-    * Generate embeddings for chunks.
+    * Generate embeddings for a batch of chunks.
     *
     * @param chunks - Chunks to embed
     * @param embedder - Embedder instance (implements IEmbedder)
-    * @param progress - Progress callback
-    * @returns Embedding result with embeddings and timing info
+    * @param reusable - Embeddings of a previous build, used instead of embedding matching
+    * chunks again
+    * @param signal - Signal that cancels the build, checked before each embedder call
+    * @param cached - Embeddings cached across builds, used for chunks the previous build
+    * doesn't have and added to with every embedding computed
+    * @returns Embedding result with embeddings and how many were reused or cached
+    * @throws BuildCancelledError if the build is cancelled
     */
    protected async _generateEmbeddings(
       chunks: Chunk[],
       embedder: IEmbedder,
-      progress: BuildProgressCallback
+      reusable?: ReusableEmbeddings,
+      signal?: AbortSignal,
+      cached?: CachedEmbeddings
    ): Promise<EmbeddingResult> {
-      progress({
-         phase: 'embedding',
-         progress: 40,
-         message: `Generating embeddings (${chunks.length} chunks)...`,
-         current: 0,
-         total: chunks.length,
-      });
+      // Use embeddingContent when available, fall back to raw content
+      const inputs = chunks.map((c) => { return c.embeddingContent ?? c.content; }),
+            hashes = inputs.map((input) => { return hashEmbeddingInput(input); });
 
-      const startTime = Date.now();
+      const baseIds = hashes.map((hash) => { return reusable?.chunkIds.get(hash); });
 
-      // Use embeddingContent when available, fall back to raw content
-      const contents = chunks.map((c) => { return c.embeddingContent ?? c.content; });
+      const baseEmbeddings = reusable?.store.getEmbeddings(baseIds.filter((id): id is number => {
+         return id !== undefined;
+      }));
+
+      const embeddings: Float32Array[] = new Array(chunks.length);
+
+      // Indexes of the chunks the base library doesn't have
+      const missing: number[] = [];
 
-      const batchSize = 50;
+      for (let i = 0; i < inputs.length; i++) {
+         const baseId = baseIds[i],
+               existing = baseId === undefined ? undefined : baseEmbeddings?.get(baseId);
 
-      const embeddings: Float32Array[] = [];
+         if (existing) {
+            embeddings[i] = existing;
+         } else {
+            missing.push(i);
+         }
+      }
 
-      for (let i = 0; i < contents.length; i += batchSize) {
-         const batch = contents.slice(i, i + batchSize);
+      const cachedEmbeddings = await cached?.cache.get(cached.namespace, missing.map((i) => { return hashes[i]; }));
 
-         const batchEmbeddings = await embedder.embedBatch(batch);
+      // Indexes of the chunks that still need to be embedded
+      const pending: number[] = [];
 
-         for (const emb of batchEmbeddings) {
-            embeddings.push(emb);
+      for (const i of missing) {
+         const existing = cachedEmbeddings?.get(hashes[i]);
+
+         if (existing) {
+            embeddings[i] = existing;
+         } else {
+            pending.push(i);
          }
+      }
 
-         // Progress from 40% to 85%
-         const progressPct = 40 + Math.round((i / contents.length) * 45);
+      const contents = pending.map((i) => { return inputs[i]; });
 
-         progress({
-            phase: 'embedding',
-            progress: progressPct,
-            message: `Generating embeddings (${Math.min(i + batchSize, contents.length)}/${contents.length})...`,
-            current: Math.min(i + batchSize, contents.length),
-            total: contents.length,
+      // Embedders that embed several batches at once are given that many per call
+      const callSize = EMBEDDING_BATCH_SIZE * (embedder.concurrency ?? 1);
+
+      for (let i = 0; i < contents.length; i += callSize) {
+         throwIfCancelled(signal);
+
+         const batch = contents.slice(i, i + callSize);
+
+         const batchEmbeddings = embedder.embedDocuments
+            ? await embedder.embedDocuments(batch)
+            : await embedder.embedBatch(batch);
+
+         batchEmbeddings.forEach((emb, j) => {
+            embeddings[pending[i + j]] = emb;
          });
-      }
 
-      const duration = (Date.now() - startTime) / 1000;
+         await cached?.cache.set(cached.namespace, batchEmbeddings.map((embedding, j) => {
+            return { hash: hashes[pending[i + j]], embedding };
+         }));
+      }
 
       return {
          embeddings,
-         duration,
-         chunksPerSecond: Math.round(chunks.length / duration),
+         reused: chunks.length - missing.length,
+         cached: missing.length - pending.length,
+         computed: pending.length,
       };
    }
 
    /**
-    * Create the library database file.
+    * Create the metadata of a library once all of its chunks have been written.
     *
     * @param options - Options for creating the library
+    * @param summary - Totals for the chunks and documents written
+    * @param embedding - Embedding model that produced the embeddings
     * @returns Library metadata
     */
-   protected async _createLibrary(options: CreateLibraryOptions): Promise<LibraryMetadata> {
-      const {
-         outputPath,
-         chunks,
-         embeddings,
-         libraryName,
-         libraryVersion,
-         chunkSize,
-         chunkOverlap,
-         provenance,
-         buildOptions: opts,
-      } = options;
-
-      const store = new VectorStore(outputPath);
-
-      store.initialize();
-      store.addChunks(chunks, embeddings);
-
-      // Calculate content hash
-      const allContent = chunks.map((c) => { return c.content; }).join('');
-
-      const contentHash = createHash('sha256').update(allContent).digest('hex');
-
-      // Set schema version
-      store.setMeta('schema_version', String(CURRENT_SCHEMA_VERSION));
+   protected _createMetadata(
+      options: CreateLibraryOptions,
+      summary: LibrarySummary,
+      embedding: LibraryMetadata['embedding']
+   ): LibraryMetadata {
+      const { libraryName, libraryVersion, chunkSize, chunkOverlap, sources, buildOptions: opts } = options,
+            contentVersions = summary.contentVersions;
 
-      // Build metadata
-      const metadata: LibraryMetadata = {
+      return {
          name: libraryName,
          version: libraryVersion,
          schemaVersion: CURRENT_SCHEMA_VERSION,
-         contentVersion: opts.contentVersion,
+         contentVersion: opts.contentVersion ?? contentVersions[0],
+         contentVersions: contentVersions.length > 0 ? contentVersions : undefined,
          description: opts.description,
          agentDescription: opts.agentDescription,
          exampleQueries: opts.exampleQueries,
@@ -698,28 +1001,22 @@ export class Builder {
          textLanguages: opts.textLanguages,
          frameworks: opts.frameworks,
          createdAt: new Date().toISOString(),
-         embedding: {
-            model: 'Xenova/bge-small-en-v1.5',
-            dimensions: 384,
-         },
+         embedding,
          chunking: {
-            strategy: opts.noAstChunking ? 'recursive' : 'ast+recursive',
+            strategy: opts.noAstChunking ? 'sections+recursive' : 'ast+sections+recursive',
             chunkSize,
             chunkOverlap,
+            childChunkSize: opts.childChunkSize,
          },
          stats: {
-            chunkCount: chunks.length,
-            sourceCount: new Set(chunks.map((c) => { return c.metadata.sourceFile; })).size,
+            chunkCount: summary.chunkCount,
+            sourceCount: summary.documentCount,
             fileSize: 0,
          },
-         contentHash: `sha256:${contentHash}`,
-         source: provenance,
+         contentHash: summary.contentHash,
+         source: sources.length === 1 ? sources[0] : undefined,
+         sources: sources.length > 1 ? sources : undefined,
       };
-
-      store.setMetadata(metadata);
-      store.close();
-
-      return metadata;
    }
 
    /**
@@ -752,86 +1049,410 @@ export class Builder {
    }
 
    /**
-    * Chunk source files using AST chunking for supported files, falling back to text
-    * chunking.
+    * Build a library from one or more sources.
     */
-   private async _chunkSourceFiles(
-      files: { relativePath: string; content: string }[],
-      textChunker: Chunker,
-      codeChunker: CodeChunker | null
-   ): Promise<Chunk[]> {
-      const allChunks: Chunk[] = [];
-
-      for (const file of files) {
-         try {
-            let chunks: Chunk[] | null = null;
+   private async _buildSources(
+      sources: BuildSource[],
+      opts: BuildOptions,
+      onProgress?: BuildProgressCallback
+   ): Promise<BuildResult> {
+      const progress = onProgress ?? ((): void => {});
 
-            // Try AST chunking first for supported files
-            if (codeChunker && CodeChunker.isSupported(file.relativePath)) {
-               chunks = await codeChunker.tryChunkText(file.content, file.relativePath);
-            }
+      const gitSource = new GitSource();
 
-            // Fall back to text chunking
-            if (!chunks) {
-               chunks = await textChunker.chunkText(file.content, file.relativePath);
-            }
+      const resolvedSources: ResolvedSource[] = [];
 
-            allChunks.push(...chunks);
-         } catch(_e) {
-            // Skip files that can't be chunked
-            continue;
+      try {
+         // Phase 1: Resolve sources
+         progress({ phase: 'initializing', progress: 5, message: 'Initializing...' });
+
+         for (const buildSource of sources) {
+            throwIfCancelled(opts.signal);
+            resolvedSources.push(await this._resolveBuildSource(buildSource, opts, gitSource, progress));
          }
-      }
 
-      return allChunks;
+         throwIfCancelled(opts.signal);
+
+         // Derive library name and version
+         const libraryName = opts.name || this._deriveLibraryName(sources[0], resolvedSources[0]);
+
+         const libraryVersion = opts.version || '0.1.0';
+
+         // Resolve output path
+         const outputPath = await this._resolveOutputPath(opts.output, libraryName, libraryVersion);
+
+         // Phase 2: Chunk source files in batches, as they are embedded
+         progress({ phase: 'chunking', progress: 30, message: 'Chunking source files...' });
+
+         const chunkSize = opts.chunkSize ?? 1000,
+               chunkOverlap = opts.chunkOverlap ?? 100,
+               readBatch = await this._createBatchReader(resolvedSources, opts, chunkSize, chunkOverlap);
+
+         const result = await this._buildLibrary(readBatch, {
+            outputPath,
+            libraryName,
+            libraryVersion,
+            chunkSize,
+            chunkOverlap,
+            sources: resolvedSources.map((resolved) => { return resolved.provenance; }),
+            buildSources: sources,
+            buildOptions: opts,
+         }, progress);
+
+         const gitResult = resolvedSources.length === 1 ? resolvedSources[0].gitResult : undefined;
+
+         if (gitResult) {
+            result.git = {
+               commitHash: gitResult.commitHash,
+               ref: gitResult.ref,
+               detectedLicense: gitResult.detectedLicense,
+            };
+         }
+
+         return result;
+      } finally {
+         // Clean up git temp directories
+         for (const resolved of resolvedSources) {
+            if (resolved.gitResult?.tempDir) {
+               await gitSource.cleanup(resolved.gitResult.tempDir);
+            }
+         }
+      }
    }
 
    /**
-    * Re-chunk code files in an existing chunk array using AST chunking.
-    * Groups chunks by source file, re-chunks supported files, and merges results.
+    * Embed the batches of chunks of a build and write them to the library.
     */
-   private async _enhanceChunksWithAst(
-      chunks: Chunk[],
-      codeChunker: CodeChunker
-   ): Promise<Chunk[]> {
-      // Group chunks by source file
-      const chunksByFile = new Map<string, Chunk[]>();
+   private async _buildLibrary(
+      readBatch: BatchReader,
+      options: CreateLibraryOptions,
+      progress: BuildProgressCallback
+   ): Promise<BuildResult> {
+      const signal = options.buildOptions.signal;
 
-      for (const chunk of chunks) {
-         const file = chunk.metadata.sourceFile,
-               existing = chunksByFile.get(file) ?? [];
+      // Chunk the first batch BEFORE loading the model
+      // This ensures we fail fast on empty directories without loading the model
+      const first = await readBatch();
 
-         existing.push(chunk);
-         chunksByFile.set(file, existing);
+      if (!first) {
+         throw new Error('No content found to index. Check your source path and include/exclude patterns.');
       }
 
-      const result: Chunk[] = [];
+      throwIfCancelled(signal);
+
+      // Phase 3: Initialize embedder (only after we know we have content)
+      progress({ phase: 'loading-model', progress: 20, message: 'Loading embedding model...' });
+
+      const embedder = this._config.embedder ?? new Embedder();
+
+      const disposeEmbedder = !this._config.embedder;
+
+      try {
+         await embedder.initialize();
+         throwIfCancelled(signal);
+
+         const reusable = options.buildOptions.base
+            ? await this._loadBaseEmbeddings(options.buildOptions.base, embedder)
+            : undefined;
+
+         const writer = new LibraryWriter(options.outputPath, this._fingerprintBuild(options, embedder)),
+               cached = this._getCachedEmbeddings(embedder);
+
+         try {
+            const resumedChunks = options.buildOptions.resume ? await writer.resume() : 0;
+
+            if (resumedChunks > 0) {
+               progress({
+                  phase: 'embedding',
+                  progress: 40,
+                  message: `Resuming the interrupted build (${resumedChunks} chunks already embedded)...`,
+               });
+            }
 
-      for (const [ file, fileChunks ] of chunksByFile) {
-         // If file supports AST chunking, reconstruct content and re-chunk
-         if (CodeChunker.isSupported(file)) {
-            // Reconstruct file content from chunks (sorted by line number)
-            const sortedChunks = [ ...fileChunks ].sort((a, b) => {
-               return (a.metadata.startLine ?? 0) - (b.metadata.startLine ?? 0);
+            // Phase 4: Generate embeddings, reusing any from the base library, and write
+            // each batch as soon as it is embedded
+            const totals = await this._writeBatches(readBatch, first, { embedder, writer, reusable, cached, progress, signal });
+
+            throwIfCancelled(signal);
+
+            // Phase 5: Finish the library database
+            progress({ phase: 'creating-database', progress: 90, message: 'Creating library database...' });
+
+            const summary = writer.summarize();
+
+            const metadata = this._createMetadata(options, summary, {
+               model: embedder.model ?? DEFAULT_EMBEDDING_MODEL,
+               dimensions: embedder.dimensions,
+               quantization: embedder.quantization,
+               provider: embedder.provider,
+               url: embedder instanceof HttpEmbedder ? embedder.url : undefined,
+               prefixProfile: embedder.prefixProfile ?? DEFAULT_PREFIX_PROFILE,
             });
 
-            const content = sortedChunks.map((c) => { return c.content; }).join('\n');
+            await writer.finish(metadata);
 
-            const astChunks = await codeChunker.tryChunkText(content, file);
+            // Get final file size
+            const fileStats = await fs.stat(options.outputPath);
 
-            if (astChunks) {
-               result.push(...astChunks);
+            progress({ phase: 'complete', progress: 100, message: 'Complete' });
+
+            return {
+               outputPath: path.resolve(options.outputPath),
+               metadata,
+               stats: {
+                  chunkCount: summary.chunkCount,
+                  sourceCount: summary.documentCount,
+                  fileSize: fileStats.size,
+                  embedDuration: totals.duration,
+                  chunksPerSecond: Math.round(summary.chunkCount / totals.duration),
+                  embeddingsReused: totals.reused,
+                  embeddingsCached: totals.cached,
+                  embeddingsComputed: totals.computed,
+                  embeddingsResumed: totals.resumed,
+               },
+            };
+         } catch(e) {
+            if (e instanceof BuildCancelledError) {
+               await writer.abort();
             } else {
-               // AST chunking failed, keep original chunks
-               result.push(...fileChunks);
+               // Keep what was written, so that the build can be resumed
+               await writer.close();
             }
+            throw e;
+         } finally {
+            reusable?.store.close();
+         }
+      } finally {
+         if (disposeEmbedder) {
+            await embedder.dispose();
+         }
+      }
+   }
+
+   /**
+    * Embed each batch of chunks and write it to the library, reporting progress through
+    * the source files.
+    *
+    * @param readBatch - Reads the batches still to be read
+    * @param first - The batch already read
+    * @param context - What the batches are embedded with and written to
+    * @returns Number of embeddings reused, cached, computed, and kept from an interrupted
+    * build, and the time spent embedding in seconds
+    */
+   private async _writeBatches(
+      readBatch: BatchReader,
+      first: SourceBatch,
+      context: BatchWriteContext
+   ): Promise<{ reused: number; cached: number; computed: number; resumed: number; duration: number }> {
+      const { embedder, writer, reusable, cached, progress, signal } = context;
+
+      let reused = 0,
+          cachedCount = 0,
+          computed = 0,
+          resumed = 0,
+          duration = 0;
+
+      for (let batch: SourceBatch | undefined = first; batch; batch = await readBatch()) {
+         throwIfCancelled(signal);
+
+         if (writer.isResuming) {
+            // Already written by the interrupted build
+            writer.skip(batch);
+            resumed += batch.chunks.length;
          } else {
-            // Keep original chunks for non-code files
-            result.push(...fileChunks);
+            const startTime = Date.now(),
+                  result = await this._generateEmbeddings(batch.chunks, embedder, reusable, signal, cached);
+
+            duration += (Date.now() - startTime) / 1000;
+            reused += result.reused;
+            cachedCount += result.cached;
+            computed += result.computed;
+
+            await writer.write(batch, result.embeddings);
          }
+
+         // Progress from 40% to 85%
+         progress({
+            phase: 'embedding',
+            progress: 40 + Math.round((batch.filesRead / batch.fileCount) * 45),
+            message: `Generating embeddings (${batch.filesRead}/${batch.fileCount} files, ${writer.chunkCount} chunks)...`,
+            current: batch.filesRead,
+            total: batch.fileCount,
+            chunkCount: writer.chunkCount,
+         });
+      }
+
+      return { reused, cached: cachedCount, computed, resumed, duration };
+   }
+
+   /**
+    * Get the embedding cache of this builder in the namespace of a build's embedder, if
+    * it has one and the embedder identifies its model.
+    */
+   private _getCachedEmbeddings(embedder: IEmbedder): CachedEmbeddings | undefined {
+      const cache = this._config.embeddingCache,
+            namespace = cache ? getEmbeddingCacheNamespace(embedder) : undefined;
+
+      return cache && namespace ? { cache, namespace } : undefined;
+   }
+
+   /**
+    * Resolve one source of a build. The source's own include/exclude patterns, git ref,
+    * and license are applied on top of the build options.
+    */
+   private async _resolveBuildSource(
+      buildSource: BuildSource,
+      opts: BuildOptions,
+      gitSource: GitSource,
+      progress: BuildProgressCallback
+   ): Promise<ResolvedSource> {
+      const resolved = await this._resolveSource(buildSource.source, {
+         ...opts,
+         include: buildSource.include ?? opts.include,
+         exclude: buildSource.exclude ? [ ...(opts.exclude ?? []), ...buildSource.exclude ] : opts.exclude,
+         gitRef: buildSource.ref ?? opts.gitRef,
+         license: buildSource.license ?? opts.license,
+      }, gitSource, progress);
+
+      const contentVersion = buildSource.contentVersion ?? opts.contentVersion;
+
+      if (contentVersion) {
+         resolved.provenance = { ...resolved.provenance, contentVersion };
+      }
+
+      const prefix = buildSource.prefix;
+
+      if (prefix && resolved.gitResult) {
+         resolved.gitResult.files = resolved.gitResult.files.map((file) => {
+            return { ...file, relativePath: path.posix.join(prefix, file.relativePath) };
+         });
+      }
+
+      return resolved;
+   }
+
+   /**
+    * Derive a library name from the first source of a build.
+    */
+   private _deriveLibraryName(buildSource: BuildSource, resolved: ResolvedSource): string {
+      if (resolved.isGit) {
+         return deriveGitLibraryName(parseGitUrl(buildSource.source).repoUrl);
+      }
+
+      return path.basename(resolved.sourcePath);
+   }
+
+   /**
+    * Create a reader for the chunks of every source of a build, which reads and chunks
+    * files as it is called, in batches of about CHUNK_BATCH_SIZE chunks. Only one batch
+    * is held in memory at a time. A batch never spans two sources, since each source can
+    * have its own content version.
+    *
+    * @returns Function that reads the next batch, or undefined once every file is read.
+    * It throws if two sources contain documents with the same path.
+    */
+   private async _createBatchReader(
+      resolvedSources: ResolvedSource[],
+      opts: BuildOptions,
+      chunkSize: number,
+      chunkOverlap: number
+   ): Promise<BatchReader> {
+      const codeChunker = opts.noAstChunking
+         ? null
+         : new CodeChunker({ maxChunkSize: chunkSize, contextMode: opts.contextMode ?? 'full' });
+
+      const chunkers: DocumentChunkers = {
+         textChunker: new Chunker({ chunkSize, chunkOverlap }),
+         codeChunker,
+         childChunker: this._createChildChunker(opts.childChunkSize, chunkSize, chunkOverlap),
+         licenseDetector: new LicenseDetector(),
+      };
+
+      const sourceFiles: SourceDocumentFile[][] = [];
+
+      for (const resolved of resolvedSources) {
+         sourceFiles.push(await this._listSourceFiles(resolved, opts, chunkers.textChunker));
+      }
+
+      const fileCount = sourceFiles.reduce((count, files) => { return count + files.length; }, 0),
+            seenPaths = new Set<string>();
+
+      let sourceIndex = 0,
+          fileIndex = 0,
+          filesRead = 0;
+
+      return async () => {
+         while (sourceIndex < resolvedSources.length) {
+            const resolved = resolvedSources[sourceIndex],
+                  files = sourceFiles[sourceIndex],
+                  batch: ChunkBatch = { chunks: [], documents: [], contentVersion: resolved.provenance.contentVersion };
+
+            while (fileIndex < files.length && batch.chunks.length < CHUNK_BATCH_SIZE) {
+               const chunked = await this._chunkDocument(files[fileIndex], resolved, chunkers);
+
+               fileIndex += 1;
+               filesRead += 1;
+
+               if (chunked) {
+                  this._checkDocumentPath(chunked.document, resolved, seenPaths);
+                  batch.chunks.push(...chunked.chunks);
+                  batch.documents.push(chunked.document);
+               }
+            }
+
+            if (fileIndex >= files.length) {
+               sourceIndex += 1;
+               fileIndex = 0;
+            }
+
+            if (batch.chunks.length > 0) {
+               return { ...batch, filesRead, fileCount };
+            }
+         }
+
+         return undefined;
+      };
+   }
+
+   /**
+    * Create the chunker that splits chunks into children for small-to-big retrieval,
+    * with the same proportion of overlap as the chunks themselves.
+    *
+    * @returns The chunker, or null if chunks aren't split into children
+    * @throws Error if the children would not be smaller than the chunks
+    */
+   private _createChildChunker(childChunkSize: number | undefined, chunkSize: number, chunkOverlap: number): Chunker | null {
+      if (childChunkSize === undefined) {
+         return null;
+      }
+
+      if (!Number.isInteger(childChunkSize) || childChunkSize < 1 || childChunkSize >= chunkSize) {
+         throw new Error(`Child chunk size must be a positive integer smaller than the chunk size (${chunkSize})`);
+      }
+
+      return new Chunker({
+         chunkSize: childChunkSize,
+         chunkOverlap: Math.floor(chunkOverlap * (childChunkSize / chunkSize)),
+      });
+   }
+
+   /**
+    * Check that no earlier source of a build had a document with the same path and
+    * content version, and remember this document's.
+    *
+    * @throws Error if two sources contain documents with the same path
+    */
+   private _checkDocumentPath(document: NewSourceDocument, resolved: ResolvedSource, seenPaths: Set<string>): void {
+      const key = `${document.contentVersion ?? ''}\0${document.path}`;
+
+      if (seenPaths.has(key)) {
+         throw new Error(
+            `"${document.path}" is in more than one source (${resolved.provenance.url ?? resolved.sourcePath}). ` +
+            'Set a "prefix" on git sources to keep their paths apart.'
+         );
       }
 
-      return result;
+      seenPaths.add(key);
    }
 
 }
@@ -12,6 +12,7 @@ import {
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import fg from 'fast-glob';
+import { MarkdownChunker } from './markdown-chunker.ts';
 import type { SourceFile } from './sources/files.ts';
 
 /**
@@ -68,12 +69,24 @@ export interface ChunkMetadata {
    endLine?: number;
    language?: string;
    codeContext?: CodeContext;
+
+   /** Headings of the sections the chunk is in, e.g. "Guide > Hooks > useEffect" */
+   breadcrumb?: string;
+
+   /** YAML frontmatter of the document the chunk was cut from */
+   frontmatter?: Record<string, unknown>;
 }
 
 export interface Chunk {
    content: string;
    embeddingContent?: string;
    metadata: ChunkMetadata;
+
+   /**
+    * Larger chunk this one was cut from, such as its whole section or AST entity.
+    * Searches with `returnParents` match this chunk but return its parent.
+    */
+   parent?: Chunk;
 }
 
 export interface ChunkerConfig {
@@ -81,6 +94,12 @@ export interface ChunkerConfig {
    chunkOverlap?: number;
 }
 
+export interface DirectoryOptions {
+   patterns?: string[];
+   ignore?: string[];
+   useDefaultIgnore?: boolean;
+}
+
 /**
  * Map of file extensions to LangChain splitter language identifiers
  */
@@ -150,12 +169,14 @@ const DEFAULT_CHUNK_OVERLAP = 200;
 export class Chunker {
 
    private readonly _config: Required<ChunkerConfig>;
+   private readonly _markdownChunker: MarkdownChunker;
 
    public constructor(config: ChunkerConfig = {}) {
       this._config = {
          chunkSize: config.chunkSize ?? DEFAULT_CHUNK_SIZE,
          chunkOverlap: config.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP,
       };
+      this._markdownChunker = new MarkdownChunker(this._config);
    }
 
    /**
@@ -185,9 +206,14 @@ export class Chunker {
    }
 
    /**
-    * Chunk a single file's content.
+    * Chunk a single file's content. Markdown, MDX, and reStructuredText documents are
+    * split along their sections (see `MarkdownChunker`).
     */
    public async chunkText(content: string, filePath: string): Promise<Chunk[]> {
+      if (MarkdownChunker.isSupported(filePath)) {
+         return this._markdownChunker.chunkText(content, filePath);
+      }
+
       const ext = path.extname(filePath).toLowerCase(),
             language = EXTENSION_TO_LANGUAGE[ext],
             splitter = await this._createSplitter(language);
@@ -224,6 +250,58 @@ export class Chunker {
       return this.chunkText(content, filePath);
    }
 
+   /**
+    * Split chunks into child chunks of this chunker's size for small-to-big retrieval.
+    * Each child links to the chunk it was cut from as its `parent`, and keeps its
+    * metadata and the context its embedding input was prefixed with. Chunks that already
+    * fit are kept whole, without a parent.
+    *
+    * @param parents - Chunks to split, such as document sections or AST entities
+    * @returns The child chunks, in order
+    */
+   public async splitIntoChildren(parents: Chunk[]): Promise<Chunk[]> {
+      const splitter = await this._createSplitter(),
+            children: Chunk[] = [];
+
+      for (const parent of parents) {
+         if (parent.content.length <= this._config.chunkSize) {
+            children.push(parent);
+            continue;
+         }
+
+         // Context the parent's embedding input starts with, such as its breadcrumb
+         const context = parent.embeddingContent?.endsWith(parent.content)
+            ? parent.embeddingContent.slice(0, parent.embeddingContent.length - parent.content.length)
+            : undefined;
+
+         let offset = 0;
+
+         for (const content of await splitter.splitText(parent.content)) {
+            const index = parent.content.indexOf(content, offset);
+
+            let startLine: number | undefined;
+
+            if (index !== -1) {
+               offset = index + 1;
+               startLine = this._offsetLine(parent, index);
+            }
+
+            children.push({
+               content,
+               embeddingContent: context ? `${context}${content}` : undefined,
+               metadata: {
+                  ...parent.metadata,
+                  startLine,
+                  endLine: startLine === undefined ? undefined : startLine + content.split('\n').length - 1,
+               },
+               parent,
+            });
+         }
+      }
+
+      return children;
+   }
+
    /**
     * Chunk an array of SourceFile objects.
     *
@@ -248,31 +326,35 @@ export class Chunker {
    }
 
    /**
-    * Chunk all matching files in a directory.
+    * List the files in a directory that `chunkDirectory` would chunk, as absolute paths.
     *
     * @param options.patterns - Glob patterns to include (defaults to common code/doc)
     * @param options.ignore - Additional glob patterns to ignore (merged with defaults)
     * @param options.useDefaultIgnore - Whether to use default ignores (default: true)
     */
-   public async chunkDirectory(
-      dirPath: string,
-      options: {
-         patterns?: string[];
-         ignore?: string[];
-         useDefaultIgnore?: boolean;
-      } = {}
-   ): Promise<Chunk[]> {
+   public async listFiles(dirPath: string, options: DirectoryOptions = {}): Promise<string[]> {
       const patterns = options.patterns ?? this._getDefaultPatterns(),
             useDefaults = options.useDefaultIgnore ?? true,
             defaultIgnore = useDefaults ? this._getDefaultIgnore() : [],
             ignore = [ ...defaultIgnore, ...(options.ignore ?? []) ];
 
-      const files = await fg(patterns, {
+      return fg(patterns, {
          cwd: dirPath,
          absolute: true,
          ignore,
          onlyFiles: true,
       });
+   }
+
+   /**
+    * Chunk all matching files in a directory.
+    *
+    * @param options.patterns - Glob patterns to include (defaults to common code/doc)
+    * @param options.ignore - Additional glob patterns to ignore (merged with defaults)
+    * @param options.useDefaultIgnore - Whether to use default ignores (default: true)
+    */
+   public async chunkDirectory(dirPath: string, options: DirectoryOptions = {}): Promise<Chunk[]> {
+      const files = await this.listFiles(dirPath, options);
 
       const allChunks: Chunk[] = [];
 
@@ -324,6 +406,17 @@ export class Chunker {
       return lineNumber;
    }
 
+   /**
+    * Get the line of a chunk's source file that an offset into its content is on.
+    */
+   private _offsetLine(chunk: Chunk, offset: number): number | undefined {
+      if (chunk.metadata.startLine === undefined) {
+         return undefined;
+      }
+
+      return chunk.metadata.startLine + chunk.content.slice(0, offset).split('\n').length - 1;
+   }
+
    private _detectLanguageFromExtension(ext: string): string | undefined {
       if (TEXT_EXTENSIONS.has(ext)) {
          return 'text';
@@ -8,6 +8,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { createHash } from 'crypto';
 import { getDefaultCollectionConfigDir } from './config.ts';
+import { matchContentVersions } from './content-version.ts';
 
 export interface Collection {
 
@@ -371,8 +372,10 @@ export class CollectionClient {
       let version = lib.versions[0]; // Default to latest
 
       if (options.contentVersion) {
+         const matched = this._matchContentVersions(lib.versions, options.contentVersion);
+
          const matchingVersion = lib.versions.find((v) => {
-            return v.contentVersion === options.contentVersion;
+            return v.contentVersion !== undefined && matched.includes(v.contentVersion);
          });
 
          if (!matchingVersion) {
@@ -398,6 +401,18 @@ export class CollectionClient {
       };
    }
 
+   /**
+    * Find the content versions of a library's published versions that a content version
+    * filter (exact, "latest", or a range) matches.
+    */
+   private _matchContentVersions(versions: CollectionLibraryVersion[], filter: string): string[] {
+      const contentVersions = versions
+         .map((v) => { return v.contentVersion; })
+         .filter((v): v is string => { return v !== undefined; });
+
+      return matchContentVersions(filter, contentVersions, versions[0]?.contentVersionType);
+   }
+
    private async _saveConfig(): Promise<void> {
       const configPath = path.join(this._configDir, 'collections.json');
 
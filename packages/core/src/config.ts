@@ -11,6 +11,7 @@
  *     collections.json - Collection configuration
  *     cache/         - Cached collection indexes
  *     models/        - Downloaded ML models (shared across all instances)
+ *     embeddings/    - Embeddings cached across builds (when the cache is enabled)
  *
  * Environment variables:
  *   LIBRAGEN_HOME - Override the base directory for all libragen data
@@ -117,6 +118,13 @@ export function getModelCacheDir(): string {
    return path.join(getLibragenHome(), 'models');
 }
 
+/**
+ * Get the directory of the embedding cache shared across builds.
+ */
+export function getEmbeddingCacheDir(): string {
+   return path.join(getLibragenHome(), 'embeddings');
+}
+
 /**
  * Detect a project-local `.libragen/libraries` directory.
  *
@@ -157,3 +165,28 @@ export async function hasProjectLibraryDir(cwd?: string): Promise<boolean> {
       return false;
    }
 }
+
+/**
+ * Get the library directories to search for a set of project directories.
+ *
+ * Includes each project's `.libragen/libraries` directory that exists, in the order
+ * given, followed by the global library directory. Project libraries therefore take
+ * priority over global libraries with the same name.
+ *
+ * @param projectDirs - Project (workspace root) directories to check
+ */
+export async function discoverLibraryPaths(projectDirs: string[]): Promise<string[]> {
+   const paths: string[] = [];
+
+   for (const dir of projectDirs) {
+      const projectLibDir = detectProjectLibraryDir(dir);
+
+      if (projectLibDir && await hasProjectLibraryDir(dir)) {
+         paths.push(projectLibDir);
+      }
+   }
+
+   paths.push(getDefaultLibraryDir());
+
+   return paths;
+}
@@ -0,0 +1,182 @@
+/**
+ * Content versions - Naming, ordering, and matching the versions of content stored in a
+ * library
+ *
+ * A library can hold several versions of the same content, e.g. one per git tag. Each
+ * chunk is stored with the version it belongs to, and versions are ordered by their
+ * numeric parts so that "10.0.0" is newer than "9.2.1".
+ *
+ * Content version filters can name an exact version, "latest", or a range interpreted by
+ * the library's `contentVersionType`: semver ranges such as "^18" or ">=5.0 <6", and
+ * date ranges such as ">=2024-01 <2024-07".
+ */
+
+import semver from 'semver';
+import type { LibraryMetadata } from './types.ts';
+
+export type ContentVersionType = NonNullable<LibraryMetadata['contentVersionType']>;
+
+/** Content version filter that matches the newest version */
+export const LATEST_CONTENT_VERSION = 'latest';
+
+const VERSION_PREFIX = /^v(?=\d)/i;
+
+const REF_PREFIX = /^refs\/(heads|tags)\//;
+
+const DATE_VERSION = /^\d{4}-\d{2}(-\d{2})?($|T)/;
+
+const DATE_COMPARATOR = /^(<=|>=|<|>|=)?(\d{4}(?:-\d{2}){0,2})$/;
+
+/**
+ * Parse a content version as semver, accepting versions with missing parts such as
+ * "1.74" or "v18".
+ */
+function toSemver(version: string): string | null {
+   return semver.valid(version, { loose: true }) ?? semver.coerce(version)?.version ?? null;
+}
+
+/**
+ * Check whether a date version satisfies one comparator of a date range. Versions are
+ * compared at the precision of the comparator's date, so "<=2024-05" includes all of May.
+ */
+function satisfiesDateComparator(version: string, comparator: string): boolean {
+   const match = DATE_COMPARATOR.exec(comparator);
+
+   if (!match) {
+      return false;
+   }
+
+   const operator = match[1] ?? '=',
+         bound = match[2],
+         value = version.substring(0, bound.length);
+
+   switch (operator) {
+      case '<': {
+         return value < bound;
+      }
+      case '<=': {
+         return value <= bound;
+      }
+      case '>': {
+         return value > bound;
+      }
+      case '>=': {
+         return value >= bound;
+      }
+      default: {
+         return value === bound;
+      }
+   }
+}
+
+function matchSemverRange(range: string, versions: string[]): string[] {
+   if (!semver.validRange(range, { loose: true })) {
+      return [];
+   }
+
+   return versions.filter((version) => {
+      const parsed = toSemver(version);
+
+      return parsed !== null && semver.satisfies(parsed, range, { loose: true });
+   });
+}
+
+function matchDateRange(range: string, versions: string[]): string[] {
+   const comparators = range.split(/\s+/);
+
+   return versions.filter((version) => {
+      return DATE_VERSION.test(version) && comparators.every((comparator) => {
+         return satisfiesDateComparator(version, comparator);
+      });
+   });
+}
+
+/**
+ * Derive the content version of a git ref: tag and branch names are used as they are,
+ * without a leading "v" (e.g. "v18.0.0" and "refs/tags/v18.0.0" both give "18.0.0").
+ *
+ * @param ref - Git branch, tag, or commit
+ */
+export function contentVersionFromRef(ref: string): string {
+   return ref.replace(REF_PREFIX, '').replace(VERSION_PREFIX, '');
+}
+
+/**
+ * Compare two content versions. Semver versions are compared by semver precedence, and
+ * anything else by comparing runs of digits as numbers, ignoring a leading "v". Returns
+ * a negative number if `a` is older than `b`, a positive number if it is newer, and 0 if
+ * they are the same version.
+ */
+export function compareContentVersions(a: string, b: string): number {
+   const semverA = semver.valid(a, { loose: true }),
+         semverB = semver.valid(b, { loose: true });
+
+   if (semverA && semverB) {
+      return semver.compare(semverA, semverB);
+   }
+
+   return a.replace(VERSION_PREFIX, '').localeCompare(b.replace(VERSION_PREFIX, ''), 'en', { numeric: true });
+}
+
+/**
+ * Sort content versions from newest to oldest, dropping duplicates.
+ */
+export function sortContentVersions(versions: Iterable<string>): string[] {
+   return [ ...new Set(versions) ].sort((a, b) => { return compareContentVersions(b, a); });
+}
+
+/**
+ * Work out how a set of content versions is versioned, for libraries that don't record
+ * their `contentVersionType`: ISO dates, semver, or unknown.
+ */
+export function inferContentVersionType(versions: string[]): ContentVersionType | undefined {
+   if (versions.length === 0) {
+      return undefined;
+   }
+
+   if (versions.every((version) => { return DATE_VERSION.test(version); })) {
+      return 'date';
+   }
+
+   if (versions.every((version) => { return toSemver(version) !== null; })) {
+      return 'semver';
+   }
+
+   return undefined;
+}
+
+/**
+ * Find the content versions matched by a content version filter. A filter matches an
+ * exact version if there is one, and otherwise is read as "latest" or as a range of the
+ * given (or inferred) version type. Versions of other types only match exactly.
+ *
+ * @param filter - Exact version, "latest", semver range, or date range
+ * @param versions - The content versions available
+ * @param type - How the versions are versioned (inferred from them if not given)
+ * @returns The matching versions, newest first
+ */
+export function matchContentVersions(filter: string, versions: string[], type?: ContentVersionType): string[] {
+   const wanted = filter.trim();
+
+   if (versions.includes(wanted)) {
+      return [ wanted ];
+   }
+
+   const sorted = sortContentVersions(versions);
+
+   if (wanted.toLowerCase() === LATEST_CONTENT_VERSION) {
+      return sorted.slice(0, 1);
+   }
+
+   const versionType = type ?? inferContentVersionType(sorted);
+
+   if (versionType === 'semver') {
+      return matchSemverRange(wanted, sorted);
+   }
+
+   if (versionType === 'date') {
+      return matchDateRange(wanted, sorted);
+   }
+
+   return [];
+}
@@ -13,6 +13,10 @@ import {
 } from '@huggingface/transformers';
 import { cpus } from 'os';
 import { getModelCacheDir } from './config.js';
+import { HttpEmbedder } from './http-embedder.ts';
+import { ParallelEmbedder } from './parallel-embedder.ts';
+import { DEFAULT_PREFIX_PROFILE, getModelPrefixProfile, getPrefixProfile } from './embedding-prefixes.ts';
+import type { LibraryMetadata } from './types.ts';
 
 
 export interface EmbedderConfig {
@@ -27,6 +31,12 @@ export interface EmbedderConfig {
     * Set to 1 to disable multi-threading.
     */
    numThreads?: number;
+
+   /**
+    * Instruction prefix profile applied by `embedQuery` and `embedDocuments` (e.g.,
+    * "bge", "e5", "nomic", or "none"). Defaults to the model's own profile.
+    */
+   prefixProfile?: string;
 }
 
 export interface EmbedProgress {
@@ -40,6 +50,45 @@ export type ProgressCallback = (progress: EmbedProgress) => void;
 
 export type ModelLoadCallback = (info: ProgressInfo) => void;
 
+/**
+ * Built-in embedding providers: local Transformers.js models, or an OpenAI-compatible
+ * HTTP endpoint.
+ */
+export type EmbeddingProvider = 'transformers' | 'http';
+
+/**
+ * Options for creating one of the built-in embedders with `createEmbedder`.
+ */
+export interface EmbedderOptions {
+
+   /** Embedding provider (default: 'transformers') */
+   provider?: EmbeddingProvider;
+
+   /**
+    * Model name (required for 'http'; defaults to Xenova/bge-small-en-v1.5 for
+    * 'transformers')
+    */
+   model?: string;
+
+   /** Base URL of the embeddings API (required for 'http') */
+   url?: string;
+
+   /** API key for the embeddings API ('http' only) */
+   apiKey?: string;
+
+   /** Embedding dimensions, detected from the endpoint if omitted ('http' only) */
+   dimensions?: number;
+
+   /** Instruction prefix profile (defaults to the profile the model was trained with) */
+   prefixProfile?: string;
+
+   /**
+    * Number of worker threads to embed with, each loading its own copy of the model
+    * ('transformers' only; default: 1, which embeds on the calling thread)
+    */
+   workers?: number;
+}
+
 /**
  * Interface for embedding providers.
  * Implement this interface to provide custom embedding logic.
@@ -51,6 +100,8 @@ export type ModelLoadCallback = (info: ProgressInfo) => void;
  *   async initialize() { }
  *   async embed(text: string) { return new Float32Array(1536); }
  *   async embedBatch(texts: string[]) { return texts.map(() => new Float32Array(1536)); }
+ *   async embedQuery(text: string) { return this.embed(text); }
+ *   async embedDocuments(texts: string[]) { return this.embedBatch(texts); }
  *   async dispose() { }
  * }
  *
@@ -64,6 +115,37 @@ export interface IEmbedder {
     */
    readonly dimensions: number;
 
+   /**
+    * Identifier of the embedding model (e.g., "Xenova/bge-small-en-v1.5"). Recorded in
+    * library metadata; incremental builds only reuse embeddings from the same model.
+    */
+   readonly model?: string;
+
+   /**
+    * Where embeddings come from (e.g., "transformers" for local models, "http" for a
+    * remote endpoint). Recorded in library metadata.
+    */
+   readonly provider?: string;
+
+   /**
+    * Name of the instruction prefix profile `embedQuery` and `embedDocuments` apply
+    * (e.g., "bge"). Recorded in library metadata so queries are embedded the way the
+    * library's documents were; absent means "none".
+    */
+   readonly prefixProfile?: string;
+
+   /**
+    * Precision the model runs at (e.g., "q8"), for local models that can run at several.
+    * Embeddings cached across builds are only shared between embedders at the same one.
+    */
+   readonly quantization?: string;
+
+   /**
+    * Number of batches the embedder embeds at the same time, e.g. in several worker
+    * threads. Builds pass it that many batches of chunks per call; absent means 1.
+    */
+   readonly concurrency?: number;
+
    /**
     * Initialize the embedder. Called before embedding operations.
     */
@@ -84,38 +166,97 @@ export interface IEmbedder {
     */
    embedBatch(texts: string[], onProgress?: ProgressCallback): Promise<Float32Array[]>;
 
+   /**
+    * Embed a search query, applying any query instruction the model expects. Falls back
+    * to `embed` when not implemented.
+    * @param text - Query to embed
+    * @returns Embedding vector as Float32Array
+    */
+   embedQuery?(text: string): Promise<Float32Array>;
+
+   /**
+    * Embed documents for storage, applying any document instruction the model expects.
+    * Falls back to `embedBatch` when not implemented.
+    * @param texts - Documents to embed
+    * @param onProgress - Optional progress callback
+    * @returns Array of embedding vectors
+    */
+   embedDocuments?(texts: string[], onProgress?: ProgressCallback): Promise<Float32Array[]>;
+
+   /**
+    * Count the tokens the model's tokenizer splits a text into, without special tokens.
+    * Token budgets fall back to an estimate from the text's length when not implemented.
+    * @param text - Text to count the tokens of
+    * @returns Number of tokens
+    */
+   countTokens?(text: string): Promise<number>;
+
    /**
     * Clean up resources. Called when embedding is complete.
     */
    dispose(): Promise<void>;
 }
 
+/**
+ * Error thrown when a query embedding can't be compared with a library's embeddings
+ * because they come from different models.
+ */
+export class EmbeddingModelMismatchError extends Error {
+
+   public readonly name = 'EmbeddingModelMismatchError';
+
+   public constructor(
+      message: string,
+      public readonly libraryModel: string,
+      public readonly queryModel: string | undefined
+   ) {
+      super(message);
+   }
+
+}
+
 const DEFAULT_MODEL = 'Xenova/bge-small-en-v1.5';
 
-const DEFAULT_QUANTIZATION = 'q8' as const;
+export const DEFAULT_QUANTIZATION = 'q8' as const;
 
 const DEFAULT_BATCH_SIZE = 32;
 
 export class Embedder implements IEmbedder {
 
+   public readonly provider = 'transformers';
+
    private _pipeline: FeatureExtractionPipeline | null = null;
    private _initPromise: Promise<void> | null = null;
    private readonly _config: Required<Omit<EmbedderConfig, 'cacheDir' | 'numThreads'>> & Pick<EmbedderConfig, 'cacheDir' | 'numThreads'>;
 
    public constructor(config: EmbedderConfig = {}) {
+      const model = config.model ?? DEFAULT_MODEL;
+
       this._config = {
-         model: config.model ?? DEFAULT_MODEL,
+         model,
          quantization: config.quantization ?? DEFAULT_QUANTIZATION,
          batchSize: config.batchSize ?? DEFAULT_BATCH_SIZE,
          cacheDir: config.cacheDir,
          numThreads: config.numThreads,
+         prefixProfile: config.prefixProfile ?? getModelPrefixProfile(model),
       };
+
+      // Fail on unknown profiles now rather than on the first embed
+      getPrefixProfile(this._config.prefixProfile);
    }
 
    public get model(): string {
       return this._config.model;
    }
 
+   public get prefixProfile(): string {
+      return this._config.prefixProfile;
+   }
+
+   public get quantization(): string {
+      return this._config.quantization;
+   }
+
    public get dimensions(): number {
       // BGE-small produces 384-dimensional embeddings
       if (this._config.model.includes('bge-small')) {
@@ -219,6 +360,35 @@ export class Embedder implements IEmbedder {
       return results;
    }
 
+   /**
+    * Embed a search query with the query prefix of this embedder's profile.
+    */
+   public async embedQuery(text: string): Promise<Float32Array> {
+      return this.embed(`${getPrefixProfile(this._config.prefixProfile).query}${text}`);
+   }
+
+   /**
+    * Embed documents with the document prefix of this embedder's profile.
+    */
+   public async embedDocuments(texts: string[], onProgress?: ProgressCallback): Promise<Float32Array[]> {
+      const prefix = getPrefixProfile(this._config.prefixProfile).document;
+
+      return this.embedBatch(texts.map((text) => { return `${prefix}${text}`; }), onProgress);
+   }
+
+   /**
+    * Count the tokens of a text with the model's tokenizer.
+    */
+   public async countTokens(text: string): Promise<number> {
+      await this.initialize();
+
+      if (!this._pipeline) {
+         throw new Error('Embedder not initialized');
+      }
+
+      return this._pipeline.tokenizer.encode(text, { add_special_tokens: false }).length;
+   }
+
    public isInitialized(): boolean {
       return this._pipeline !== null;
    }
@@ -288,3 +458,101 @@ export class Embedder implements IEmbedder {
    }
 
 }
+
+/**
+ * Create one of the built-in embedders.
+ *
+ * @example
+ * ```typescript
+ * const embedder = createEmbedder({
+ *   provider: 'http',
+ *   url: 'http://localhost:11434/v1',
+ *   model: 'nomic-embed-text',
+ * });
+ * ```
+ */
+export function createEmbedder(options: EmbedderOptions = {}): IEmbedder {
+   const workers = options.workers ?? 1;
+
+   if (options.provider === 'http') {
+      if (workers > 1) {
+         throw new Error('Embedding workers are only supported by the transformers embedder');
+      }
+
+      if (!options.url || !options.model) {
+         throw new Error('The http embedder requires a url and a model');
+      }
+
+      return new HttpEmbedder({
+         url: options.url,
+         model: options.model,
+         apiKey: options.apiKey,
+         dimensions: options.dimensions,
+         prefixProfile: options.prefixProfile,
+      });
+   }
+
+   if (workers > 1) {
+      return new ParallelEmbedder({ model: options.model, prefixProfile: options.prefixProfile, workers });
+   }
+
+   return new Embedder({ model: options.model, prefixProfile: options.prefixProfile });
+}
+
+/**
+ * Embedder options that reproduce the embedding model a library was built with, so
+ * queries are embedded into the same vector space as its chunks.
+ *
+ * @param embedding - The library's `embedding` metadata (libraries without it use the
+ * default local model). Libraries that don't record a prefix profile were embedded
+ * without prefixes.
+ * @param overrides - Connection settings that aren't stored in the library, or that
+ * differ on this machine (e.g., the API key or URL of an http endpoint)
+ */
+export function getLibraryEmbedderOptions(
+   embedding: LibraryMetadata['embedding'] | undefined,
+   overrides: Pick<EmbedderOptions, 'url' | 'apiKey'> = {}
+): EmbedderOptions {
+   if (!embedding) {
+      return { prefixProfile: DEFAULT_PREFIX_PROFILE };
+   }
+
+   if (embedding.provider === 'http') {
+      const url = overrides.url ?? embedding.url;
+
+      if (!url) {
+         throw new Error(
+            `Library was embedded with ${embedding.model} over http, but no embeddings API URL is known`
+         );
+      }
+
+      return {
+         provider: 'http',
+         model: embedding.model,
+         url,
+         apiKey: overrides.apiKey,
+         dimensions: embedding.dimensions,
+         prefixProfile: embedding.prefixProfile ?? DEFAULT_PREFIX_PROFILE,
+      };
+   }
+
+   return {
+      provider: 'transformers',
+      model: embedding.model,
+      prefixProfile: embedding.prefixProfile ?? DEFAULT_PREFIX_PROFILE,
+   };
+}
+
+/**
+ * Key identifying an embedding model, from a library's `embedding` metadata or from an
+ * embedder. Libraries with the same key can share query embeddings.
+ */
+export function getEmbeddingModelKey(
+   embedding: { model?: string; provider?: string; url?: string } | undefined
+): string {
+   const model = embedding?.model ?? DEFAULT_MODEL;
+
+   return embedding?.provider === 'http'
+      ? `http:${embedding.url ?? ''}:${model}`
+      : `transformers:${model}`;
+}
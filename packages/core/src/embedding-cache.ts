@@ -0,0 +1,385 @@
+/**
+ * Embedding cache - Embeddings shared across builds
+ *
+ * Stores every embedding a build computes, keyed by the embedding model and a hash of
+ * the text that was embedded, so that other builds embedding the same text (such as
+ * vendored docs or repeated READMEs) can reuse it. The cache is a SQLite database under
+ * the libragen home directory. It is kept under a size limit by evicting the embeddings
+ * that were least recently used.
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getEmbeddingCacheDir } from './config.ts';
+import { getEmbeddingModelKey } from './embedder.ts';
+import type { IEmbedder } from './embedder.ts';
+import { DEFAULT_PREFIX_PROFILE } from './embedding-prefixes.ts';
+
+const CACHE_FILE_NAME = 'embeddings.db';
+
+// SQLite keeps these next to a database in WAL mode until it is closed
+const SQLITE_SIDE_FILES = [ '-wal', '-shm' ];
+
+const DEFAULT_MAX_SIZE_BYTES = 1024 * 1024 * 1024;
+
+// Evictions free some room below the limit, so that builds don't evict on every batch
+const EVICTION_TARGET_RATIO = 0.9;
+
+// How long to wait for another build writing to the cache, in milliseconds
+const BUSY_TIMEOUT_MS = 5000;
+
+export interface EmbeddingCacheConfig {
+
+   /** Directory of the cache (default: `getEmbeddingCacheDir()`) */
+   dir?: string;
+
+   /** Total size of the embeddings kept, in bytes (default: 1 GiB) */
+   maxSizeBytes?: number;
+}
+
+/**
+ * An embedding to store in the cache.
+ */
+export interface CachedEmbedding {
+
+   /** SHA-256 of the text that was embedded */
+   hash: string;
+
+   /** The text's embedding */
+   embedding: Float32Array;
+}
+
+/**
+ * Totals for the embeddings of one model in the cache.
+ */
+export interface EmbeddingCacheModelStats {
+
+   /** Model, quantization, and prefix profile the embeddings were computed with */
+   namespace: string;
+
+   /** Number of embeddings */
+   entryCount: number;
+
+   /** Total size of the embeddings in bytes */
+   sizeBytes: number;
+}
+
+export interface EmbeddingCacheStats {
+
+   /** Path of the cache database */
+   path: string;
+
+   /** Number of embeddings */
+   entryCount: number;
+
+   /** Total size of the embeddings in bytes */
+   sizeBytes: number;
+
+   /** Size limit of the cache in bytes */
+   maxSizeBytes: number;
+
+   /** Totals per model, largest first */
+   models: EmbeddingCacheModelStats[];
+}
+
+export interface EmbeddingCachePruneOptions {
+
+   /** Evict the least recently used embeddings until the rest fit in this many bytes */
+   maxSizeBytes?: number;
+
+   /** Evict embeddings that haven't been used for this many milliseconds */
+   unusedForMs?: number;
+}
+
+/**
+ * Get the namespace an embedder's embeddings are cached in. Embeddings are only shared
+ * between embedders with the same model, quantization, and prefix profile.
+ *
+ * @returns The namespace, or undefined for embedders that don't identify their model
+ */
+export function getEmbeddingCacheNamespace(embedder: IEmbedder): string | undefined {
+   if (!embedder.model) {
+      return undefined;
+   }
+
+   const parts = [
+      getEmbeddingModelKey(embedder),
+      embedder.quantization ?? 'default',
+      embedder.prefixProfile ?? DEFAULT_PREFIX_PROFILE,
+      embedder.dimensions,
+   ];
+
+   return parts.join('|');
+}
+
+export class EmbeddingCache {
+
+   private readonly _path: string;
+   private readonly _maxSizeBytes: number;
+   private _db: Database.Database | undefined;
+   private _sizeBytes = 0;
+
+   public constructor(config: EmbeddingCacheConfig = {}) {
+      this._path = path.join(config.dir ?? getEmbeddingCacheDir(), CACHE_FILE_NAME);
+      this._maxSizeBytes = config.maxSizeBytes ?? DEFAULT_MAX_SIZE_BYTES;
+   }
+
+   /**
+    * Path of the cache database.
+    */
+   public get path(): string {
+      return this._path;
+   }
+
+   /**
+    * Size limit of the cache in bytes.
+    */
+   public get maxSizeBytes(): number {
+      return this._maxSizeBytes;
+   }
+
+   /**
+    * Get the cached embeddings of texts, marking them as used.
+    *
+    * @param namespace - Namespace of the embedder (see `getEmbeddingCacheNamespace`)
+    * @param hashes - SHA-256 of each text
+    * @returns Embeddings found, keyed by hash
+    */
+   public async get(namespace: string, hashes: string[]): Promise<Map<string, Float32Array>> {
+      const embeddings = new Map<string, Float32Array>();
+
+      if (hashes.length === 0) {
+         return embeddings;
+      }
+
+      const db = await this._open(),
+            placeholders = hashes.map(() => { return '?'; }).join(', ');
+
+      const rows = db
+         .prepare(`SELECT hash, embedding FROM embeddings WHERE namespace = ? AND hash IN (${placeholders})`)
+         .all(namespace, ...hashes) as Array<{ hash: string; embedding: Buffer }>;
+
+      for (const row of rows) {
+         // Copy so the vector doesn't depend on the alignment of the row buffer
+         embeddings.set(row.hash, new Float32Array(new Uint8Array(row.embedding).buffer));
+      }
+
+      if (rows.length > 0) {
+         db.prepare(`UPDATE embeddings SET last_used = ? WHERE namespace = ? AND hash IN (${placeholders})`)
+            .run(Date.now(), namespace, ...hashes);
+      }
+
+      return embeddings;
+   }
+
+   /**
+    * Store embeddings, evicting the least recently used ones if the cache grows past its
+    * size limit.
+    *
+    * @param namespace - Namespace of the embedder (see `getEmbeddingCacheNamespace`)
+    * @param entries - Embeddings to store
+    */
+   public async set(namespace: string, entries: CachedEmbedding[]): Promise<void> {
+      if (entries.length === 0) {
+         return;
+      }
+
+      const db = await this._open(),
+            now = Date.now();
+
+      const insert = db.prepare(`
+         INSERT OR IGNORE INTO embeddings (namespace, hash, embedding, size, last_used)
+         VALUES (?, ?, ?, ?, ?)
+      `);
+
+      db.transaction(() => {
+         for (const entry of entries) {
+            const embedding = Buffer.from(entry.embedding.buffer, entry.embedding.byteOffset, entry.embedding.byteLength),
+                  result = insert.run(namespace, entry.hash, embedding, embedding.length, now);
+
+            if (result.changes > 0) {
+               this._sizeBytes += embedding.length;
+            }
+         }
+      })();
+
+      if (this._sizeBytes > this._maxSizeBytes) {
+         // Other builds may have added or evicted embeddings in the meantime
+         this._sizeBytes = this._totalSize(db);
+
+         if (this._sizeBytes > this._maxSizeBytes) {
+            this._evict(db, Math.floor(this._maxSizeBytes * EVICTION_TARGET_RATIO));
+         }
+      }
+   }
+
+   /**
+    * Get the number and size of the cached embeddings.
+    */
+   public async stats(): Promise<EmbeddingCacheStats> {
+      let models: EmbeddingCacheModelStats[] = [];
+
+      if (await this._exists()) {
+         const db = await this._open();
+
+         models = db
+            .prepare(`
+               SELECT namespace, COUNT(*) AS entryCount, SUM(size) AS sizeBytes
+               FROM embeddings GROUP BY namespace ORDER BY sizeBytes DESC
+            `)
+            .all() as EmbeddingCacheModelStats[];
+      }
+
+      return {
+         path: this._path,
+         entryCount: models.reduce((sum, model) => { return sum + model.entryCount; }, 0),
+         sizeBytes: models.reduce((sum, model) => { return sum + model.sizeBytes; }, 0),
+         maxSizeBytes: this._maxSizeBytes,
+         models,
+      };
+   }
+
+   /**
+    * Evict embeddings that haven't been used for a while, or the least recently used
+    * ones until the rest fit in a given size.
+    *
+    * @returns Number of embeddings evicted
+    */
+   public async prune(options: EmbeddingCachePruneOptions): Promise<number> {
+      if (!await this._exists()) {
+         return 0;
+      }
+
+      const db = await this._open();
+
+      let evicted = 0;
+
+      if (options.unusedForMs !== undefined) {
+         evicted += db.prepare('DELETE FROM embeddings WHERE last_used < ?')
+            .run(Date.now() - options.unusedForMs)
+            .changes;
+      }
+
+      this._sizeBytes = this._totalSize(db);
+
+      if (options.maxSizeBytes !== undefined && this._sizeBytes > options.maxSizeBytes) {
+         evicted += this._evict(db, options.maxSizeBytes);
+      }
+
+      if (evicted > 0) {
+         // Give the space back to the file system
+         db.exec('VACUUM');
+      }
+
+      return evicted;
+   }
+
+   /**
+    * Delete every cached embedding, along with the cache database.
+    */
+   public async clear(): Promise<void> {
+      this.close();
+
+      for (const suffix of [ '', ...SQLITE_SIDE_FILES ]) {
+         await fs.rm(`${this._path}${suffix}`, { force: true });
+      }
+
+      this._sizeBytes = 0;
+   }
+
+   /**
+    * Close the cache database. It is opened again when next used.
+    */
+   public close(): void {
+      this._db?.close();
+      this._db = undefined;
+   }
+
+   private async _exists(): Promise<boolean> {
+      if (this._db) {
+         return true;
+      }
+
+      try {
+         await fs.access(this._path);
+         return true;
+      } catch{
+         return false;
+      }
+   }
+
+   private async _open(): Promise<Database.Database> {
+      if (this._db) {
+         return this._db;
+      }
+
+      await fs.mkdir(path.dirname(this._path), { recursive: true });
+
+      const db = new Database(this._path);
+
+      db.pragma('journal_mode = WAL');
+      db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+
+      db.exec(`
+         CREATE TABLE IF NOT EXISTS embeddings (
+            namespace TEXT NOT NULL,
+            hash TEXT NOT NULL,
+            embedding BLOB NOT NULL,
+            size INTEGER NOT NULL,
+            last_used INTEGER NOT NULL,
+            PRIMARY KEY (namespace, hash)
+         );
+
+         CREATE INDEX IF NOT EXISTS idx_embeddings_last_used ON embeddings(last_used);
+      `);
+
+      this._db = db;
+      this._sizeBytes = this._totalSize(db);
+
+      return db;
+   }
+
+   private _totalSize(db: Database.Database): number {
+      const row = db.prepare('SELECT COALESCE(SUM(size), 0) AS total FROM embeddings').get() as { total: number };
+
+      return row.total;
+   }
+
+   /**
+    * Evict the least recently used embeddings until the rest fit in a given size.
+    *
+    * @returns Number of embeddings evicted
+    */
+   private _evict(db: Database.Database, targetSizeBytes: number): number {
+      const rows = db
+         .prepare('SELECT namespace, hash, size FROM embeddings ORDER BY last_used ASC')
+         .iterate() as IterableIterator<{ namespace: string; hash: string; size: number }>;
+
+      const evict: Array<{ namespace: string; hash: string }> = [];
+
+      let size = this._sizeBytes;
+
+      for (const row of rows) {
+         if (size <= targetSizeBytes) {
+            break;
+         }
+
+         evict.push({ namespace: row.namespace, hash: row.hash });
+         size -= row.size;
+      }
+
+      const remove = db.prepare('DELETE FROM embeddings WHERE namespace = ? AND hash = ?');
+
+      db.transaction(() => {
+         for (const entry of evict) {
+            remove.run(entry.namespace, entry.hash);
+         }
+      })();
+
+      this._sizeBytes = size;
+
+      return evict.length;
+   }
+
+}
@@ -0,0 +1,92 @@
+/**
+ * Instruction prefixes for asymmetric embedding models
+ *
+ * Retrieval models such as BGE, E5, and Nomic are trained to embed search queries and
+ * documents differently, by prepending an instruction to one or both. A library records
+ * the profile its documents were embedded with, so queries against it get the matching
+ * query prefix.
+ */
+
+import type { IEmbedder } from './embedder.ts';
+
+export interface EmbeddingPrefixProfile {
+
+   /** Prepended to search queries */
+   query: string;
+
+   /** Prepended to documents */
+   document: string;
+}
+
+/**
+ * Built-in prefix profiles, by name. `none` embeds queries and documents as they are.
+ */
+export const EMBEDDING_PREFIX_PROFILES: Readonly<Record<string, EmbeddingPrefixProfile>> = {
+   none: { query: '', document: '' },
+   bge: { query: 'Represent this sentence for searching relevant passages: ', document: '' },
+   e5: { query: 'query: ', document: 'passage: ' },
+   nomic: { query: 'search_query: ', document: 'search_document: ' },
+};
+
+/** Profile used when a library doesn't record one, matching how it was embedded */
+export const DEFAULT_PREFIX_PROFILE = 'none';
+
+// Checked in order; the first match wins
+const MODEL_PREFIX_PROFILES: Array<{ pattern: RegExp; profile: string }> = [
+   { pattern: /bge-(small|base|large)-en/i, profile: 'bge' },
+   { pattern: /(^|[/-])e5-(small|base|large)/i, profile: 'e5' },
+   { pattern: /nomic-embed-text/i, profile: 'nomic' },
+];
+
+/**
+ * Get the prefix profile a model was trained with, or `none` for models that don't use
+ * instruction prefixes (or that aren't known).
+ */
+export function getModelPrefixProfile(model: string | undefined): string {
+   if (!model) {
+      return DEFAULT_PREFIX_PROFILE;
+   }
+
+   const match = MODEL_PREFIX_PROFILES.find(({ pattern }) => { return pattern.test(model); });
+
+   return match?.profile ?? DEFAULT_PREFIX_PROFILE;
+}
+
+/**
+ * Look up a built-in prefix profile by name.
+ *
+ * @throws Error if there is no profile with that name
+ */
+export function getPrefixProfile(name: string): EmbeddingPrefixProfile {
+   const profile = EMBEDDING_PREFIX_PROFILES[name];
+
+   if (!profile) {
+      const known = Object.keys(EMBEDDING_PREFIX_PROFILES).join(', ');
+
+      throw new Error(`Unknown embedding prefix profile "${name}" (expected one of: ${known})`);
+   }
+
+   return profile;
+}
+
+/**
+ * Embed a search query for a library whose documents were embedded with the given
+ * prefix profile.
+ *
+ * Uses the embedder's own `embedQuery` when its profile matches. Otherwise the profile's
+ * query prefix is applied here, so an embedder loaded with the same model can still
+ * search libraries built with a different (or no) profile.
+ *
+ * @param prefixProfile - The library's `embedding.prefixProfile` (default: none)
+ */
+export function embedQueryWithProfile(
+   embedder: IEmbedder,
+   query: string,
+   prefixProfile: string = DEFAULT_PREFIX_PROFILE
+): Promise<Float32Array> {
+   if (embedder.embedQuery && (embedder.prefixProfile ?? DEFAULT_PREFIX_PROFILE) === prefixProfile) {
+      return embedder.embedQuery(query);
+   }
+
+   return embedder.embed(`${getPrefixProfile(prefixProfile).query}${query}`);
+}
@@ -0,0 +1,58 @@
+/**
+ * Embedding worker - Embeds texts in a worker thread
+ *
+ * Started by `ParallelEmbedder`. Each worker loads its own copy of the model into its own
+ * ONNX Runtime session, so that several workers can embed batches at the same time.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { Embedder } from './embedder.ts';
+import type { EmbedderConfig } from './embedder.ts';
+
+/** Request sent from the main thread to a worker */
+export interface EmbeddingWorkerRequest {
+
+   /** Identifies the response to this request */
+   id: number;
+
+   /** Texts to embed. An empty list only loads the model. */
+   texts: string[];
+}
+
+/** Response sent from a worker to the main thread */
+export interface EmbeddingWorkerResponse {
+
+   /** ID of the request this responds to */
+   id: number;
+
+   /** Embedding of each text, in the same order */
+   embeddings?: Float32Array[];
+
+   /** Why the texts could not be embedded */
+   error?: string;
+}
+
+const embedder = new Embedder(workerData as EmbedderConfig);
+
+/**
+ * Embed the texts of a request and send back their embeddings.
+ */
+async function embedTexts(request: EmbeddingWorkerRequest): Promise<void> {
+   await embedder.initialize();
+
+   const embeddings = await embedder.embedBatch(request.texts);
+
+   parentPort?.postMessage({
+      id: request.id,
+      embeddings,
+   } satisfies EmbeddingWorkerResponse);
+}
+
+parentPort?.on('message', (request: EmbeddingWorkerRequest) => {
+   embedTexts(request).catch((error) => {
+      parentPort?.postMessage({
+         id: request.id,
+         error: error instanceof Error ? error.message : String(error),
+      } satisfies EmbeddingWorkerResponse);
+   });
+});
@@ -0,0 +1,285 @@
+/**
+ * HTTP embedding module for OpenAI-compatible endpoints
+ *
+ * Generates embeddings by calling a `/v1/embeddings` endpoint, such as OpenAI, Ollama,
+ * or a vLLM server. Features batching, retries with exponential backoff, and detection
+ * of the embedding dimensions from the first response.
+ */
+
+import type { IEmbedder, ProgressCallback } from './embedder.ts';
+import { getModelPrefixProfile, getPrefixProfile } from './embedding-prefixes.ts';
+
+export interface HttpEmbedderConfig {
+
+   /**
+    * Base URL of the API (e.g., "http://localhost:11434/v1"). `/embeddings` is appended
+    * unless the URL already ends with it.
+    */
+   url: string;
+
+   /** Model name sent with each request (e.g., "nomic-embed-text") */
+   model: string;
+
+   /** API key, sent as a bearer token */
+   apiKey?: string;
+
+   /** Embedding dimensions. Detected from the endpoint on initialization if omitted. */
+   dimensions?: number;
+
+   /** Number of texts sent per request (default: 64) */
+   batchSize?: number;
+
+   /** Number of times a failed request is retried (default: 3) */
+   maxRetries?: number;
+
+   /** Delay before the first retry in milliseconds, doubled per retry (default: 500) */
+   retryDelayMs?: number;
+
+   /** Request timeout in milliseconds (default: 60000) */
+   timeoutMs?: number;
+
+   /**
+    * Instruction prefix profile applied by `embedQuery` and `embedDocuments`. Defaults to
+    * the profile the model was trained with.
+    */
+   prefixProfile?: string;
+}
+
+interface EmbeddingsResponse {
+   data?: Array<{ embedding: number[]; index?: number }>;
+}
+
+const DEFAULT_BATCH_SIZE = 64;
+
+const DEFAULT_MAX_RETRIES = 3;
+
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * Status codes worth retrying: rate limiting and server-side failures.
+ */
+function isRetryableStatus(status: number): boolean {
+   return status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+   return new Promise((resolve) => {
+      setTimeout(resolve, ms);
+   });
+}
+
+export class HttpEmbedder implements IEmbedder {
+
+   public readonly provider = 'http';
+
+   private readonly _config: Required<Omit<HttpEmbedderConfig, 'apiKey' | 'dimensions'>> & Pick<HttpEmbedderConfig, 'apiKey'>;
+   private readonly _endpoint: string;
+   private _dimensions: number | undefined;
+
+   public constructor(config: HttpEmbedderConfig) {
+      const url = config.url.replace(/\/+$/, '');
+
+      this._config = {
+         url,
+         model: config.model,
+         apiKey: config.apiKey,
+         batchSize: config.batchSize ?? DEFAULT_BATCH_SIZE,
+         maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+         retryDelayMs: config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+         timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+         prefixProfile: config.prefixProfile ?? getModelPrefixProfile(config.model),
+      };
+      this._endpoint = url.endsWith('/embeddings') ? url : `${url}/embeddings`;
+      this._dimensions = config.dimensions;
+
+      getPrefixProfile(this._config.prefixProfile);
+   }
+
+   public get model(): string {
+      return this._config.model;
+   }
+
+   public get prefixProfile(): string {
+      return this._config.prefixProfile;
+   }
+
+   public get url(): string {
+      return this._config.url;
+   }
+
+   /**
+    * Embedding dimensions. Only known before initialization if configured explicitly.
+    */
+   public get dimensions(): number {
+      return this._dimensions ?? 0;
+   }
+
+   /**
+    * Detect the embedding dimensions by embedding a probe text, unless they were
+    * configured explicitly.
+    */
+   public async initialize(): Promise<void> {
+      if (this._dimensions !== undefined) {
+         return;
+      }
+
+      const [ probe ] = await this._request([ 'dimension probe' ]);
+
+      this._dimensions = probe.length;
+   }
+
+   /**
+    * Embed a single text.
+    */
+   public async embed(text: string): Promise<Float32Array> {
+      const [ embedding ] = await this.embedBatch([ text ]);
+
+      return embedding;
+   }
+
+   /**
+    * Embed multiple texts, sending them to the endpoint in batches.
+    */
+   public async embedBatch(
+      texts: string[],
+      onProgress?: ProgressCallback
+   ): Promise<Float32Array[]> {
+      if (texts.length === 0) {
+         return [];
+      }
+
+      await this.initialize();
+
+      const results: Float32Array[] = [],
+            totalBatches = Math.ceil(texts.length / this._config.batchSize);
+
+      for (let i = 0; i < texts.length; i += this._config.batchSize) {
+         const batch = texts.slice(i, i + this._config.batchSize),
+               batchIndex = Math.floor(i / this._config.batchSize);
+
+         const embeddings = await this._request(batch);
+
+         for (const embedding of embeddings) {
+            if (embedding.length !== this._dimensions) {
+               throw new Error(
+                  `Embedding endpoint returned ${embedding.length} dimensions, expected ${this._dimensions}`
+               );
+            }
+            results.push(embedding);
+         }
+
+         if (onProgress) {
+            onProgress({
+               batch: batchIndex,
+               totalBatches,
+               processed: Math.min(i + this._config.batchSize, texts.length),
+               total: texts.length,
+            });
+         }
+      }
+
+      return results;
+   }
+
+   /**
+    * Embed a search query with the query prefix of this embedder's profile.
+    */
+   public async embedQuery(text: string): Promise<Float32Array> {
+      return this.embed(`${getPrefixProfile(this._config.prefixProfile).query}${text}`);
+   }
+
+   /**
+    * Embed documents with the document prefix of this embedder's profile.
+    */
+   public async embedDocuments(texts: string[], onProgress?: ProgressCallback): Promise<Float32Array[]> {
+      const prefix = getPrefixProfile(this._config.prefixProfile).document;
+
+      return this.embedBatch(texts.map((text) => { return `${prefix}${text}`; }), onProgress);
+   }
+
+   public async dispose(): Promise<void> {
+      // Nothing to release; each request is independent
+   }
+
+   /**
+    * Request embeddings for a batch of texts, retrying network errors, timeouts, rate
+    * limiting, and server errors with exponential backoff.
+    */
+   private async _request(input: string[]): Promise<Float32Array[]> {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+      if (this._config.apiKey) {
+         headers.Authorization = `Bearer ${this._config.apiKey}`;
+      }
+
+      const body = JSON.stringify({ model: this._config.model, input });
+
+      let lastError: Error | undefined;
+
+      for (let attempt = 0; attempt <= this._config.maxRetries; attempt++) {
+         if (attempt > 0) {
+            await sleep(this._config.retryDelayMs * 2 ** (attempt - 1));
+         }
+
+         let response: Response;
+
+         try {
+            response = await fetch(this._endpoint, {
+               method: 'POST',
+               headers,
+               body,
+               signal: AbortSignal.timeout(this._config.timeoutMs),
+            });
+         } catch(e) {
+            lastError = new Error(
+               `Embedding request to ${this._endpoint} failed: ${e instanceof Error ? e.message : String(e)}`
+            );
+            continue;
+         }
+
+         if (!response.ok) {
+            const detail = await response.text().catch(() => { return ''; });
+
+            lastError = new Error(
+               `Embedding request to ${this._endpoint} failed: ${response.status} ${response.statusText}`
+               + (detail ? ` - ${detail.slice(0, 200)}` : '')
+            );
+
+            if (isRetryableStatus(response.status)) {
+               continue;
+            }
+
+            throw lastError;
+         }
+
+         return this._parseResponse(await response.json() as EmbeddingsResponse, input.length);
+      }
+
+      throw lastError ?? new Error(`Embedding request to ${this._endpoint} failed`);
+   }
+
+   /**
+    * Convert an embeddings response to vectors in input order.
+    */
+   private _parseResponse(response: EmbeddingsResponse, expected: number): Float32Array[] {
+      const data = response.data;
+
+      if (!Array.isArray(data) || data.length !== expected) {
+         throw new Error(
+            `Embedding endpoint returned ${Array.isArray(data) ? data.length : 'no'} embeddings, expected ${expected}`
+         );
+      }
+
+      // The API includes the input index with each embedding; order isn't guaranteed
+      const sorted = [ ...data ].sort((a, b) => {
+         return (a.index ?? 0) - (b.index ?? 0);
+      });
+
+      return sorted.map((item) => {
+         return new Float32Array(item.embedding);
+      });
+   }
+
+}
@@ -20,7 +20,7 @@ export const VERSION = packageJson.version;
 // Building
 // ============================================================================
 
-export { Builder } from './builder.ts';
+export { Builder, BuildCancelledError } from './builder.ts';
 export type {
    BuildOptions,
    BuildResult,
@@ -29,13 +29,62 @@ export type {
    BuildProgressCallback,
    BuilderConfig,
 } from './builder.ts';
+export { loadBuildConfig, parseBuildConfig } from './build-config.ts';
+export type { BuildConfig, BuildSource } from './build-config.ts';
+export {
+   contentVersionFromRef,
+   compareContentVersions,
+   sortContentVersions,
+   inferContentVersionType,
+   matchContentVersions,
+   LATEST_CONTENT_VERSION,
+} from './content-version.ts';
+export type { ContentVersionType } from './content-version.ts';
 
 // ============================================================================
 // Embedding & Chunking
 // ============================================================================
 
-export { Embedder } from './embedder.ts';
-export type { IEmbedder, EmbedderConfig, EmbedProgress, ProgressCallback, ModelLoadCallback } from './embedder.ts';
+export {
+   Embedder,
+   EmbeddingModelMismatchError,
+   createEmbedder,
+   getLibraryEmbedderOptions,
+   getEmbeddingModelKey,
+} from './embedder.ts';
+export type {
+   IEmbedder,
+   EmbedderConfig,
+   EmbedderOptions,
+   EmbeddingProvider,
+   EmbedProgress,
+   ProgressCallback,
+   ModelLoadCallback,
+} from './embedder.ts';
+
+export { HttpEmbedder } from './http-embedder.ts';
+export type { HttpEmbedderConfig } from './http-embedder.ts';
+
+export { ParallelEmbedder } from './parallel-embedder.ts';
+export type { ParallelEmbedderConfig, EmbeddingWorkerFactory } from './parallel-embedder.ts';
+
+export { EmbeddingCache, getEmbeddingCacheNamespace } from './embedding-cache.ts';
+export type {
+   EmbeddingCacheConfig,
+   EmbeddingCacheStats,
+   EmbeddingCacheModelStats,
+   EmbeddingCachePruneOptions,
+   CachedEmbedding,
+} from './embedding-cache.ts';
+
+export {
+   EMBEDDING_PREFIX_PROFILES,
+   DEFAULT_PREFIX_PROFILE,
+   getModelPrefixProfile,
+   getPrefixProfile,
+   embedQueryWithProfile,
+} from './embedding-prefixes.ts';
+export type { EmbeddingPrefixProfile } from './embedding-prefixes.ts';
 
 export { Chunker } from './chunker.ts';
 export type {
@@ -52,16 +101,50 @@ export type {
 export { CodeChunker } from './code-chunker.ts';
 export type { CodeChunkerConfig, CodeChunkerLanguage, ContextMode } from './code-chunker.ts';
 
+export { MarkdownChunker } from './markdown-chunker.ts';
+export type { MarkdownChunkerLanguage } from './markdown-chunker.ts';
+
 // ============================================================================
 // Vector Store & Search
 // ============================================================================
 
 export { VectorStore } from './store.ts';
-export type { StoredChunk, SearchResult, VectorStoreConfig } from './store.ts';
+export type {
+   StoredChunk,
+   SearchResult,
+   SearchFilter,
+   KeywordSearchOptions,
+   VectorStoreConfig,
+   FusionStrategy,
+   HybridSearchOptions,
+   SourceDocument,
+   NewSourceDocument,
+   ParentChunk,
+} from './store.ts';
+
+export { KeywordQuerySyntaxError, validateKeywordQuery } from './keyword-query.ts';
+export type { TextHighlight, HighlightedText } from './keyword-query.ts';
 
 export { Searcher } from './searcher.ts';
 export type { SearchOptions, SearcherConfig, SearchResultWithContext } from './searcher.ts';
 
+export { MultiLibrarySearcher, openSearchableLibraries } from './multi-library-searcher.ts';
+export type {
+   SearchableLibrary,
+   MultiLibrarySearcherConfig,
+   MultiLibrarySearchOptions,
+   MultiLibrarySearchResult,
+   MultiLibrarySearchResponse,
+   BudgetedSearchOptions,
+   BudgetedSearchResponse,
+} from './multi-library-searcher.ts';
+
+export { packResults, estimateTokens } from './result-packer.ts';
+export type { PackableResult, PackOptions, PackedExcerpt, PackedResults } from './result-packer.ts';
+
+export { SearchServer } from './search-server.ts';
+export type { SearchServerConfig, SearchRequest } from './search-server.ts';
+
 export { Reranker } from './reranker.ts';
 export type { RerankerConfig, RerankResult, RerankProgress, RerankProgressCallback } from './reranker.ts';
 
@@ -104,8 +187,10 @@ export {
    getDefaultManifestDir,
    getDefaultCollectionConfigDir,
    getModelCacheDir,
+   getEmbeddingCacheDir,
    detectProjectLibraryDir,
    hasProjectLibraryDir,
+   discoverLibraryPaths,
 } from './config.ts';
 
 // ============================================================================
@@ -0,0 +1,253 @@
+/**
+ * Keyword query module
+ *
+ * Validates keyword queries written in FTS5 query syntax (phrases, prefixes, NEAR
+ * groups, boolean operators, and column filters), so mistakes are reported with a
+ * message that points at the problem rather than SQLite's bare "syntax error".
+ *
+ * Also reads the marked text produced by FTS5's `highlight()` and `snippet()` into plain
+ * text and the offsets of the matched terms.
+ */
+
+/**
+ * Error thrown for keyword queries that aren't valid FTS5 query syntax.
+ */
+export class KeywordQuerySyntaxError extends Error {
+
+   public readonly name = 'KeywordQuerySyntaxError';
+
+   /**
+    * @param message - Description of the problem
+    * @param query - The invalid query
+    * @param position - Character (1-based) the problem was found at, if known
+    */
+   public constructor(message: string, public readonly query: string, public readonly position?: number) {
+      super(`Invalid keyword query: ${message}`);
+   }
+}
+
+/**
+ * A span of matched text, as offsets into the text it was found in.
+ */
+export interface TextHighlight {
+
+   /** Offset of the first matched character */
+   start: number;
+
+   /** Offset after the last matched character */
+   end: number;
+}
+
+/**
+ * Text with the terms a keyword query matched in it.
+ */
+export interface HighlightedText {
+   text: string;
+   highlights: TextHighlight[];
+}
+
+/**
+ * Markers FTS5 is asked to wrap matched terms in. Control characters, so they can't be
+ * confused with the content.
+ */
+export const HIGHLIGHT_START = '\u0002';
+
+export const HIGHLIGHT_END = '\u0003';
+
+const OPERATORS = new Set([ 'AND', 'OR', 'NOT' ]);
+
+// Punctuation with a meaning in FTS5 queries outside of quoted strings
+const SYNTAX_CHARACTERS = new Set([ '(', ')', '*', '^', ':', '+', ',' ]);
+
+// The only column of the full-text index, usable as a column filter ("content: hooks")
+const FTS_COLUMN = 'content';
+
+interface QueryToken {
+   type: 'string' | 'word' | 'operator' | 'syntax';
+   text: string;
+
+   /** 0-based offset of the token in the query */
+   offset: number;
+}
+
+/**
+ * Check whether a character can be part of an FTS5 bareword: letters, digits, `_`, and
+ * any non-ASCII character.
+ */
+function isBarewordCharacter(character: string): boolean {
+   return character.charCodeAt(0) >= 0x80 || /[A-Za-z0-9_]/.test(character);
+}
+
+/**
+ * Find the closing quote of the string starting at `start`. Quotes inside strings are
+ * escaped by doubling them.
+ */
+function findStringEnd(query: string, start: number): number {
+   let i = start + 1;
+
+   while (i < query.length) {
+      if (query[i] === '"' && query[i + 1] === '"') {
+         i += 2;
+      } else if (query[i] === '"') {
+         return i;
+      } else {
+         i += 1;
+      }
+   }
+
+   throw new KeywordQuerySyntaxError(`the quote at character ${start + 1} is never closed`, query, start + 1);
+}
+
+function unexpectedCharacter(query: string, offset: number): KeywordQuerySyntaxError {
+   // Suggest quoting the whole whitespace-separated term the character is part of
+   const before = query.slice(0, offset).split(/\s/).pop() ?? '',
+         after = query.slice(offset).split(/\s/)[0],
+         term = `${before}${after}`.replace(/"/g, '""');
+
+   return new KeywordQuerySyntaxError(
+      `unexpected "${query[offset]}" at character ${offset + 1}; put terms containing punctuation ` +
+      `in double quotes, e.g. "${term}"`,
+      query,
+      offset + 1
+   );
+}
+
+function tokenize(query: string): QueryToken[] {
+   const tokens: QueryToken[] = [];
+
+   let i = 0;
+
+   while (i < query.length) {
+      const character = query[i];
+
+      if (/\s/.test(character)) {
+         i += 1;
+      } else if (character === '"') {
+         const end = findStringEnd(query, i);
+
+         tokens.push({ type: 'string', text: query.slice(i, end + 1), offset: i });
+         i = end + 1;
+      } else if (isBarewordCharacter(character)) {
+         let end = i;
+
+         while (end < query.length && isBarewordCharacter(query[end])) {
+            end += 1;
+         }
+
+         const text = query.slice(i, end);
+
+         tokens.push({ type: OPERATORS.has(text) ? 'operator' : 'word', text, offset: i });
+         i = end;
+      } else if (SYNTAX_CHARACTERS.has(character)) {
+         tokens.push({ type: 'syntax', text: character, offset: i });
+         i += 1;
+      } else {
+         throw unexpectedCharacter(query, i);
+      }
+   }
+
+   return tokens;
+}
+
+function isTerm(token: QueryToken | undefined): boolean {
+   return token?.type === 'word' || token?.type === 'string';
+}
+
+/**
+ * Check whether a token can end the expression on the left of a boolean operator.
+ */
+function endsOperand(token: QueryToken | undefined): boolean {
+   return isTerm(token) || token?.text === ')' || token?.text === '*';
+}
+
+/**
+ * Check whether a token can start the expression on the right of a boolean operator.
+ */
+function startsOperand(token: QueryToken | undefined): boolean {
+   return isTerm(token) || token?.text === '(' || token?.text === '^';
+}
+
+/**
+ * Check a token against its neighbours, returning a description of the problem found.
+ */
+function findTokenProblem(token: QueryToken, previous: QueryToken | undefined, next: QueryToken | undefined): string | undefined {
+   if (token.type === 'operator' && !(endsOperand(previous) && startsOperand(next))) {
+      return `${token.text} at character ${token.offset + 1} needs a term on each side`;
+   }
+
+   if (token.text === ':' && token.type === 'syntax' && previous?.text.toLowerCase() !== FTS_COLUMN) {
+      return `unknown column "${previous?.text ?? ''}" at character ${token.offset + 1}; ` +
+         `only "${FTS_COLUMN}" can be searched`;
+   }
+
+   if (token.text === '*' && !(isTerm(previous) && previous && previous.offset + previous.text.length === token.offset)) {
+      return `"*" at character ${token.offset + 1} must directly follow a term, e.g. useEff*`;
+   }
+
+   return undefined;
+}
+
+/**
+ * Check that a keyword query is valid FTS5 query syntax, e.g. `"use effect"`, `useEff*`,
+ * `NEAR(cleanup effect, 5)`, `hooks AND (state OR reducer)`, or `hooks NOT class`.
+ * Boolean operators are only recognized in upper case.
+ *
+ * Catches the common mistakes up front; SQLite reports anything else when the query
+ * runs.
+ *
+ * @param query - Keyword query
+ * @throws KeywordQuerySyntaxError describing the first problem found
+ */
+export function validateKeywordQuery(query: string): void {
+   const tokens = tokenize(query),
+         openParentheses: number[] = [];
+
+   if (tokens.length === 0) {
+      throw new KeywordQuerySyntaxError('the query has no terms', query);
+   }
+
+   for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i],
+            problem = findTokenProblem(token, tokens[i - 1], tokens[i + 1]);
+
+      if (problem) {
+         throw new KeywordQuerySyntaxError(problem, query, token.offset + 1);
+      }
+
+      if (token.text === '(' && token.type === 'syntax') {
+         openParentheses.push(token.offset);
+      } else if (token.text === ')' && token.type === 'syntax' && openParentheses.pop() === undefined) {
+         throw new KeywordQuerySyntaxError(`")" at character ${token.offset + 1} has no matching "("`, query, token.offset + 1);
+      }
+   }
+
+   if (openParentheses.length > 0) {
+      const offset = openParentheses[openParentheses.length - 1];
+
+      throw new KeywordQuerySyntaxError(`the "(" at character ${offset + 1} is never closed`, query, offset + 1);
+   }
+}
+
+/**
+ * Read text marked by FTS5's `highlight()` or `snippet()` with `HIGHLIGHT_START` and
+ * `HIGHLIGHT_END` into the plain text and the offsets of its matched terms.
+ */
+export function parseHighlightedText(marked: string): HighlightedText {
+   const highlights: TextHighlight[] = [];
+
+   let text = '',
+       start: number | undefined;
+
+   for (const character of marked) {
+      if (character === HIGHLIGHT_START) {
+         start = text.length;
+      } else if (character === HIGHLIGHT_END && start !== undefined) {
+         highlights.push({ start, end: text.length });
+         start = undefined;
+      } else {
+         text += character;
+      }
+   }
+
+   return { text, highlights };
+}
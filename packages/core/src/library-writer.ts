@@ -0,0 +1,315 @@
+/**
+ * Library writer - Writes a library's chunks to disk batch by batch
+ *
+ * Builds hand the writer each batch of chunks as soon as it is embedded, so a library
+ * never has to be held in memory as a whole. The library is written to a work file next
+ * to the output path, which replaces the output only once the build is finished.
+ *
+ * Each batch is written together with a checkpoint of the build's progress. A build that
+ * is interrupted can be resumed from its work file by a later build of the same sources
+ * with the same options, which skips the batches already written.
+ */
+
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+import type { Hash } from 'crypto';
+import { VectorStore } from './store.ts';
+import type { NewSourceDocument } from './store.ts';
+import type { Chunk } from './chunker.ts';
+import { CURRENT_SCHEMA_VERSION } from './migrations/index.ts';
+import { sortContentVersions } from './content-version.ts';
+import type { LibraryMetadata } from './types.ts';
+
+// SQLite keeps these next to a database in WAL mode until it is closed
+const SQLITE_SIDE_FILES = [ '-wal', '-shm' ];
+
+// Key of the checkpoint in the work file's library_meta table
+const CHECKPOINT_META_KEY = 'build_checkpoint';
+
+const SOURCES_CHANGED_MESSAGE = 'The sources changed since the build was interrupted. Build again without resuming to start over.';
+
+/**
+ * Progress of an unfinished build, stored in its work file.
+ */
+interface BuildCheckpoint {
+
+   /** Fingerprint of the sources and options of the build */
+   fingerprint: string;
+
+   /** Number of batches written */
+   batchCount: number;
+
+   /** SHA-256 of the content of the chunks written, in order */
+   contentHash: string;
+}
+
+/**
+ * Chunks cut from one or more documents, stored together.
+ */
+export interface ChunkBatch {
+
+   /** Chunks to store, in order */
+   chunks: Chunk[];
+
+   /** Documents the chunks were cut from */
+   documents: NewSourceDocument[];
+
+   /** Content version the chunks are stored with */
+   contentVersion?: string;
+}
+
+/**
+ * Totals for everything written to a library.
+ */
+export interface LibrarySummary {
+
+   /** Number of chunks written */
+   chunkCount: number;
+
+   /** Number of documents written */
+   documentCount: number;
+
+   /** SHA-256 of the chunks' content, in the order they were written */
+   contentHash: string;
+
+   /** Content versions the chunks were stored with, newest first */
+   contentVersions: string[];
+}
+
+export class LibraryWriter {
+
+   private readonly _outputPath: string;
+   private readonly _workPath: string;
+   private readonly _fingerprint: string;
+   private readonly _contentHash: Hash = createHash('sha256');
+   private readonly _contentVersions = new Set<string>();
+   private _store: VectorStore | undefined;
+   private _chunkCount = 0;
+   private _documentCount = 0;
+   private _batchCount = 0;
+   private _checkpoint: BuildCheckpoint | undefined;
+   private _createdWorkFile = false;
+
+   /**
+    * @param outputPath - Where the finished library is written
+    * @param fingerprint - Fingerprint of the build's sources and options. A build can
+    * only be resumed by one with the same fingerprint.
+    */
+   public constructor(outputPath: string, fingerprint: string) {
+      this._outputPath = outputPath;
+      this._workPath = `${outputPath}.partial`;
+      this._fingerprint = fingerprint;
+   }
+
+   /**
+    * Number of chunks written so far.
+    */
+   public get chunkCount(): number {
+      return this._chunkCount;
+   }
+
+   /**
+    * Whether the next batch was already written by the interrupted build being resumed.
+    */
+   public get isResuming(): boolean {
+      return this._checkpoint !== undefined && this._batchCount < this._checkpoint.batchCount;
+   }
+
+   /**
+    * Continue from the checkpoint in the work file of an interrupted build, if there is
+    * one. Batches the interrupted build wrote must then be passed to `skip` rather than
+    * `write`, in the same order. Without a checkpoint, the build starts over.
+    *
+    * @returns Number of chunks already written
+    * @throws Error if the work file was left by a build with other sources or options
+    */
+   public async resume(): Promise<number> {
+      try {
+         await fs.access(this._workPath);
+      } catch{
+         return 0;
+      }
+
+      const store = new VectorStore(this._workPath);
+
+      store.initialize();
+
+      const saved = store.getMeta(CHECKPOINT_META_KEY),
+            checkpoint = saved ? JSON.parse(saved) as BuildCheckpoint : undefined;
+
+      if (!checkpoint) {
+         store.close();
+         return 0;
+      }
+
+      if (checkpoint.fingerprint !== this._fingerprint) {
+         store.close();
+         throw new Error(
+            `${this._workPath} was left by a build of other sources or with other options. ` +
+            'Build again without resuming to start over.'
+         );
+      }
+
+      this._store = store;
+      this._checkpoint = checkpoint;
+
+      return store.getChunkCount();
+   }
+
+   /**
+    * Account for a batch that the interrupted build being resumed already wrote.
+    *
+    * @throws Error if the batches passed so far differ from the ones it wrote
+    */
+   public skip(batch: ChunkBatch): void {
+      const checkpoint = this._checkpoint;
+
+      if (!checkpoint || !this.isResuming) {
+         throw new Error('Only batches written by the interrupted build can be skipped');
+      }
+
+      this._record(batch);
+
+      if (this._batchCount === checkpoint.batchCount && this._digest() !== checkpoint.contentHash) {
+         throw new Error(SOURCES_CHANGED_MESSAGE);
+      }
+   }
+
+   /**
+    * Store a batch of chunks, after the documents they were cut from, and checkpoint the
+    * build's progress.
+    *
+    * @param batch - Chunks and their documents
+    * @param embeddings - Embedding of each chunk, in the same order
+    */
+   public async write(batch: ChunkBatch, embeddings: Float32Array[]): Promise<void> {
+      if (batch.chunks.length === 0) {
+         return;
+      }
+
+      const store = this._store ?? await this._open(embeddings[0].length);
+
+      // The batch and its checkpoint are committed together, so that an interrupted build
+      // resumes after the last batch that was written in full
+      store.getDatabase().transaction(() => {
+         store.addSources(batch.documents);
+         store.addChunks(batch.chunks, embeddings, { contentVersion: batch.contentVersion });
+         this._record(batch);
+
+         const checkpoint: BuildCheckpoint = {
+            fingerprint: this._fingerprint,
+            batchCount: this._batchCount,
+            contentHash: this._digest(),
+         };
+
+         store.setMeta(CHECKPOINT_META_KEY, JSON.stringify(checkpoint));
+      })();
+   }
+
+   /**
+    * Get the totals for everything written. Call once, after the last batch.
+    */
+   public summarize(): LibrarySummary {
+      return {
+         chunkCount: this._chunkCount,
+         documentCount: this._documentCount,
+         contentHash: `sha256:${this._contentHash.digest('hex')}`,
+         contentVersions: sortContentVersions(this._contentVersions),
+      };
+   }
+
+   /**
+    * Record the library's metadata and move the finished library to the output path,
+    * replacing any file already there.
+    *
+    * @throws Error if no chunks were written
+    */
+   public async finish(metadata: LibraryMetadata): Promise<void> {
+      const store = this._store;
+
+      if (!store) {
+         throw new Error('No content found to index. Check your source path and include/exclude patterns.');
+      }
+
+      if (this.isResuming) {
+         throw new Error(SOURCES_CHANGED_MESSAGE);
+      }
+
+      store.deleteMeta(CHECKPOINT_META_KEY);
+      store.setMeta('schema_version', String(CURRENT_SCHEMA_VERSION));
+      store.setMetadata(metadata);
+      store.close();
+      this._store = undefined;
+
+      await fs.rename(this._workPath, this._outputPath);
+   }
+
+   /**
+    * Stop writing, keeping the work file so that the build can be resumed from its last
+    * checkpoint. A work file this writer created but never checkpointed is deleted.
+    */
+   public async close(): Promise<void> {
+      this._store?.close();
+      this._store = undefined;
+
+      if (this._createdWorkFile && this._batchCount === 0) {
+         await this._removeWorkFile();
+      }
+   }
+
+   /**
+    * Stop writing and delete the work file.
+    */
+   public async abort(): Promise<void> {
+      this._store?.close();
+      this._store = undefined;
+
+      await this._removeWorkFile();
+   }
+
+   /**
+    * Add a batch to the totals for everything written.
+    */
+   private _record(batch: ChunkBatch): void {
+      for (const chunk of batch.chunks) {
+         this._contentHash.update(chunk.content);
+      }
+
+      if (batch.contentVersion !== undefined) {
+         this._contentVersions.add(batch.contentVersion);
+      }
+
+      this._chunkCount += batch.chunks.length;
+      this._documentCount += batch.documents.length;
+      this._batchCount += 1;
+   }
+
+   /**
+    * Get the content hash of the chunks written so far, leaving it open for more.
+    */
+   private _digest(): string {
+      return this._contentHash.copy().digest('hex');
+   }
+
+   /**
+    * Create the work file, replacing one left behind by an earlier build.
+    */
+   private async _open(embeddingDimensions: number): Promise<VectorStore> {
+      await this._removeWorkFile();
+
+      const store = new VectorStore(this._workPath, { embeddingDimensions });
+
+      store.initialize();
+      this._store = store;
+      this._createdWorkFile = true;
+
+      return store;
+   }
+
+   private async _removeWorkFile(): Promise<void> {
+      for (const suffix of [ '', ...SQLITE_SIDE_FILES ]) {
+         await fs.rm(`${this._workPath}${suffix}`, { force: true });
+      }
+   }
+
+}
@@ -129,7 +129,7 @@ export class Library {
          }
       }
 
-      const store = new VectorStore(path);
+      const store = new VectorStore(path, { embeddingDimensions: options.embedding?.dimensions ?? 384 });
 
       store.initialize();
 
@@ -196,17 +196,16 @@ export class Library {
          throw new Error(`Library file not found: ${path}`);
       }
 
-      const store = new VectorStore(path);
-
-      store.initialize();
-
-      // Run migrations if needed
-      const runner = new MigrationRunner();
+      const store = new VectorStore(path),
+            runner = new MigrationRunner();
 
       try {
+         store.initialize();
+
+         // Run migrations if needed
          await runner.migrate(path, store.getDatabase(), { readOnly: options.readOnly });
       } catch(e) {
-         // Close the store if migration fails to release file handles
+         // Close the store if opening or migration fails to release file handles
          store.close();
          throw e;
       }
@@ -0,0 +1,407 @@
+/**
+ * Heading-aware chunking for Markdown, MDX, and reStructuredText documents.
+ *
+ * Splits documents on their section boundaries rather than on character counts, so that
+ * each chunk belongs to a single section. Every chunk records the headings of the
+ * sections it is nested in as a breadcrumb (e.g. "Guide > Hooks > useEffect > Cleanup"),
+ * which is embedded along with its content. YAML frontmatter is parsed into the chunk
+ * metadata rather than chunked.
+ */
+
+import * as path from 'path';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { parse as parseYaml } from 'yaml';
+import type { Chunk, ChunkerConfig } from './chunker.ts';
+
+/**
+ * Markup languages supported by the Markdown chunker.
+ */
+export type MarkdownChunkerLanguage = 'markdown' | 'rst';
+
+/**
+ * A heading found in a document.
+ */
+interface Heading {
+
+   /** Index of the first line of the heading (its overline, for RST) */
+   line: number;
+
+   /** Index of the line after the heading (after its underline, if any) */
+   end: number;
+
+   /** Nesting level, 1 for top-level headings */
+   level: number;
+
+   title: string;
+}
+
+/**
+ * The lines of a document under one heading, up to the next heading.
+ */
+interface Section {
+
+   /** Titles of the headings the section is nested in, outermost first */
+   headings: string[];
+
+   /** Index of the first line of the section */
+   startLine: number;
+
+   lines: string[];
+}
+
+/**
+ * Map of file extensions to the markup language of their documents.
+ */
+const EXTENSION_TO_LANGUAGE: Record<string, MarkdownChunkerLanguage> = {
+   '.md': 'markdown',
+   '.mdx': 'markdown',
+   '.markdown': 'markdown',
+   '.rst': 'rst',
+};
+
+const BREADCRUMB_SEPARATOR = ' > ';
+
+const FRONTMATTER_DELIMITER = /^---\s*$/;
+
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+
+const CODE_FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+// Any punctuation character repeated, as used to adorn RST section titles
+const RST_ADORNMENT = /^([!-/:-@[-`{-~])\1+\s*$/;
+
+const DEFAULT_CHUNK_SIZE = 1500;
+
+const DEFAULT_CHUNK_OVERLAP = 200;
+
+/**
+ * Strip inline markup from a heading, so that breadcrumbs read as plain text.
+ */
+function cleanTitle(title: string): string {
+   return title
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/[`*]/g, '')
+      .trim();
+}
+
+/**
+ * Parse the YAML frontmatter at the start of a Markdown document.
+ *
+ * @returns The frontmatter, if any, and the index of the first line after it
+ */
+function parseFrontmatter(lines: string[]): { frontmatter?: Record<string, unknown>; bodyStart: number } {
+   if (lines.length === 0 || !FRONTMATTER_DELIMITER.test(lines[0])) {
+      return { bodyStart: 0 };
+   }
+
+   const end = lines.findIndex((line, i) => { return i > 0 && FRONTMATTER_DELIMITER.test(line); });
+
+   if (end === -1) {
+      return { bodyStart: 0 };
+   }
+
+   try {
+      const frontmatter = parseYaml(lines.slice(1, end).join('\n'));
+
+      if (frontmatter && typeof frontmatter === 'object' && !Array.isArray(frontmatter)) {
+         return { frontmatter: frontmatter as Record<string, unknown>, bodyStart: end + 1 };
+      }
+   } catch{
+      // Not YAML after all, so leave it to be chunked like the rest of the document
+      return { bodyStart: 0 };
+   }
+
+   return { bodyStart: end + 1 };
+}
+
+/**
+ * Find the ATX (`## Title`) and setext (underlined) headings of a Markdown document,
+ * skipping fenced code blocks.
+ */
+function findMarkdownHeadings(lines: string[], bodyStart: number): Heading[] {
+   const headings: Heading[] = [];
+
+   let fence: string | undefined;
+
+   for (let i = bodyStart; i < lines.length; i++) {
+      const line = lines[i],
+            fenceMatch = CODE_FENCE.exec(line);
+
+      if (fenceMatch) {
+         const marker = fenceMatch[1];
+
+         if (!fence) {
+            fence = marker;
+         } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+            fence = undefined;
+         }
+         continue;
+      }
+
+      const atx = fence ? null : ATX_HEADING.exec(line);
+
+      if (atx) {
+         headings.push({ line: i, end: i + 1, level: atx[1].length, title: cleanTitle(atx[2]) });
+      } else if (!fence && isSetextHeading(lines, i, bodyStart, headings)) {
+         headings.push({
+            line: i - 1,
+            end: i + 1,
+            level: line.trim().startsWith('=') ? 1 : 2,
+            title: cleanTitle(lines[i - 1]),
+         });
+      }
+   }
+
+   return headings;
+}
+
+/**
+ * Whether a line underlines the single line of text above it as a setext heading.
+ * Multi-line paragraphs are not treated as headings.
+ */
+function isSetextHeading(lines: string[], i: number, bodyStart: number, headings: Heading[]): boolean {
+   if (i === bodyStart || !SETEXT_UNDERLINE.test(lines[i]) || !lines[i - 1].trim()) {
+      return false;
+   }
+
+   if (headings.length > 0 && headings[headings.length - 1].line === i - 1) {
+      return false;
+   }
+
+   return i - 1 === bodyStart || !lines[i - 2].trim();
+}
+
+/**
+ * Find the section titles of a reStructuredText document. RST has no fixed heading
+ * levels: each adornment style (underline character, with or without an overline) gets
+ * the next level the first time it is used.
+ */
+function findRstHeadings(lines: string[]): Heading[] {
+   const headings: Heading[] = [],
+         styles: string[] = [];
+
+   for (let i = 0; i < lines.length - 1; i++) {
+      const style = getRstHeadingStyle(lines, i);
+
+      if (style) {
+         if (!styles.includes(style)) {
+            styles.push(style);
+         }
+
+         headings.push({
+            line: style.endsWith('/') ? i - 1 : i,
+            end: i + 2,
+            level: styles.indexOf(style) + 1,
+            title: cleanTitle(lines[i]),
+         });
+
+         // Skip the underline
+         i += 1;
+      }
+   }
+
+   return headings;
+}
+
+/**
+ * Get the adornment style of the RST section title on a line, if it is one: its
+ * underline character, followed by a slash if it also has an overline.
+ */
+function getRstHeadingStyle(lines: string[], i: number): string | undefined {
+   const text = lines[i],
+         underline = lines[i + 1].trim();
+
+   if (!text.trim() || /^\s/.test(text) || RST_ADORNMENT.test(text)) {
+      return undefined;
+   }
+
+   if (!RST_ADORNMENT.test(underline) || underline.length < text.trim().length) {
+      return undefined;
+   }
+
+   const overline = i > 0 ? lines[i - 1].trim() : '';
+
+   if (overline && overline[0] === underline[0] && RST_ADORNMENT.test(overline)) {
+      return `${underline[0]}/`;
+   }
+
+   // Without an overline, a title starts a new block
+   return i === 0 || !overline ? underline[0] : undefined;
+}
+
+/**
+ * Split a document into the sections under each heading. Headings with no content of
+ * their own before the next heading are kept with the section that follows them.
+ */
+function splitSections(lines: string[], bodyStart: number, headings: Heading[]): Section[] {
+   const sections: Section[] = [],
+         stack: Heading[] = [];
+
+   const isBlank = (from: number, to: number): boolean => {
+      return lines.slice(from, to).every((line) => { return !line.trim(); });
+   };
+
+   let start = headings.length > 0 ? headings[0].line : lines.length;
+
+   if (!isBlank(bodyStart, start)) {
+      sections.push({ headings: [], startLine: bodyStart, lines: lines.slice(bodyStart, start) });
+   }
+
+   for (const [ index, heading ] of headings.entries()) {
+      const hasNext = index + 1 < headings.length,
+            end = hasNext ? headings[index + 1].line : lines.length;
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+         stack.pop();
+      }
+      stack.push(heading);
+
+      if (hasNext && isBlank(heading.end, end)) {
+         continue;
+      }
+
+      sections.push({
+         headings: stack.map((h) => { return h.title; }),
+         startLine: start,
+         lines: lines.slice(start, end),
+      });
+      start = end;
+   }
+
+   return sections;
+}
+
+/**
+ * Heading-aware chunker for Markdown, MDX, and reStructuredText documents.
+ *
+ * Sections larger than the chunk size are split further with a recursive character
+ * splitter; every piece keeps the breadcrumb of its section.
+ *
+ * @example
+ * ```typescript
+ * const chunker = new MarkdownChunker({ chunkSize: 1000 });
+ * const chunks = await chunker.chunkText(markdown, 'docs/hooks.md');
+ * // chunks[0].metadata.breadcrumb === 'Guide > Hooks > useEffect'
+ * ```
+ */
+export class MarkdownChunker {
+
+   private readonly _config: Required<ChunkerConfig>;
+
+   public constructor(config: ChunkerConfig = {}) {
+      this._config = {
+         chunkSize: config.chunkSize ?? DEFAULT_CHUNK_SIZE,
+         chunkOverlap: config.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP,
+      };
+   }
+
+   /**
+    * Check if a file is a document the Markdown chunker can split into sections.
+    */
+   public static isSupported(filePath: string): boolean {
+      return path.extname(filePath).toLowerCase() in EXTENSION_TO_LANGUAGE;
+   }
+
+   /**
+    * Get the markup language of a document, if supported.
+    */
+   public static detectLanguage(filePath: string): MarkdownChunkerLanguage | undefined {
+      return EXTENSION_TO_LANGUAGE[path.extname(filePath).toLowerCase()];
+   }
+
+   /**
+    * Chunk a document along its sections.
+    *
+    * @param content - The document's content
+    * @param filePath - The file path (used for language detection)
+    * @returns Chunks with the breadcrumb of their section and the document's frontmatter
+    */
+   public async chunkText(content: string, filePath: string): Promise<Chunk[]> {
+      const language = MarkdownChunker.detectLanguage(filePath);
+
+      if (!language) {
+         throw new Error(`Unsupported document type: ${filePath}`);
+      }
+
+      const lines = content.split('\n'),
+            { frontmatter, bodyStart } = language === 'rst' ? { bodyStart: 0 } : parseFrontmatter(lines),
+            headings = language === 'rst' ? findRstHeadings(lines) : findMarkdownHeadings(lines, bodyStart),
+            title = typeof frontmatter?.title === 'string' ? cleanTitle(frontmatter.title) : undefined,
+            splitter = this._createSplitter(language),
+            chunks: Chunk[] = [];
+
+      for (const section of splitSections(lines, bodyStart, headings)) {
+         const breadcrumb = this._getBreadcrumb(title, section.headings);
+
+         for (const piece of await this._splitSection(section, splitter)) {
+            chunks.push({
+               content: piece.content,
+               embeddingContent: breadcrumb ? `${breadcrumb}\n\n${piece.content}` : undefined,
+               metadata: {
+                  sourceFile: filePath,
+                  startLine: piece.startLine,
+                  endLine: piece.startLine + piece.content.split('\n').length - 1,
+                  language,
+                  breadcrumb,
+                  frontmatter,
+               },
+            });
+         }
+      }
+
+      return chunks;
+   }
+
+   /**
+    * Join the headings of a section into a breadcrumb, starting with the document's
+    * title from its frontmatter unless its first heading already repeats it.
+    */
+   private _getBreadcrumb(title: string | undefined, headings: string[]): string | undefined {
+      const crumbs = title && headings[0] !== title ? [ title, ...headings ] : headings;
+
+      return crumbs.length > 0 ? crumbs.join(BREADCRUMB_SEPARATOR) : undefined;
+   }
+
+   /**
+    * Split a section into pieces that fit in a chunk, with the (1-indexed) line each
+    * piece starts on.
+    */
+   private async _splitSection(
+      section: Section,
+      splitter: RecursiveCharacterTextSplitter
+   ): Promise<Array<{ content: string; startLine: number }>> {
+      const firstLine = section.lines.findIndex((line) => { return line.trim(); }),
+            text = section.lines.slice(firstLine).join('\n').trimEnd(),
+            startLine = section.startLine + firstLine + 1;
+
+      if (text.length <= this._config.chunkSize) {
+         return [ { content: text, startLine } ];
+      }
+
+      const pieces = await splitter.splitText(text);
+
+      let offset = 0;
+
+      return pieces.map((piece) => {
+         const index = text.indexOf(piece, offset);
+
+         if (index === -1) {
+            return { content: piece, startLine };
+         }
+
+         offset = index + 1;
+
+         return { content: piece, startLine: startLine + text.slice(0, index).split('\n').length - 1 };
+      });
+   }
+
+   private _createSplitter(language: MarkdownChunkerLanguage): RecursiveCharacterTextSplitter {
+      return RecursiveCharacterTextSplitter.fromLanguage(language === 'rst' ? 'rst' : 'markdown', {
+         chunkSize: this._config.chunkSize,
+         chunkOverlap: this._config.chunkOverlap,
+      });
+   }
+
+}
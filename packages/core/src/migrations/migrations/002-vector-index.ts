@@ -0,0 +1,61 @@
+/**
+ * Vector index migration (v2)
+ *
+ * Adds the sqlite-vec `chunks_vec` virtual table used for vector search, along with the
+ * triggers that keep it in sync with the chunks table, and indexes all existing chunks.
+ * Requires the sqlite-vec extension to be loaded on the connection, which
+ * VectorStore.initialize() does before migrations run.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Migration } from '../types.ts';
+import { createVectorIndex } from '../../vector-index.ts';
+
+const DEFAULT_DIMENSIONS = 384;
+
+/**
+ * Determine the embedding dimensions of an existing library, preferring the stored
+ * embeddings themselves over the metadata.
+ */
+function detectDimensions(db: Database.Database): number {
+   const row = db
+      .prepare('SELECT length(embedding) AS bytes FROM chunks LIMIT 1')
+      .get() as { bytes: number } | undefined;
+
+   if (row && row.bytes > 0) {
+      return row.bytes / Float32Array.BYTES_PER_ELEMENT;
+   }
+
+   const manifest = db
+      .prepare('SELECT value FROM library_meta WHERE key = ?')
+      .get('manifest') as { value: string } | undefined;
+
+   if (manifest) {
+      try {
+         const dimensions = JSON.parse(manifest.value)?.embedding?.dimensions;
+
+         if (typeof dimensions === 'number' && dimensions > 0) {
+            return dimensions;
+         }
+      } catch{
+         // Fall through to the default
+      }
+   }
+
+   return DEFAULT_DIMENSIONS;
+}
+
+export const migration002VectorIndex: Migration = {
+   version: 2,
+   description: 'Add sqlite-vec vector index (chunks_vec) and backfill existing chunks',
+   up(db): void {
+      createVectorIndex(db, detectDimensions(db));
+
+      db.exec(`
+         INSERT INTO chunks_vec(chunk_id, embedding, content_version)
+         SELECT id, embedding, COALESCE(content_version, '')
+         FROM chunks
+         WHERE id NOT IN (SELECT chunk_id FROM chunks_vec)
+      `);
+   },
+};
@@ -0,0 +1,113 @@
+/**
+ * Source documents migration (v3)
+ *
+ * Adds per-document provenance columns to the sources table and a `source_id` column
+ * linking each chunk to the document it was cut from. Existing libraries get one
+ * sources row per distinct source file and content version, using the library-level
+ * provenance from the manifest where there is any. Per-document details that can only
+ * be read from the original files (size, hashes) are left empty.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Migration } from '../types.ts';
+
+const SOURCE_COLUMNS: Array<[ string, string ]> = [
+   [ 'path', 'TEXT' ],
+   [ 'blob_sha', 'TEXT' ],
+   [ 'size', 'INTEGER' ],
+   [ 'content_hash', 'TEXT' ],
+   [ 'license', 'TEXT' ],
+];
+
+interface ManifestSource {
+   type?: string;
+   path?: string;
+   url?: string;
+   commitHash?: string;
+   licenses?: string[];
+}
+
+function getColumnNames(db: Database.Database, table: string): Set<string> {
+   const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+
+   return new Set(columns.map((column) => { return column.name; }));
+}
+
+/**
+ * Read the library-level source provenance recorded in the manifest, if any.
+ */
+function readManifestSource(db: Database.Database): ManifestSource | undefined {
+   const manifest = db
+      .prepare('SELECT value FROM library_meta WHERE key = ?')
+      .get('manifest') as { value: string } | undefined;
+
+   if (!manifest) {
+      return undefined;
+   }
+
+   try {
+      return JSON.parse(manifest.value)?.source;
+   } catch{
+      return undefined;
+   }
+}
+
+function backfillSources(db: Database.Database): void {
+   const source = readManifestSource(db),
+         license = source?.licenses?.length ? source.licenses.join(' AND ') : null;
+
+   const documents = db
+      .prepare(`
+         SELECT source_file, content_version, MIN(source_type) AS source_type
+         FROM chunks
+         WHERE source_id IS NULL
+         GROUP BY source_file, content_version
+      `)
+      .all() as Array<{ source_file: string; content_version: string | null; source_type: string }>;
+
+   const insertSource = db.prepare(`
+      INSERT INTO sources (type, uri, path, ref, license, content_version)
+      VALUES (?, ?, ?, ?, ?, ?)
+   `);
+
+   const linkChunks = db.prepare(`
+      UPDATE chunks SET source_id = ?
+      WHERE source_file = ? AND content_version IS ? AND source_id IS NULL
+   `);
+
+   for (const document of documents) {
+      const result = insertSource.run(
+         source?.type ?? document.source_type,
+         source?.url ?? source?.path ?? document.source_file,
+         document.source_file,
+         source?.commitHash ?? null,
+         license,
+         document.content_version
+      );
+
+      linkChunks.run(result.lastInsertRowid, document.source_file, document.content_version);
+   }
+}
+
+export const migration003SourceDocuments: Migration = {
+   version: 3,
+   description: 'Add per-document provenance to sources and link chunks to their document',
+   up(db): void {
+      const sourceColumns = getColumnNames(db, 'sources');
+
+      for (const [ name, type ] of SOURCE_COLUMNS) {
+         if (!sourceColumns.has(name)) {
+            db.exec(`ALTER TABLE sources ADD COLUMN ${name} ${type}`);
+         }
+      }
+
+      if (!getColumnNames(db, 'chunks').has('source_id')) {
+         db.exec('ALTER TABLE chunks ADD COLUMN source_id INTEGER REFERENCES sources(id)');
+      }
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_chunks_source_id ON chunks(source_id)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_sources_path ON sources(path)');
+
+      backfillSources(db);
+   },
+};
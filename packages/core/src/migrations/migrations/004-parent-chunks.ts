@@ -0,0 +1,39 @@
+/**
+ * Parent chunks migration (v4)
+ *
+ * Adds the parents table, holding the larger sections that chunks can be cut from for
+ * small-to-big retrieval, and a `parent_id` column linking each chunk to its parent.
+ * Existing libraries have no parents, so every chunk is left without one.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Migration } from '../types.ts';
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+   const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+
+   return columns.some((c) => { return c.name === column; });
+}
+
+export const migration004ParentChunks: Migration = {
+   version: 4,
+   description: 'Add parent chunks and link chunks to their parent',
+   up(db): void {
+      db.exec(`
+         CREATE TABLE IF NOT EXISTS parents (
+            id INTEGER PRIMARY KEY,
+            content TEXT NOT NULL,
+            source_file TEXT NOT NULL,
+            content_version TEXT,
+            start_line INTEGER,
+            end_line INTEGER
+         )
+      `);
+
+      if (!hasColumn(db, 'chunks', 'parent_id')) {
+         db.exec('ALTER TABLE chunks ADD COLUMN parent_id INTEGER REFERENCES parents(id)');
+      }
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_chunks_parent_id ON chunks(parent_id)');
+   },
+};
@@ -3,6 +3,9 @@
  */
 
 import { migration001Baseline } from './migrations/001-baseline.ts';
+import { migration002VectorIndex } from './migrations/002-vector-index.ts';
+import { migration003SourceDocuments } from './migrations/003-source-documents.ts';
+import { migration004ParentChunks } from './migrations/004-parent-chunks.ts';
 import type { Migration } from './types.ts';
 
 /**
@@ -14,10 +17,13 @@ import type { Migration } from './types.ts';
  */
 export const migrations: Migration[] = [
    migration001Baseline,
+   migration002VectorIndex,
+   migration003SourceDocuments,
+   migration004ParentChunks,
 ];
 
 /**
  * The current schema version.
  * This should always match the highest migration version in the migrations array.
  */
-export const CURRENT_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 4;
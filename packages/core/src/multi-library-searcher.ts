@@ -0,0 +1,313 @@
+/**
+ * Multi-library searcher module
+ *
+ * Searches several libraries with one query and fuses their results into a single
+ * ranking. Per-library scores aren't on the same scale (they may be RRF values, cosine
+ * similarities, BM25 scores, or reranker logits), so results are fused by their scores
+ * normalized within each library, or by reranker score when the union is reranked. The
+ * fused results can be packed into a token budget for agents.
+ */
+
+import { createEmbedder, getEmbeddingModelKey, getLibraryEmbedderOptions } from './embedder.ts';
+import type { IEmbedder, EmbedderOptions } from './embedder.ts';
+import { DEFAULT_PREFIX_PROFILE, embedQueryWithProfile } from './embedding-prefixes.ts';
+import { Searcher, normalizeScores } from './searcher.ts';
+import type { SearchOptions, SearchResultWithContext } from './searcher.ts';
+import { estimateTokens, packResults } from './result-packer.ts';
+import { validateKeywordQuery } from './keyword-query.ts';
+import type { PackedResults } from './result-packer.ts';
+import type { VectorStore } from './store.ts';
+import type { Reranker } from './reranker.ts';
+import type { LibraryMetadata } from './types.ts';
+import { Library } from './library.ts';
+
+/**
+ * A library to search, identified by the name its results are attributed to.
+ */
+export interface SearchableLibrary {
+
+   /** Library name */
+   name: string;
+
+   /** Initialized store for the library */
+   store: VectorStore;
+}
+
+export interface MultiLibrarySearcherConfig {
+
+   /**
+    * Embedder used for libraries built with its model, such as a pre-warmed shared
+    * embedder. Libraries built with other models get an embedder of their own.
+    */
+   embedder?: IEmbedder;
+
+   /** Reranker used when searching with `rerank: true` */
+   reranker?: Reranker;
+
+   /**
+    * Connection settings for libraries built with the http embedder (e.g., the API key,
+    * which is never stored in a library)
+    */
+   embedderOverrides?: Pick<EmbedderOptions, 'url' | 'apiKey'>;
+}
+
+export type MultiLibrarySearchOptions = Omit<SearchOptions, 'queryEmbedding'>;
+
+export interface MultiLibrarySearchResult extends SearchResultWithContext {
+
+   /** Name of the library the result came from */
+   library: string;
+
+   /** The result's score within its own library, before cross-library fusion */
+   libraryScore: number;
+}
+
+export interface MultiLibrarySearchResponse {
+
+   /** Fused results, best first */
+   results: MultiLibrarySearchResult[];
+
+   /** Libraries that couldn't be searched, e.g. because their model couldn't be loaded */
+   failures: Array<{ library: string; error: string }>;
+}
+
+export interface BudgetedSearchOptions extends MultiLibrarySearchOptions {
+
+   /**
+    * Tokens the returned excerpts may take in total, counted with the tokenizer of each
+    * library's embedding model. `k` still caps the number of results packed.
+    */
+   maxTokens: number;
+}
+
+export interface BudgetedSearchResponse extends PackedResults {
+
+   /** Libraries that couldn't be searched, e.g. because their model couldn't be loaded */
+   failures: Array<{ library: string; error: string }>;
+}
+
+/**
+ * Open libraries to search, running the schema migrations of any that predate the
+ * current schema, e.g. to add the vector index. If one can't be opened, those already
+ * opened are closed again.
+ *
+ * @param libraries - Names and paths of the libraries, e.g. from `LibraryManager`
+ * @returns The libraries, whose stores the caller must close
+ */
+export async function openSearchableLibraries(
+   libraries: Array<{ name: string; path: string }>
+): Promise<SearchableLibrary[]> {
+   const opened: SearchableLibrary[] = [];
+
+   try {
+      for (const { name, path } of libraries) {
+         const library = await Library.open(path);
+
+         opened.push({ name, store: library.getStore() });
+      }
+   } catch(e) {
+      for (const { store } of opened) {
+         store.close();
+      }
+      throw e;
+   }
+
+   return opened;
+}
+
+export class MultiLibrarySearcher {
+
+   private readonly _libraries: SearchableLibrary[];
+   private readonly _config: MultiLibrarySearcherConfig;
+
+   // Embedders created for libraries whose model differs from the shared embedder,
+   // keyed by embedding model
+   private readonly _embedders = new Map<string, IEmbedder>();
+
+   // Library each returned result came from; names alone may be shared by libraries
+   private readonly _resultLibraries = new WeakMap<MultiLibrarySearchResult, SearchableLibrary>();
+
+   public constructor(libraries: SearchableLibrary[], config: MultiLibrarySearcherConfig = {}) {
+      this._libraries = libraries;
+      this._config = config;
+   }
+
+   /**
+    * Search all libraries and fuse the results.
+    *
+    * The query is embedded once per distinct embedding model and prefix profile, and not
+    * at all for keyword-only searches (`hybridAlpha` 0), which don't load any embedding
+    * model. Each library is searched for the top `k` results, which are then fused:
+    * - with reranking, by reranker score, since every candidate is scored by the same
+    *   cross-encoder against the same query
+    * - otherwise, by each library's scores scaled to 0-1 (the best result of each library
+    *   scores 1, its worst 0), so every call returns scores on the same scale
+    *
+    * Each result keeps its score within its library as `libraryScore`.
+    *
+    * @throws KeywordQuerySyntaxError if `advancedQuery` is set and the query is invalid
+    */
+   public async search(options: MultiLibrarySearchOptions): Promise<MultiLibrarySearchResponse> {
+      const k = options.k ?? 10,
+            queryEmbeddings = new Map<string, Float32Array>(),
+            rankings: MultiLibrarySearchResult[][] = [],
+            failures: MultiLibrarySearchResponse['failures'] = [];
+
+      if (!options.query || options.query.trim().length === 0) {
+         return { results: [], failures };
+      }
+
+      // Checked once here, rather than failing each library with the same error
+      if (options.advancedQuery) {
+         validateKeywordQuery(options.query);
+      }
+
+      for (const library of this._libraries) {
+         try {
+            const embedded = options.hybridAlpha === 0
+               ? undefined
+               : await this._embedQuery(library, options.query, queryEmbeddings);
+
+            const searcher = new Searcher(embedded?.embedder ?? null, library.store, { reranker: this._config.reranker });
+
+            const results = await searcher.search({ ...options, k, queryEmbedding: embedded?.queryEmbedding });
+
+            rankings.push(results.map((result) => {
+               const fused = { ...result, library: library.name, libraryScore: result.score };
+
+               this._resultLibraries.set(fused, library);
+
+               return fused;
+            }));
+         } catch(e) {
+            failures.push({ library: library.name, error: e instanceof Error ? e.message : String(e) });
+         }
+      }
+
+      const fused = options.rerank && this._config.reranker
+         ? rankings.flat()
+         : this._normalizeRankings(rankings);
+
+      const results = fused
+         .sort((a, b) => {
+            return b.score - a.score;
+         })
+         .slice(0, k);
+
+      return { results, failures };
+   }
+
+   /**
+    * Search all libraries and pack the fused results into a token budget.
+    *
+    * Results from the same file whose lines overlap or adjoin are merged into continuous
+    * excerpts, so context shared by several results is included once. Excerpts are added
+    * in relevance order, with their context chunks while they fit, until the budget is
+    * spent. See `packResults()`.
+    */
+   public async searchWithinBudget(options: BudgetedSearchOptions): Promise<BudgetedSearchResponse> {
+      const { maxTokens, ...searchOptions } = options,
+            { results, failures } = await this.search(searchOptions);
+
+      const packed = await packResults(results, {
+         maxTokens,
+         countTokens: (text, result) => {
+            return this._countTokens(text, result);
+         },
+      });
+
+      return { ...packed, failures };
+   }
+
+   /**
+    * Dispose the embedders created by this searcher. The shared embedder and reranker
+    * from the config are left to their owner.
+    */
+   public async dispose(): Promise<void> {
+      for (const embedder of this._embedders.values()) {
+         await embedder.dispose();
+      }
+
+      this._embedders.clear();
+   }
+
+   /**
+    * Embed the query for a library, reusing the embedding of libraries built with the
+    * same model and prefix profile.
+    *
+    * @param library - Library to embed the query for
+    * @param query - The search query
+    * @param queryEmbeddings - This search's query embeddings, by model and prefix profile
+    * @returns The query embedding and the embedder for the library's model
+    */
+   private async _embedQuery(
+      library: SearchableLibrary,
+      query: string,
+      queryEmbeddings: Map<string, Float32Array>
+   ): Promise<{ embedder: IEmbedder; queryEmbedding: Float32Array }> {
+      const embeddingInfo = library.store.getMetadata<LibraryMetadata>()?.embedding,
+            key = getEmbeddingModelKey(embeddingInfo),
+            embedder = this._getEmbedder(key, embeddingInfo),
+            prefixProfile = embeddingInfo?.prefixProfile ?? DEFAULT_PREFIX_PROFILE,
+            queryKey = `${key}:${prefixProfile}`;
+
+      let queryEmbedding = queryEmbeddings.get(queryKey);
+
+      if (!queryEmbedding) {
+         queryEmbedding = await embedQueryWithProfile(embedder, query, prefixProfile);
+         queryEmbeddings.set(queryKey, queryEmbedding);
+      }
+
+      return { embedder, queryEmbedding };
+   }
+
+   /**
+    * Get an embedder for the given embedding model, preferring the shared embedder.
+    */
+   private _getEmbedder(key: string, embeddingInfo: LibraryMetadata['embedding'] | undefined): IEmbedder {
+      const shared = this._config.embedder;
+
+      if (shared && getEmbeddingModelKey(shared) === key) {
+         return shared;
+      }
+
+      let embedder = this._embedders.get(key);
+
+      if (!embedder) {
+         embedder = createEmbedder(getLibraryEmbedderOptions(embeddingInfo, this._config.embedderOverrides));
+         this._embedders.set(key, embedder);
+      }
+
+      return embedder;
+   }
+
+   /**
+    * Count the tokens of a text with the tokenizer of the embedding model of the library
+    * a result came from, or estimate them for embedders without one.
+    */
+   private async _countTokens(text: string, result: MultiLibrarySearchResult): Promise<number> {
+      const library = this._resultLibraries.get(result),
+            embeddingInfo = library?.store.getMetadata<LibraryMetadata>()?.embedding,
+            embedder = this._getEmbedder(getEmbeddingModelKey(embeddingInfo), embeddingInfo);
+
+      return embedder.countTokens ? embedder.countTokens(text) : estimateTokens(text);
+   }
+
+   /**
+    * Score each result by its score scaled to 0-1 within its library.
+    */
+   private _normalizeRankings(rankings: MultiLibrarySearchResult[][]): MultiLibrarySearchResult[] {
+      return rankings.flatMap((ranking) => {
+         const scores = normalizeScores(ranking);
+
+         // Rescored in place, since they are this search's own copies and are keyed to
+         // their library
+         return ranking.map((result, i) => {
+            result.score = scores[i];
+
+            return result;
+         });
+      });
+   }
+
+}
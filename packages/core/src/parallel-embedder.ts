@@ -0,0 +1,287 @@
+/**
+ * Parallel embedding module
+ *
+ * Embeds texts with a local Transformers.js model in several worker threads, each with
+ * its own ONNX Runtime session. Batches are split between the workers, which embed their
+ * share at the same time, and the embeddings are returned in the order of the texts.
+ */
+
+import { Worker } from 'worker_threads';
+import { cpus } from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Embedder } from './embedder.ts';
+import type { EmbedderConfig, IEmbedder, ProgressCallback } from './embedder.ts';
+import type { EmbeddingWorkerRequest, EmbeddingWorkerResponse } from './embedding-worker.ts';
+import { getPrefixProfile } from './embedding-prefixes.ts';
+
+const currentFilename = fileURLToPath(import.meta.url);
+
+const currentDirname = path.dirname(currentFilename);
+
+export interface ParallelEmbedderConfig extends EmbedderConfig {
+
+   /** Number of worker threads, each loading its own copy of the model */
+   workers: number;
+}
+
+/**
+ * Start a worker thread that answers `EmbeddingWorkerRequest`s, given the config of the
+ * embedder it runs.
+ */
+export type EmbeddingWorkerFactory = (config: EmbedderConfig) => Worker;
+
+interface PendingRequest {
+   resolve: (embeddings: Float32Array[]) => void;
+   reject: (error: Error) => void;
+}
+
+/**
+ * Get the path to the embedding worker script.
+ * Handles both development (.ts) and production (.js) environments.
+ */
+function getWorkerPath(): string {
+   const extension = currentFilename.endsWith('.ts') ? '.ts' : '.js';
+
+   return path.join(currentDirname, `embedding-worker${extension}`);
+}
+
+function createEmbeddingWorker(config: EmbedderConfig): Worker {
+   return new Worker(getWorkerPath(), { workerData: config });
+}
+
+/**
+ * Split the threads a single embedder would use (CPU cores - 1) between the workers, so
+ * that they don't compete for the same cores. Minimum 1 per worker.
+ */
+function getThreadsPerWorker(workers: number): number {
+   return Math.max(1, Math.floor((cpus().length - 1) / workers));
+}
+
+export class ParallelEmbedder implements IEmbedder {
+
+   public readonly provider = 'transformers';
+
+   private readonly _config: ParallelEmbedderConfig;
+   private readonly _createWorker: EmbeddingWorkerFactory;
+
+   // Describes the model the workers load; never loads it itself
+   private readonly _embedder: Embedder;
+
+   private readonly _pending = new Map<number, PendingRequest>();
+   private _workers: Worker[] = [];
+   private _initPromise: Promise<void> | null = null;
+   private _nextRequestId = 0;
+
+   // Set once a worker stops, since its share of later batches could never be embedded
+   private _failure: Error | undefined;
+
+   /**
+    * @param config - Embedder config, and the number of workers
+    * @param createWorker - Starts each worker; defaults to the embedding worker script
+    */
+   public constructor(config: ParallelEmbedderConfig, createWorker: EmbeddingWorkerFactory = createEmbeddingWorker) {
+      if (!Number.isInteger(config.workers) || config.workers < 1) {
+         throw new Error(`Invalid number of embedding workers: ${config.workers}`);
+      }
+
+      this._config = { ...config, numThreads: config.numThreads ?? getThreadsPerWorker(config.workers) };
+      this._embedder = new Embedder(this._config);
+      this._createWorker = createWorker;
+   }
+
+   public get model(): string {
+      return this._embedder.model;
+   }
+
+   public get prefixProfile(): string {
+      return this._embedder.prefixProfile;
+   }
+
+   public get quantization(): string {
+      return this._embedder.quantization;
+   }
+
+   public get dimensions(): number {
+      return this._embedder.dimensions;
+   }
+
+   /**
+    * Number of batches embedded at once, one per worker.
+    */
+   public get concurrency(): number {
+      return this._config.workers;
+   }
+
+   /**
+    * Start the workers and load the model in each of them. If any of them fails to start,
+    * the others are stopped, so that a later call starts them all again.
+    * Called automatically on first embed, but can be called explicitly for eager loading.
+    */
+   public async initialize(): Promise<void> {
+      if (!this._initPromise) {
+         this._initPromise = this._startWorkers().catch(async (e) => {
+            await this.dispose();
+            throw e;
+         });
+      }
+
+      await this._initPromise;
+   }
+
+   /**
+    * Embed a single text.
+    */
+   public async embed(text: string): Promise<Float32Array> {
+      const [ embedding ] = await this.embedBatch([ text ]);
+
+      return embedding;
+   }
+
+   /**
+    * Embed multiple texts, splitting them evenly between the workers. Progress is
+    * reported as each worker finishes its share. Fails once any worker has stopped.
+    */
+   public async embedBatch(texts: string[], onProgress?: ProgressCallback): Promise<Float32Array[]> {
+      await this.initialize();
+
+      if (texts.length === 0) {
+         return [];
+      }
+
+      const shardSize = Math.ceil(texts.length / this._workers.length),
+            shards: string[][] = [];
+
+      for (let i = 0; i < texts.length; i += shardSize) {
+         shards.push(texts.slice(i, i + shardSize));
+      }
+
+      let processed = 0;
+
+      const results = await Promise.all(shards.map(async (shard, i) => {
+         const embeddings = await this._request(this._workers[i], shard);
+
+         processed += shard.length;
+
+         if (onProgress) {
+            onProgress({ batch: i, totalBatches: shards.length, processed, total: texts.length });
+         }
+
+         return embeddings;
+      }));
+
+      return results.flat();
+   }
+
+   /**
+    * Embed a search query with the query prefix of this embedder's profile.
+    */
+   public async embedQuery(text: string): Promise<Float32Array> {
+      return this.embed(`${getPrefixProfile(this.prefixProfile).query}${text}`);
+   }
+
+   /**
+    * Embed documents with the document prefix of this embedder's profile.
+    */
+   public async embedDocuments(texts: string[], onProgress?: ProgressCallback): Promise<Float32Array[]> {
+      const prefix = getPrefixProfile(this.prefixProfile).document;
+
+      return this.embedBatch(texts.map((text) => { return `${prefix}${text}`; }), onProgress);
+   }
+
+   /**
+    * Stop the workers. Requests still in progress are rejected.
+    */
+   public async dispose(): Promise<void> {
+      const workers = this._workers;
+
+      this._workers = [];
+      this._initPromise = null;
+      this._failure = undefined;
+      this._rejectPending(new Error('Embedder was disposed'));
+
+      await Promise.all(workers.map((worker) => { return worker.terminate(); }));
+   }
+
+   private async _startWorkers(): Promise<void> {
+      for (let i = 0; i < this._config.workers; i++) {
+         const worker = this._createWorker(this._config);
+
+         worker.on('message', (response: EmbeddingWorkerResponse) => {
+            this._handleResponse(response);
+         });
+
+         worker.on('error', (error) => {
+            this._handleWorkerStopped(worker, error);
+         });
+
+         worker.on('exit', (code) => {
+            this._handleWorkerStopped(worker, new Error(`Embedding worker exited with code ${code}`));
+         });
+
+         this._workers.push(worker);
+      }
+
+      // The first worker downloads the model if it isn't cached yet, so the others
+      // load it from the cache rather than downloading it at the same time
+      const [ first, ...others ] = this._workers;
+
+      await this._request(first, []);
+      await Promise.all(others.map((worker) => { return this._request(worker, []); }));
+   }
+
+   private _request(worker: Worker, texts: string[]): Promise<Float32Array[]> {
+      if (this._failure) {
+         return Promise.reject(this._failure);
+      }
+
+      const id = this._nextRequestId;
+
+      this._nextRequestId += 1;
+
+      return new Promise((resolve, reject) => {
+         this._pending.set(id, { resolve, reject });
+         worker.postMessage({ id, texts } satisfies EmbeddingWorkerRequest);
+      });
+   }
+
+   private _handleResponse(response: EmbeddingWorkerResponse): void {
+      const pending = this._pending.get(response.id);
+
+      if (!pending) {
+         return;
+      }
+
+      this._pending.delete(response.id);
+
+      if (response.embeddings) {
+         pending.resolve(response.embeddings);
+      } else {
+         pending.reject(new Error(response.error ?? 'Embedding worker failed'));
+      }
+   }
+
+   /**
+    * A worker that fails takes the requests it was working on with it, and leaves the
+    * embedder unable to embed. Workers stopped by `dispose()` are ignored.
+    */
+   private _handleWorkerStopped(worker: Worker, error: Error): void {
+      if (!this._workers.includes(worker)) {
+         return;
+      }
+
+      this._failure = this._failure ?? error;
+      this._rejectPending(error);
+   }
+
+   private _rejectPending(error: Error): void {
+      const pending = [ ...this._pending.values() ];
+
+      this._pending.clear();
+
+      for (const request of pending) {
+         request.reject(error);
+      }
+   }
+
+}
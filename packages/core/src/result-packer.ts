@@ -0,0 +1,313 @@
+/**
+ * Result packer module
+ *
+ * Packs search results into a token budget for agents. Results from the same file whose
+ * lines overlap or adjoin are merged into continuous excerpts, so context chunks shared
+ * by several results are included once, and excerpts are added in relevance order until
+ * the budget is spent.
+ */
+
+import type { StoredChunk, SourceDocument } from './store.ts';
+import type { SearchResultWithContext } from './searcher.ts';
+
+/**
+ * A search result to pack, optionally attributed to a library.
+ */
+export type PackableResult = SearchResultWithContext & { library?: string };
+
+export interface PackOptions<T extends PackableResult> {
+
+   /** Tokens the excerpts may take in total */
+   maxTokens: number;
+
+   /**
+    * Count the tokens of an excerpt's content, with the tokenizer of the embedding
+    * model of the result it was packed for. Defaults to `estimateTokens`.
+    */
+   countTokens?: (text: string, result: T) => Promise<number>;
+}
+
+export interface PackedExcerpt {
+
+   /** Library the excerpt came from, for results attributed to one */
+   library?: string;
+
+   /** Source file path */
+   sourceFile: string;
+
+   /** Content version of the excerpt's chunks */
+   contentVersion?: string;
+
+   /** Provenance of the excerpt's document, when the library recorded it */
+   source?: SourceDocument;
+
+   /** First line of the excerpt */
+   startLine?: number;
+
+   /** Last line of the excerpt */
+   endLine?: number;
+
+   /** Continuous text of the excerpt, with lines shared by its chunks included once */
+   content: string;
+
+   /** Best score of the results merged into the excerpt */
+   score: number;
+
+   /** IDs of the matched chunks merged into the excerpt, in the order they were packed */
+   chunkIds: number[];
+
+   /** Tokens the excerpt's content takes */
+   tokens: number;
+}
+
+export interface PackedResults {
+
+   /** Excerpts, best first */
+   excerpts: PackedExcerpt[];
+
+   /** Tokens the excerpts take in total */
+   tokensUsed: number;
+
+   /** Number of results left out because even their match didn't fit the budget */
+   omitted: number;
+}
+
+/**
+ * A matched or context chunk of an excerpt.
+ */
+interface ExcerptPiece {
+
+   /** Identifies the chunk, or the parent returned in place of one */
+   key: string;
+   content: string;
+   startLine?: number;
+   endLine?: number;
+}
+
+/**
+ * An excerpt being packed, with the pieces it was joined from.
+ */
+interface Excerpt {
+   packed: PackedExcerpt;
+   fileKey: string;
+   pieces: ExcerptPiece[];
+}
+
+// Rough number of characters per token of English text and code
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the tokens of a text from its length, for embedders without a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+   return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function getFileKey(result: PackableResult): string {
+   return JSON.stringify([ result.library ?? null, result.sourceFile, result.contentVersion ?? null ]);
+}
+
+function getContextPiece(chunk: StoredChunk): ExcerptPiece {
+   return { key: `chunk:${chunk.id}`, content: chunk.content, startLine: chunk.startLine, endLine: chunk.endLine };
+}
+
+/**
+ * Get the pieces of a result: its match, and its context chunks if `withContext`.
+ */
+function getPieces(result: PackableResult, withContext: boolean): ExcerptPiece[] {
+   const match: ExcerptPiece = {
+      key: result.parentId === undefined ? `chunk:${result.id}` : `parent:${result.parentId}`,
+      content: result.content,
+      startLine: result.startLine,
+      endLine: result.endLine,
+   };
+
+   if (!withContext) {
+      return [ match ];
+   }
+
+   return [
+      ...(result.contextBefore ?? []).map(getContextPiece),
+      match,
+      ...(result.contextAfter ?? []).map(getContextPiece),
+   ];
+}
+
+/**
+ * Check whether two pieces are the same chunk, or have lines that overlap or adjoin.
+ */
+function isConnected(a: ExcerptPiece, b: ExcerptPiece): boolean {
+   if (a.key === b.key) {
+      return true;
+   }
+
+   if (a.startLine === undefined || a.endLine === undefined || b.startLine === undefined || b.endLine === undefined) {
+      return false;
+   }
+
+   return a.startLine <= b.endLine + 1 && b.startLine <= a.endLine + 1;
+}
+
+function compareStartLines(a: ExcerptPiece, b: ExcerptPiece): number {
+   if (a.startLine === undefined || b.startLine === undefined) {
+      // Pieces without lines go last, in the order they were added
+      return (a.startLine === undefined ? 1 : 0) - (b.startLine === undefined ? 1 : 0);
+   }
+
+   return a.startLine - b.startLine;
+}
+
+/**
+ * Join pieces into one text in line order, leaving out the lines each piece shares with
+ * the pieces before it.
+ */
+function joinPieces(pieces: ExcerptPiece[]): Pick<PackedExcerpt, 'content' | 'startLine' | 'endLine'> {
+   const sorted = [ ...pieces ].sort(compareStartLines),
+         texts: string[] = [];
+
+   let startLine: number | undefined,
+       endLine: number | undefined;
+
+   for (const piece of sorted) {
+      if (piece.startLine === undefined || piece.endLine === undefined) {
+         texts.push(piece.content);
+         continue;
+      }
+
+      if (endLine === undefined) {
+         texts.push(piece.content);
+         startLine = piece.startLine;
+         endLine = piece.endLine;
+         continue;
+      }
+
+      if (piece.endLine <= endLine) {
+         continue;
+      }
+
+      const sharedLines = Math.max(endLine - piece.startLine + 1, 0);
+
+      texts.push(sharedLines > 0 ? piece.content.split('\n').slice(sharedLines).join('\n') : piece.content);
+      endLine = piece.endLine;
+   }
+
+   return { content: texts.join('\n'), startLine, endLine };
+}
+
+/**
+ * Merge a result's pieces with the excerpts of the same file they connect to.
+ *
+ * @returns The merged pieces, and the excerpts they replace
+ */
+function mergePieces(
+   excerpts: Excerpt[],
+   fileKey: string,
+   pieces: ExcerptPiece[]
+): { pieces: ExcerptPiece[]; replaced: Excerpt[] } {
+   const replaced = excerpts.filter((excerpt) => {
+      return excerpt.fileKey === fileKey && excerpt.pieces.some((a) => {
+         return pieces.some((b) => { return isConnected(a, b); });
+      });
+   });
+
+   const merged = new Map<string, ExcerptPiece>();
+
+   for (const piece of [ ...replaced.flatMap((excerpt) => { return excerpt.pieces; }), ...pieces ]) {
+      if (!merged.has(piece.key)) {
+         merged.set(piece.key, piece);
+      }
+   }
+
+   return { pieces: [ ...merged.values() ], replaced };
+}
+
+/**
+ * Try to add a result to the excerpts within the remaining budget.
+ *
+ * @returns The tokens the result added, or undefined if it didn't fit
+ */
+async function packResult<T extends PackableResult>(
+   excerpts: Excerpt[],
+   result: T,
+   withContext: boolean,
+   remainingTokens: number,
+   countTokens: (text: string, result: T) => Promise<number>
+): Promise<number | undefined> {
+   const fileKey = getFileKey(result),
+         { pieces, replaced } = mergePieces(excerpts, fileKey, getPieces(result, withContext)),
+         joined = joinPieces(pieces),
+         tokens = await countTokens(joined.content, result);
+
+   const addedTokens = replaced.reduce((sum, excerpt) => { return sum - excerpt.packed.tokens; }, tokens);
+
+   if (addedTokens > remainingTokens) {
+      return undefined;
+   }
+
+   const packed: PackedExcerpt = {
+      ...joined,
+      library: result.library,
+      sourceFile: result.sourceFile,
+      contentVersion: result.contentVersion,
+      source: result.source ?? replaced.find((r) => { return r.packed.source; })?.packed.source,
+      score: Math.max(result.score, ...replaced.map((r) => { return r.packed.score; })),
+      chunkIds: [ ...replaced.flatMap((r) => { return r.packed.chunkIds; }), result.id ],
+      tokens,
+   };
+
+   // The merged excerpt takes the place of the best excerpt it replaces
+   const index = replaced.length > 0 ? excerpts.indexOf(replaced[0]) : excerpts.length;
+
+   excerpts.splice(index, replaced.length > 0 ? 1 : 0, { packed, fileKey, pieces });
+
+   for (const other of replaced.slice(1)) {
+      excerpts.splice(excerpts.indexOf(other), 1);
+   }
+
+   return addedTokens;
+}
+
+/**
+ * Pack search results into a token budget.
+ *
+ * Results are added best first. Each is added with its context chunks if they fit, or
+ * as its match alone if not, and is left out if even that doesn't fit; later, smaller
+ * results may still fill the rest of the budget. Results from the same file whose lines
+ * overlap or adjoin are merged into one excerpt, which counts the lines they share once.
+ *
+ * @param results - Results, best first
+ * @param options - Token budget and counter
+ */
+export async function packResults<T extends PackableResult>(
+   results: T[],
+   options: PackOptions<T>
+): Promise<PackedResults> {
+   const countTokens = options.countTokens ?? (async (text: string) => { return estimateTokens(text); }),
+         excerpts: Excerpt[] = [];
+
+   let tokensUsed = 0,
+       omitted = 0;
+
+   for (const result of results) {
+      const hasContext = (result.contextBefore?.length ?? 0) + (result.contextAfter?.length ?? 0) > 0,
+            remainingTokens = options.maxTokens - tokensUsed;
+
+      let addedTokens = hasContext ? await packResult(excerpts, result, true, remainingTokens, countTokens) : undefined;
+
+      if (addedTokens === undefined) {
+         addedTokens = await packResult(excerpts, result, false, remainingTokens, countTokens);
+      }
+
+      if (addedTokens === undefined) {
+         omitted += 1;
+      } else {
+         tokensUsed += addedTokens;
+      }
+   }
+
+   return {
+      excerpts: excerpts.map((excerpt) => { return excerpt.packed; }),
+      tokensUsed,
+      omitted,
+   };
+}
@@ -0,0 +1,496 @@
+/**
+ * Search server module
+ *
+ * Serves installed libraries over a JSON HTTP API, for tools that can't use the MCP
+ * server over stdio. Routes:
+ *
+ *   GET  /libraries                   - List installed libraries
+ *   GET  /libraries/:name             - Get a library's metadata
+ *   POST /search                      - Search one or more libraries
+ *   GET  /chunks/:id?library=<name>   - Get a single chunk from a library
+ *
+ * Errors are returned as `{ "error": "..." }` with an appropriate status code.
+ */
+
+import * as http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { AddressInfo } from 'net';
+import { LibraryManager } from './manager.ts';
+import { MultiLibrarySearcher, openSearchableLibraries } from './multi-library-searcher.ts';
+import { validateKeywordQuery } from './keyword-query.ts';
+import type { MultiLibrarySearchOptions } from './multi-library-searcher.ts';
+import { Library } from './library.ts';
+import type { IEmbedder, EmbedderOptions } from './embedder.ts';
+import type { Reranker } from './reranker.ts';
+import type { InstalledLibrary } from './manager.ts';
+
+export interface SearchServerConfig {
+
+   /** Library manager used to discover libraries (default: project-local + global) */
+   manager?: LibraryManager;
+
+   /**
+    * Shared embedder, ideally pre-warmed, used for libraries built with its model.
+    * Libraries built with other models get an embedder per request.
+    */
+   embedder?: IEmbedder;
+
+   /** Shared reranker. Requests with `rerank: true` are rejected without one. */
+   reranker?: Reranker;
+
+   /** Connection settings for libraries built with the http embedder */
+   embedderOverrides?: Pick<EmbedderOptions, 'url' | 'apiKey'>;
+
+   /** When set, every request must send `Authorization: Bearer <authToken>` */
+   authToken?: string;
+
+   /** Maximum request body size in bytes (default: 65536) */
+   maxBodyBytes?: number;
+
+   /** Maximum query length in characters (default: 2000) */
+   maxQueryLength?: number;
+
+   /** Maximum number of results per search (default: 50) */
+   maxK?: number;
+
+   /** Maximum number of context chunks before or after each result (default: 5) */
+   maxContext?: number;
+
+   /** Maximum number of searches run at once; others get a 503 (default: 4) */
+   maxConcurrentSearches?: number;
+}
+
+/**
+ * Body of a `POST /search` request.
+ */
+export interface SearchRequest extends Omit<MultiLibrarySearchOptions, 'k'> {
+
+   /** Libraries to search (default: all installed libraries) */
+   libraries?: string[];
+
+   /** Number of results to return (default: 10) */
+   k?: number;
+}
+
+/**
+ * An error with the HTTP status it should be reported with.
+ */
+class HttpError extends Error {
+
+   public readonly name = 'HttpError';
+
+   public constructor(public readonly status: number, message: string) {
+      super(message);
+   }
+
+}
+
+type ResolvedConfig = Required<Pick<SearchServerConfig,
+   'maxBodyBytes' | 'maxQueryLength' | 'maxK' | 'maxContext' | 'maxConcurrentSearches'
+>>;
+
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+
+const DEFAULT_MAX_QUERY_LENGTH = 2000;
+
+const DEFAULT_MAX_K = 50;
+
+const DEFAULT_MAX_CONTEXT = 5;
+
+const DEFAULT_MAX_CONCURRENT_SEARCHES = 4;
+
+const STRING_FILTERS = [ 'contentVersion', 'sourceFile', 'sourceType' ] as const;
+
+const STRING_ARRAY_FILTERS = [ 'libraries', 'languages', 'entityTypes' ] as const;
+
+function sha256(value: string): Buffer {
+   return createHash('sha256').update(value)
+      .digest();
+}
+
+export class SearchServer {
+
+   private readonly _server: http.Server;
+   private readonly _manager: LibraryManager;
+   private readonly _config: SearchServerConfig;
+   private readonly _limits: ResolvedConfig;
+   private _activeSearches = 0;
+
+   public constructor(config: SearchServerConfig = {}) {
+      this._config = config;
+      this._manager = config.manager ?? new LibraryManager();
+      this._limits = {
+         maxBodyBytes: config.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES,
+         maxQueryLength: config.maxQueryLength ?? DEFAULT_MAX_QUERY_LENGTH,
+         maxK: config.maxK ?? DEFAULT_MAX_K,
+         maxContext: config.maxContext ?? DEFAULT_MAX_CONTEXT,
+         maxConcurrentSearches: config.maxConcurrentSearches ?? DEFAULT_MAX_CONCURRENT_SEARCHES,
+      };
+      this._server = http.createServer((req, res) => {
+         this._handle(req, res);
+      });
+   }
+
+   /**
+    * The underlying Node.js HTTP server.
+    */
+   public get server(): http.Server {
+      return this._server;
+   }
+
+   /**
+    * Start listening. Binds to localhost unless another host is given.
+    *
+    * @returns The address the server is listening on
+    */
+   public async listen(port: number, host = '127.0.0.1'): Promise<AddressInfo> {
+      await new Promise<void>((resolve, reject) => {
+         this._server.once('error', reject);
+         this._server.listen(port, host, () => {
+            this._server.off('error', reject);
+            resolve();
+         });
+      });
+
+      return this._server.address() as AddressInfo;
+   }
+
+   /**
+    * Stop accepting connections and wait for open requests to finish.
+    */
+   public async close(): Promise<void> {
+      await new Promise<void>((resolve, reject) => {
+         this._server.close((err) => {
+            return err ? reject(err) : resolve();
+         });
+         this._server.closeIdleConnections();
+      });
+   }
+
+   private async _handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+      let status = 200,
+          body: unknown;
+
+      try {
+         if (!this._isAuthorized(req)) {
+            res.setHeader('WWW-Authenticate', 'Bearer');
+            throw new HttpError(401, 'Missing or invalid bearer token');
+         }
+
+         body = await this._route(req);
+      } catch(e) {
+         status = e instanceof HttpError ? e.status : 500;
+         body = { error: e instanceof Error ? e.message : String(e) };
+      }
+
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+   }
+
+   private async _route(req: http.IncomingMessage): Promise<unknown> {
+      const url = new URL(req.url ?? '/', 'http://localhost'),
+            method = req.method ?? 'GET';
+
+      const segments = url.pathname
+         .split('/')
+         .filter(Boolean)
+         .map(decodeURIComponent);
+
+      if (segments[0] === 'search' && segments.length === 1) {
+         this._assertMethod(method, 'POST');
+         return this._search(await this._readJson(req));
+      }
+
+      if (segments[0] === 'libraries' && segments.length === 1) {
+         this._assertMethod(method, 'GET');
+         return this._listLibraries();
+      }
+
+      if (segments[0] === 'libraries' && segments.length === 2) {
+         this._assertMethod(method, 'GET');
+         return this._getLibrary(segments[1]);
+      }
+
+      if (segments[0] === 'chunks' && segments.length === 2) {
+         this._assertMethod(method, 'GET');
+         return this._getChunk(segments[1], url.searchParams.get('library'));
+      }
+
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+   }
+
+   private async _listLibraries(): Promise<unknown> {
+      const installed = await this._manager.listInstalled();
+
+      return {
+         libraries: installed.map((lib) => {
+            return {
+               name: lib.name,
+               version: lib.version,
+               contentVersion: lib.contentVersion,
+               description: lib.description,
+               location: lib.location,
+            };
+         }),
+      };
+   }
+
+   private async _getLibrary(name: string): Promise<unknown> {
+      const lib = await this._findLibrary(name);
+
+      return { name: lib.name, location: lib.location, metadata: lib.metadata };
+   }
+
+   private async _getChunk(idParam: string, libraryName: string | null): Promise<unknown> {
+      const id = Number(idParam);
+
+      if (!Number.isInteger(id) || id < 1) {
+         throw new HttpError(400, `Invalid chunk id: ${idParam}`);
+      }
+
+      if (!libraryName) {
+         throw new HttpError(400, 'The "library" query parameter is required');
+      }
+
+      const lib = await this._findLibrary(libraryName),
+            library = await Library.open(lib.path);
+
+      try {
+         const chunk = library.getStore().getChunk(id);
+
+         if (!chunk) {
+            throw new HttpError(404, `Chunk ${id} not found in library '${lib.name}'`);
+         }
+
+         return { library: lib.name, chunk };
+      } finally {
+         await library.close();
+      }
+   }
+
+   private async _search(body: unknown): Promise<unknown> {
+      const request = this._parseSearchRequest(body);
+
+      if (this._activeSearches >= this._limits.maxConcurrentSearches) {
+         throw new HttpError(503, 'Too many concurrent searches, try again later');
+      }
+
+      this._activeSearches += 1;
+
+      try {
+         const { libraries, ...options } = request,
+               installed = await this._manager.listInstalled();
+
+         const targets = libraries
+            ? libraries.map((name) => {
+               const lib = installed.find((l) => { return l.name === name; });
+
+               if (!lib) {
+                  throw new HttpError(404, `Library '${name}' is not installed`);
+               }
+
+               return lib;
+            })
+            : installed;
+
+         const stores = await openSearchableLibraries(targets);
+
+         const searcher = new MultiLibrarySearcher(stores, {
+            embedder: this._config.embedder,
+            reranker: this._config.reranker,
+            embedderOverrides: this._config.embedderOverrides,
+         });
+
+         try {
+            return await searcher.search(options);
+         } finally {
+            await searcher.dispose();
+
+            for (const { store } of stores) {
+               store.close();
+            }
+         }
+      } finally {
+         this._activeSearches -= 1;
+      }
+   }
+
+   /**
+    * Validate a search request body against the schema and the server's limits.
+    */
+   private _parseSearchRequest(body: unknown): SearchRequest {
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+         throw new HttpError(400, 'Request body must be a JSON object');
+      }
+
+      const input = body as Record<string, unknown>,
+            request: SearchRequest = { query: '' };
+
+      if (typeof input.query !== 'string' || input.query.trim().length === 0) {
+         throw new HttpError(400, '"query" must be a non-empty string');
+      }
+
+      if (input.query.length > this._limits.maxQueryLength) {
+         throw new HttpError(400, `"query" must be at most ${this._limits.maxQueryLength} characters`);
+      }
+
+      request.query = input.query;
+
+      this._parseAdvancedQuery(input, request);
+
+      for (const key of STRING_FILTERS) {
+         if (input[key] !== undefined) {
+            if (typeof input[key] !== 'string') {
+               throw new HttpError(400, `"${key}" must be a string`);
+            }
+            request[key] = input[key];
+         }
+      }
+
+      for (const key of STRING_ARRAY_FILTERS) {
+         if (input[key] !== undefined) {
+            const value = input[key];
+
+            if (!Array.isArray(value) || !value.every((v) => { return typeof v === 'string'; })) {
+               throw new HttpError(400, `"${key}" must be an array of strings`);
+            }
+            request[key] = value;
+         }
+      }
+
+      request.k = this._parseInteger(input, 'k', 1, this._limits.maxK);
+      request.contextBefore = this._parseInteger(input, 'contextBefore', 0, this._limits.maxContext);
+      request.contextAfter = this._parseInteger(input, 'contextAfter', 0, this._limits.maxContext);
+
+      this._parseRankingOptions(input, request);
+
+      return request;
+   }
+
+   /**
+    * Validate the `advancedQuery` option, and the query's syntax when it's set.
+    */
+   private _parseAdvancedQuery(input: Record<string, unknown>, request: SearchRequest): void {
+      if (input.advancedQuery === undefined) {
+         return;
+      }
+
+      if (typeof input.advancedQuery !== 'boolean') {
+         throw new HttpError(400, '"advancedQuery" must be a boolean');
+      }
+
+      request.advancedQuery = input.advancedQuery;
+
+      if (request.advancedQuery) {
+         try {
+            validateKeywordQuery(request.query);
+         } catch(e) {
+            throw new HttpError(400, e instanceof Error ? e.message : String(e));
+         }
+      }
+   }
+
+   /**
+    * Validate the options controlling how results are ranked.
+    */
+   private _parseRankingOptions(input: Record<string, unknown>, request: SearchRequest): void {
+      if (input.hybridAlpha !== undefined) {
+         const alpha = input.hybridAlpha;
+
+         if (typeof alpha !== 'number' || alpha < 0 || alpha > 1) {
+            throw new HttpError(400, '"hybridAlpha" must be a number between 0 and 1');
+         }
+         request.hybridAlpha = alpha;
+      }
+
+      if (input.fusion !== undefined) {
+         if (input.fusion !== 'rrf' && input.fusion !== 'linear') {
+            throw new HttpError(400, '"fusion" must be "rrf" or "linear"');
+         }
+         request.fusion = input.fusion;
+      }
+
+      if (input.rerank !== undefined) {
+         if (typeof input.rerank !== 'boolean') {
+            throw new HttpError(400, '"rerank" must be a boolean');
+         }
+
+         if (input.rerank && !this._config.reranker) {
+            throw new HttpError(400, 'Reranking is not enabled on this server');
+         }
+         request.rerank = input.rerank;
+      }
+   }
+
+   private _parseInteger(input: Record<string, unknown>, key: string, min: number, max: number): number | undefined {
+      const value = input[key];
+
+      if (value === undefined) {
+         return undefined;
+      }
+
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+         throw new HttpError(400, `"${key}" must be an integer between ${min} and ${max}`);
+      }
+
+      return value;
+   }
+
+   private async _findLibrary(name: string): Promise<InstalledLibrary> {
+      const lib = await this._manager.find(name);
+
+      if (!lib) {
+         throw new HttpError(404, `Library '${name}' is not installed`);
+      }
+
+      return lib;
+   }
+
+   private _assertMethod(method: string, expected: string): void {
+      if (method !== expected) {
+         throw new HttpError(405, `Method ${method} not allowed, use ${expected}`);
+      }
+   }
+
+   /**
+    * Check the bearer token, comparing hashes in constant time.
+    */
+   private _isAuthorized(req: http.IncomingMessage): boolean {
+      if (!this._config.authToken) {
+         return true;
+      }
+
+      const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+
+      if (!match) {
+         return false;
+      }
+
+      return timingSafeEqual(sha256(match[1]), sha256(this._config.authToken));
+   }
+
+   /**
+    * Read and parse a JSON request body, enforcing the body size limit.
+    */
+   private async _readJson(req: http.IncomingMessage): Promise<unknown> {
+      const chunks: Buffer[] = [];
+
+      let size = 0;
+
+      for await (const chunk of req) {
+         size += (chunk as Buffer).length;
+
+         if (size > this._limits.maxBodyBytes) {
+            throw new HttpError(413, `Request body exceeds ${this._limits.maxBodyBytes} bytes`);
+         }
+         chunks.push(chunk as Buffer);
+      }
+
+      try {
+         return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+      } catch(_e) {
+         throw new HttpError(400, 'Request body must be valid JSON');
+      }
+   }
+
+}
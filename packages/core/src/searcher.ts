@@ -5,35 +5,76 @@
  * hybrid search (vector + BM25), and optional reranking.
  */
 
+import { EmbeddingModelMismatchError } from './embedder.ts';
+import { embedQueryWithProfile } from './embedding-prefixes.ts';
 import type { IEmbedder } from './embedder.ts';
-import type { VectorStore, SearchResult, StoredChunk } from './store.ts';
+import type { LibraryMetadata } from './types.ts';
+import type {
+   VectorStore,
+   SearchResult,
+   StoredChunk,
+   FusionStrategy,
+   SearchFilter,
+   KeywordSearchOptions,
+   SourceDocument,
+   ParentChunk,
+} from './store.ts';
 import type { Reranker } from './reranker.ts';
 
-export interface SearchOptions {
+export interface SearchOptions extends KeywordSearchOptions {
 
    /** The search query text */
    query: string;
 
+   /**
+    * Precomputed embedding of the query, used instead of embedding it again. Must come
+    * from the same model the library was built with.
+    */
+   queryEmbedding?: Float32Array;
+
    /** Number of results to return (default: 10) */
    k?: number;
 
    /**
     * Balance between vector and keyword search (default: 0.5)
-    * 0 = keyword only, 1 = vector only, 0.5 = equal weight
+    * 0 = keyword only, 1 = vector only, 0.5 = equal weight. Values in between weight
+    * the fusion of the two result lists. Keyword-only searches don't embed the query.
     */
    hybridAlpha?: number;
 
+   /**
+    * How vector and keyword results are fused in hybrid search (default: 'rrf').
+    * 'rrf' uses weighted Reciprocal Rank Fusion; 'linear' combines normalized scores.
+    */
+   fusion?: FusionStrategy;
+
    /** Whether to apply reranking (default: false) */
    rerank?: boolean;
 
-   /** Filter by content version */
-   contentVersion?: string;
-
    /** Number of chunks to include before each result for context */
    contextBefore?: number;
 
    /** Number of chunks to include after each result for context */
    contextAfter?: number;
+
+   /**
+    * Return the parent each matched chunk was cut from, such as its whole section or AST
+    * entity, in its place (default: false). Several matching chunks of the same parent
+    * return it once. Only libraries built with child chunks have parents; other chunks
+    * are returned as they are.
+    */
+   returnParents?: boolean;
+
+   /**
+    * Re-rank results with Maximal Marginal Relevance, trading each result's relevance
+    * against its similarity to the results ranked above it, as measured by their stored
+    * embeddings. From 0 to 1: 1 keeps the relevance order, lower values favor results
+    * unlike those already picked. Disabled when unset.
+    */
+   mmrLambda?: number;
+
+   /** Maximum number of results from the same source file */
+   maxPerFile?: number;
 }
 
 export interface SearcherConfig {
@@ -44,6 +85,9 @@ export interface SearcherConfig {
    /** Default hybrid alpha value */
    defaultHybridAlpha?: number;
 
+   /** Default fusion strategy for hybrid search */
+   defaultFusion?: FusionStrategy;
+
    /** Reranker instance for optional result reranking */
    reranker?: Reranker;
 }
@@ -52,6 +96,15 @@ export { SearchResult };
 
 export interface SearchResultWithContext extends SearchResult {
 
+   /** Provenance of the document this result was cut from, if the library records it */
+   source?: SourceDocument;
+
+   /**
+    * ID of the parent chunk whose content and lines this result holds, when searching
+    * with `returnParents`. `id` is still that of the best-matching chunk.
+    */
+   parentId?: number;
+
    /** Chunks before this result from the same source file */
    contextBefore?: StoredChunk[];
 
@@ -63,15 +116,53 @@ const DEFAULT_K = 10;
 
 const DEFAULT_HYBRID_ALPHA = 0.5;
 
+const DEFAULT_FUSION: FusionStrategy = 'rrf';
+
+// Several chunks of the same parent may match, so parents draw on more candidates
+const PARENT_CANDIDATE_FACTOR = 3;
+
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+   let dotProduct = 0,
+       normA = 0,
+       normB = 0;
+
+   for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+   }
+
+   const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+
+   return magnitude === 0 ? 0 : dotProduct / magnitude;
+}
+
+/**
+ * Scale result scores to 0-1, so relevance can be weighed against similarity whatever
+ * produced the scores (RRF, cosine similarity, BM25, or a reranker).
+ */
+export function normalizeScores(results: SearchResult[]): number[] {
+   const scores = results.map((r) => { return r.score; }),
+         min = Math.min(...scores),
+         range = Math.max(...scores) - min;
+
+   return scores.map((score) => { return range === 0 ? 1 : (score - min) / range; });
+}
+
 export class Searcher {
 
-   private readonly _embedder: IEmbedder;
+   private readonly _embedder: IEmbedder | null;
    private readonly _store: VectorStore;
    private readonly _reranker: Reranker | null;
    private readonly _config: Omit<Required<SearcherConfig>, 'reranker'>;
 
+   /**
+    * @param embedder - Embeds queries; searchers without one can only search by keyword
+    * @param store - Initialized store of the library to search
+    * @param config - Searcher defaults and reranker
+    */
    public constructor(
-      embedder: IEmbedder,
+      embedder: IEmbedder | null,
       store: VectorStore,
       config: SearcherConfig = {}
    ) {
@@ -81,6 +172,7 @@ export class Searcher {
       this._config = {
          defaultK: config.defaultK ?? DEFAULT_K,
          defaultHybridAlpha: config.defaultHybridAlpha ?? DEFAULT_HYBRID_ALPHA,
+         defaultFusion: config.defaultFusion ?? DEFAULT_FUSION,
       };
    }
 
@@ -88,102 +180,57 @@ export class Searcher {
     * Perform a search using hybrid search (vector + keyword).
     *
     * The search process:
-    * 1. Embed the query using the embedder
-    * 2. Perform hybrid search combining vector similarity and BM25
-    * 3. Deduplicate results by source file + line
+    * 1. Embed the query using the embedder, with the instruction prefix the library's
+    *    documents were embedded for, unless hybridAlpha is 0 (keyword only)
+    * 2. Perform hybrid search combining vector similarity and BM25, weighted by
+    *    hybridAlpha
+    * 3. Deduplicate results by source file + line, or by parent when returning parents
     * 4. Optionally apply cross-encoder reranking for improved relevance
-    * 5. Optionally expand results with surrounding context chunks
+    * 5. Optionally diversify results with Maximal Marginal Relevance and a cap on results
+    *    per source file
+    * 6. Optionally expand results with surrounding context chunks
     */
    public async search(options: SearchOptions): Promise<SearchResultWithContext[]> {
-      const { query, contentVersion, contextBefore, contextAfter } = options,
-            k = options.k ?? this._config.defaultK,
-            hybridAlpha = options.hybridAlpha ?? this._config.defaultHybridAlpha;
+      const { query } = options,
+            k = options.k ?? this._config.defaultK;
 
       if (!query || query.trim().length === 0) {
          return [];
       }
 
-      // Embed the query
-      const queryEmbedding = await this._embedder.embed(query),
-            willRerank = options.rerank && this._reranker;
-
-      // Request extra results to account for duplicates that will be filtered.
-      // When reranking, fetch more candidates to give the reranker better options.
-      const expandedK = willRerank ? k * 5 : k * 2;
-
-      // Determine search strategy based on hybridAlpha
-      let results: SearchResult[];
-
-      if (hybridAlpha === 0) {
-         // Keyword-only search
-         results = this._store.keywordSearch(query, expandedK, { contentVersion });
-      } else if (hybridAlpha === 1) {
-         // Vector-only search
-         results = this._store.vectorSearch(queryEmbedding, expandedK, { contentVersion });
-      } else {
-         // Hybrid search with RRF fusion
-         results = this._store.hybridSearch(queryEmbedding, query, expandedK, { contentVersion });
+      if (options.mmrLambda !== undefined && !(options.mmrLambda >= 0 && options.mmrLambda <= 1)) {
+         throw new Error(`mmrLambda must be between 0 and 1, got ${options.mmrLambda}`);
       }
 
-      // Deduplicate results by source file + start line BEFORE reranking to save compute.
-      // When reranking, keep more candidates (k * 3) for the reranker to work with.
-      const seen = new Set<string>(),
-            dedupLimit = willRerank ? k * 3 : k;
+      const willRerank = options.rerank && this._reranker,
+            willDiversify = options.mmrLambda !== undefined || options.maxPerFile !== undefined;
 
-      let deduped: SearchResult[] = [];
+      // Request extra results to account for duplicates that will be filtered. When
+      // reranking or diversifying, fetch more candidates to pick the results from.
+      const expandedK = (willRerank || willDiversify ? k * 5 : k * 2) * (options.returnParents ? PARENT_CANDIDATE_FACTOR : 1),
+            results = await this._retrieve(options, expandedK);
 
-      for (const result of results) {
-         const key = `${result.sourceFile}:${result.startLine ?? 'unknown'}`;
+      // Deduplicate results BEFORE reranking to save compute. When reranking or
+      // diversifying, keep more candidates (k * 3) to work with.
+      let deduped = this._deduplicate(results, willRerank || willDiversify ? k * 3 : k, options.returnParents);
 
-         if (!seen.has(key)) {
-            seen.add(key);
-            deduped.push(result);
-            if (deduped.length >= dedupLimit) {
-               break;
-            }
-         }
+      // Apply reranking AFTER deduplication to avoid wasting compute on duplicates.
+      // Diversifying picks the k results from all reranked candidates.
+      if (willRerank) {
+         deduped = await this._rerank(query, deduped, willDiversify ? deduped.length : k);
       }
 
-      // Apply reranking AFTER deduplication to avoid wasting compute on duplicates
-      if (willRerank && this._reranker) {
-         const documents = deduped.map((r) => {
-            return r.content;
-         });
-
-         const reranked = await this._reranker.rerank(query, documents, k);
-
-         // Map reranked results back to original SearchResult objects with updated scores
-         deduped = reranked.map((r) => {
-            const original = deduped[r.index];
-
-            return {
-               ...original,
-               score: r.score, // Use reranker score
-            };
-         });
-      } else {
-         // Without reranking, just limit to k
-         deduped = deduped.slice(0, k);
-      }
+      deduped = willDiversify ? this._diversify(deduped, k, options) : deduped.slice(0, k);
 
-      // Expand results with context if requested
-      if (contextBefore || contextAfter) {
-         return deduped.map((result) => {
-            const adjacent = this._store.getAdjacentChunks(
-               result.id,
-               contextBefore ?? 0,
-               contextAfter ?? 0
-            );
-
-            return {
-               ...result,
-               contextBefore: adjacent.before.length > 0 ? adjacent.before : undefined,
-               contextAfter: adjacent.after.length > 0 ? adjacent.after : undefined,
-            };
-         });
-      }
+      const sources = this._store.getChunkSources(deduped.map((r) => { return r.id; }));
 
-      return deduped;
+      const withSources: SearchResultWithContext[] = deduped.map((result) => {
+         const source = sources.get(result.id);
+
+         return source ? { ...result, source } : result;
+      });
+
+      return this._expandContext(withSources, options.contextBefore ?? 0, options.contextAfter ?? 0);
    }
 
    /**
@@ -192,13 +239,13 @@ export class Searcher {
    public async vectorSearch(
       query: string,
       k?: number,
-      options: { contentVersion?: string } = {}
+      options: SearchFilter = {}
    ): Promise<SearchResult[]> {
       return this.search({
+         ...options,
          query,
          k,
          hybridAlpha: 1,
-         contentVersion: options.contentVersion,
       });
    }
 
@@ -208,7 +255,7 @@ export class Searcher {
    public keywordSearch(
       query: string,
       k?: number,
-      options: { contentVersion?: string } = {}
+      options: KeywordSearchOptions = {}
    ): SearchResult[] {
       const effectiveK = k ?? this._config.defaultK;
 
@@ -216,13 +263,16 @@ export class Searcher {
          return [];
       }
 
-      return this._store.keywordSearch(query, effectiveK, options);
+      return this._store.keywordSearch(query, effectiveK, {
+         ...this._searchFilter(options),
+         advancedQuery: options.advancedQuery,
+      });
    }
 
    /**
-    * Get the embedder instance.
+    * Get the embedder instance (if configured).
     */
-   public get embedder(): IEmbedder {
+   public get embedder(): IEmbedder | null {
       return this._embedder;
    }
 
@@ -247,4 +297,277 @@ export class Searcher {
       return this._reranker !== null;
    }
 
+   /**
+    * Retrieve candidates with the search strategy picked by hybridAlpha.
+    */
+   private async _retrieve(options: SearchOptions, k: number): Promise<SearchResult[]> {
+      const { query, advancedQuery } = options,
+            hybridAlpha = options.hybridAlpha ?? this._config.defaultHybridAlpha,
+            filter = this._searchFilter(options);
+
+      if (hybridAlpha === 0) {
+         // Keyword-only search
+         return this._store.keywordSearch(query, k, { ...filter, advancedQuery });
+      }
+
+      const queryEmbedding = await this._getQueryEmbedding(options);
+
+      if (hybridAlpha === 1) {
+         // Vector-only search
+         return this._store.vectorSearch(queryEmbedding, k, filter);
+      }
+
+      // Hybrid search, weighting vector results by hybridAlpha
+      return this._store.hybridSearch(queryEmbedding, query, k, {
+         ...filter,
+         advancedQuery,
+         alpha: hybridAlpha,
+         fusion: options.fusion ?? this._config.defaultFusion,
+      });
+   }
+
+   /**
+    * Rerank results with the cross-encoder, scoring them by the reranker's scores.
+    */
+   private async _rerank(
+      query: string,
+      results: SearchResultWithContext[],
+      topK: number
+   ): Promise<SearchResultWithContext[]> {
+      if (!this._reranker) {
+         return results;
+      }
+
+      const documents = results.map((r) => {
+         return r.content;
+      });
+
+      const reranked = await this._reranker.rerank(query, documents, topK);
+
+      // Map reranked results back to original SearchResult objects with updated scores
+      return reranked.map((r) => {
+         const original = results[r.index];
+
+         return {
+            ...original,
+            score: r.score, // Use reranker score
+         };
+      });
+   }
+
+   /**
+    * Expand results with the chunks around them in their source file, if requested.
+    */
+   private _expandContext(
+      results: SearchResultWithContext[],
+      contextBefore: number,
+      contextAfter: number
+   ): SearchResultWithContext[] {
+      if (!contextBefore && !contextAfter) {
+         return results;
+      }
+
+      return results.map((result) => {
+         const adjacent = this._store.getAdjacentChunks(result.id, contextBefore, contextAfter);
+
+         return {
+            ...result,
+            contextBefore: adjacent.before.length > 0 ? adjacent.before : undefined,
+            contextAfter: adjacent.after.length > 0 ? adjacent.after : undefined,
+         };
+      });
+   }
+
+   /**
+    * Deduplicate results by source file + start line, keeping the best-ranked of each.
+    * When returning parents, results are deduplicated by parent instead and hold their
+    * parent's content and lines.
+    *
+    * @param results - Results, best first
+    * @param limit - Number of results to keep
+    * @param returnParents - Whether to return the parents of matched chunks
+    */
+   private _deduplicate(results: SearchResult[], limit: number, returnParents?: boolean): SearchResultWithContext[] {
+      const parents = returnParents
+         ? this._store.getChunkParents(results.map((r) => { return r.id; }))
+         : new Map<number, ParentChunk>();
+
+      const seen = new Set<string>(),
+            deduped: SearchResultWithContext[] = [];
+
+      for (const result of results) {
+         const parent = parents.get(result.id),
+               key = parent ? `parent:${parent.id}` : `${result.sourceFile}:${result.startLine ?? 'unknown'}`;
+
+         if (seen.has(key)) {
+            continue;
+         }
+
+         seen.add(key);
+         deduped.push(parent ? this._withParent(result, parent) : result);
+
+         if (deduped.length >= limit) {
+            break;
+         }
+      }
+
+      return deduped;
+   }
+
+   /**
+    * Pick up to `k` results with Maximal Marginal Relevance: each pick is the result with
+    * the best balance of relevance and dissimilarity to the results picked before it.
+    * Without `mmrLambda`, results are picked in relevance order. Results from source
+    * files that already have `maxPerFile` picks are skipped.
+    *
+    * @param results - Candidates, best first
+    * @param k - Number of results to pick
+    * @param options - Lambda and per-file cap
+    */
+   private _diversify(
+      results: SearchResultWithContext[],
+      k: number,
+      options: Pick<SearchOptions, 'mmrLambda' | 'maxPerFile'>
+   ): SearchResultWithContext[] {
+      const { maxPerFile } = options,
+            lambda = options.mmrLambda ?? 1,
+            relevance = normalizeScores(results),
+            ids = results.map((r) => { return r.id; }),
+            embeddings = lambda < 1 ? this._store.getEmbeddings(ids) : new Map<number, Float32Array>(),
+            // Highest similarity of each candidate to the results picked so far
+            redundancy = results.map(() => { return 0; }),
+            fileCounts = new Map<string, number>(),
+            remaining = new Set(results.keys()),
+            picked: SearchResultWithContext[] = [];
+
+      while (picked.length < k) {
+         let bestScore = -Infinity,
+             best: number | undefined;
+
+         for (const i of remaining) {
+            const fileCount = fileCounts.get(results[i].sourceFile) ?? 0,
+                  score = lambda * relevance[i] - (1 - lambda) * redundancy[i];
+
+            if ((maxPerFile === undefined || fileCount < maxPerFile) && score > bestScore) {
+               best = i;
+               bestScore = score;
+            }
+         }
+
+         if (best === undefined) {
+            break;
+         }
+
+         const pick = results[best],
+               pickEmbedding = embeddings.get(pick.id);
+
+         picked.push(pick);
+         remaining.delete(best);
+         fileCounts.set(pick.sourceFile, (fileCounts.get(pick.sourceFile) ?? 0) + 1);
+
+         for (const i of remaining) {
+            const embedding = embeddings.get(results[i].id);
+
+            if (pickEmbedding && embedding) {
+               redundancy[i] = Math.max(redundancy[i], cosineSimilarity(pickEmbedding, embedding));
+            }
+         }
+      }
+
+      return picked;
+   }
+
+   /**
+    * Replace the content and lines of a result with those of its parent. The offsets of
+    * the matched terms don't apply to the parent's content, so they are dropped; the
+    * snippet still shows the match.
+    */
+   private _withParent(result: SearchResult, parent: ParentChunk): SearchResultWithContext {
+      return {
+         ...result,
+         highlights: undefined,
+         content: parent.content,
+         startLine: parent.startLine,
+         endLine: parent.endLine,
+         parentId: parent.id,
+      };
+   }
+
+   /**
+    * Embed the query, unless the caller already did, and check that it can be compared
+    * with the library's embeddings.
+    */
+   private async _getQueryEmbedding(options: SearchOptions): Promise<Float32Array> {
+      const queryEmbedding = options.queryEmbedding ?? await this._embedQuery(options.query);
+
+      this._assertCompatibleEmbedding(queryEmbedding, !options.queryEmbedding);
+
+      return queryEmbedding;
+   }
+
+   /**
+    * Embed a query with the prefix profile recorded in the library's metadata.
+    */
+   private _embedQuery(query: string): Promise<Float32Array> {
+      const embedding = this._store.getMetadata<LibraryMetadata>()?.embedding;
+
+      if (!this._embedder) {
+         throw new Error('Searcher has no embedder, so it can only search by keyword (hybridAlpha 0)');
+      }
+
+      return embedQueryWithProfile(this._embedder, query, embedding?.prefixProfile);
+   }
+
+   /**
+    * Pick the filters out of search options. Libraries that hold several versions of
+    * their content are searched at their newest version unless one is given.
+    */
+   private _searchFilter(options: SearchFilter): SearchFilter {
+      const versions = this._store.getMetadata<LibraryMetadata>()?.contentVersions,
+            newestVersion = versions && versions.length > 1 ? versions[0] : undefined;
+
+      return {
+         contentVersion: options.contentVersion ?? newestVersion,
+         languages: options.languages,
+         sourceFile: options.sourceFile,
+         sourceType: options.sourceType,
+         entityTypes: options.entityTypes,
+      };
+   }
+
+   /**
+    * Throw if the query embedding can't be compared with the library's embeddings. Only
+    * checked when the library records its embedding model.
+    *
+    * @param queryEmbedding - The embedded query
+    * @param fromEmbedder - Whether the query was embedded by this searcher's embedder,
+    * in which case the embedder's model is compared too
+    */
+   private _assertCompatibleEmbedding(queryEmbedding: Float32Array, fromEmbedder: boolean): void {
+      const embedding = this._store.getMetadata<LibraryMetadata>()?.embedding;
+
+      if (!embedding) {
+         return;
+      }
+
+      const queryModel = fromEmbedder ? this._embedder?.model : undefined;
+
+      if (queryModel && queryModel !== embedding.model) {
+         throw new EmbeddingModelMismatchError(
+            `Library was embedded with ${embedding.model}, but the query was embedded with ${queryModel}`,
+            embedding.model,
+            queryModel
+         );
+      }
+
+      if (queryEmbedding.length !== embedding.dimensions) {
+         throw new EmbeddingModelMismatchError(
+            `Library has ${embedding.dimensions}-dimensional embeddings (${embedding.model}), `
+            + `but the query embedding has ${queryEmbedding.length} dimensions`,
+            embedding.model,
+            queryModel
+         );
+      }
+   }
+
 }
@@ -17,7 +17,7 @@ export interface SourceFile {
    /** Relative path from the source root */
    relativePath: string;
 
-   /** File content as string */
+   /** File content as string (empty when listed with `skipContent`) */
    content: string;
 
    /** File size in bytes */
@@ -46,6 +46,17 @@ export interface FileSourceOptions {
 
    /** Maximum file size in bytes to include (default: 1MB) */
    maxFileSize?: number;
+
+   /**
+    * List files without reading their content, for callers that read files one at a
+    * time (default: false)
+    */
+   skipContent?: boolean;
+}
+
+interface ReadOptions {
+   maxFileSize: number;
+   skipContent: boolean;
 }
 
 /**
@@ -151,8 +162,12 @@ export class FileSource {
       const patterns = options.patterns ?? DEFAULT_PATTERNS,
             useDefaults = options.useDefaultIgnore ?? true,
             defaultIgnore = useDefaults ? DEFAULT_IGNORE : [],
-            ignore = [ ...defaultIgnore, ...(options.ignore ?? []) ],
-            maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+            ignore = [ ...defaultIgnore, ...(options.ignore ?? []) ];
+
+      const readOptions: ReadOptions = {
+         maxFileSize: options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE,
+         skipContent: options.skipContent ?? false,
+      };
 
       const allFiles: SourceFile[] = [];
 
@@ -169,9 +184,9 @@ export class FileSource {
          }
 
          if (stats.isFile()) {
-            await this._processFile(absolutePath, absolutePath, maxFileSize, allFiles);
+            await this._processFile(absolutePath, absolutePath, readOptions, allFiles);
          } else if (stats.isDirectory()) {
-            await this._processDirectory(absolutePath, patterns, ignore, maxFileSize, allFiles);
+            await this._processDirectory(absolutePath, patterns, ignore, readOptions, allFiles);
          }
       }
 
@@ -206,16 +221,16 @@ export class FileSource {
    private async _processFile(
       filePath: string,
       basePath: string,
-      maxFileSize: number,
+      readOptions: ReadOptions,
       results: SourceFile[]
    ): Promise<void> {
       const stats = await fs.stat(filePath);
 
-      if (stats.size > maxFileSize) {
+      if (stats.size > readOptions.maxFileSize) {
          return;
       }
 
-      const file = await this._readFile(filePath, basePath);
+      const file = await this._readFile(filePath, basePath, readOptions.skipContent);
 
       if (file) {
          results.push(file);
@@ -226,7 +241,7 @@ export class FileSource {
       dirPath: string,
       patterns: string[],
       ignore: string[],
-      maxFileSize: number,
+      readOptions: ReadOptions,
       results: SourceFile[]
    ): Promise<void> {
       const files = await fg(patterns, {
@@ -241,8 +256,8 @@ export class FileSource {
          const filePath = typeof entry === 'string' ? entry : entry.path,
                fileStats = typeof entry === 'string' ? await fs.stat(entry) : entry.stats;
 
-         if (fileStats && fileStats.size <= maxFileSize) {
-            const file = await this._readFile(filePath, dirPath);
+         if (fileStats && fileStats.size <= readOptions.maxFileSize) {
+            const file = await this._readFile(filePath, dirPath, readOptions.skipContent);
 
             if (file) {
                results.push(file);
@@ -251,10 +266,10 @@ export class FileSource {
       }
    }
 
-   private async _readFile(filePath: string, basePath: string): Promise<SourceFile | null> {
+   private async _readFile(filePath: string, basePath: string, skipContent = false): Promise<SourceFile | null> {
       try {
          const [ content, stats ] = await Promise.all([
-            fs.readFile(filePath, 'utf-8'),
+            skipContent ? '' : fs.readFile(filePath, 'utf-8'),
             fs.stat(filePath),
          ]);
 
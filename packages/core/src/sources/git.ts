@@ -63,6 +63,12 @@ export interface GitSourceOptions {
 
    /** Skip automatic license detection (default: false) */
    skipLicenseDetection?: boolean;
+
+   /**
+    * List files without reading their content (default: false). The files can be read
+    * from their `path` until the temporary directory is cleaned up.
+    */
+   skipContent?: boolean;
 }
 
 export interface GitProgress {
@@ -428,6 +434,7 @@ export class GitSource {
             ignore: options.ignore,
             useDefaultIgnore: options.useDefaultIgnore,
             maxFileSize: options.maxFileSize,
+            skipContent: options.skipContent,
          });
 
          // Update file paths to be relative to repo root
@@ -485,6 +492,7 @@ export class GitSource {
          ignore: options.ignore,
          useDefaultIgnore: options.useDefaultIgnore,
          maxFileSize: options.maxFileSize,
+         skipContent: options.skipContent,
       });
 
       // Update file paths to be relative to repo root
@@ -140,6 +140,12 @@ const LICENSE_PATTERNS: LicensePattern[] = [
    },
 ];
 
+/** Number of lines at the top of a file searched for an SPDX header */
+const SPDX_HEADER_LINES = 20;
+
+// The expression ends at the end of the line or at a closing comment marker
+const SPDX_HEADER_PATTERN = /SPDX-License-Identifier:\s*([^\r\n]+?)\s*(?:\*\/|-->|$)/m;
+
 /**
  * License detector for identifying licenses from file content.
  */
@@ -201,6 +207,20 @@ export class LicenseDetector {
       return null;
    }
 
+   /**
+    * Detect the license a file declares in an `SPDX-License-Identifier` header comment.
+    * Only the first lines of the file are checked, where such headers are placed.
+    *
+    * @param content - File content
+    * @returns The declared SPDX license expression, or null if there is none
+    */
+   public detectFromFileHeader(content: string): string | null {
+      const header = content.split('\n', SPDX_HEADER_LINES).join('\n'),
+            match = SPDX_HEADER_PATTERN.exec(header);
+
+      return match ? match[1].trim() : null;
+   }
+
    /**
     * Detect license from a directory by checking common license files.
     *
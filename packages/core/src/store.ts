@@ -8,6 +8,17 @@
 import Database from 'better-sqlite3';
 import * as sqliteVec from 'sqlite-vec';
 import type { Chunk } from './chunker.ts';
+import { matchContentVersions } from './content-version.ts';
+import { createVectorIndex } from './vector-index.ts';
+import type { LibraryMetadata } from './types.ts';
+import {
+   KeywordQuerySyntaxError,
+   HIGHLIGHT_START,
+   HIGHLIGHT_END,
+   parseHighlightedText,
+   validateKeywordQuery,
+} from './keyword-query.ts';
+import type { TextHighlight, HighlightedText } from './keyword-query.ts';
 
 export interface StoredChunk {
    id: number;
@@ -37,6 +48,154 @@ export interface SearchResult {
    endLine?: number;
    language?: string;
    metadata?: Record<string, unknown>;
+
+   /** Offsets of the terms the keyword query matched in `content` */
+   highlights?: TextHighlight[];
+
+   /** Excerpt of `content` around the terms the keyword query matched */
+   snippet?: HighlightedText;
+}
+
+/**
+ * A larger chunk, such as a whole document section or AST entity, that smaller chunks
+ * were cut from for embedding. Parents are stored without embeddings; searches match
+ * their children.
+ */
+export interface ParentChunk {
+   id: number;
+   content: string;
+   sourceFile: string;
+   contentVersion?: string;
+   startLine?: number;
+   endLine?: number;
+}
+
+/**
+ * A document ingested into a library, with its provenance. Each chunk links to the
+ * document it was cut from.
+ */
+export interface SourceDocument {
+   id: number;
+
+   /** Where the document came from: "git" or "local" */
+   type: string;
+
+   /** Repository URL for git sources, or the source directory or file for local ones */
+   uri: string;
+
+   /** Document path, matching the `sourceFile` of its chunks */
+   path: string;
+
+   /** Git commit the document was read from */
+   ref?: string;
+
+   /** Git blob SHA of the document's contents */
+   blobSha?: string;
+
+   /** Size in bytes */
+   size?: number;
+
+   /** Hash of the document's contents (e.g., "sha256:...") */
+   contentHash?: string;
+
+   /** SPDX license identifier or expression that applies to the document */
+   license?: string;
+
+   contentVersion?: string;
+
+   /** When the document was read */
+   retrievedAt?: string;
+}
+
+/**
+ * A document to record with `VectorStore.addSources`.
+ */
+export type NewSourceDocument = Omit<SourceDocument, 'id' | 'retrievedAt'>;
+
+interface SourceRow {
+   id: number;
+   type: string;
+   uri: string;
+   path: string | null;
+   ref: string | null;
+   blob_sha: string | null;
+   size: number | null;
+   content_hash: string | null;
+   license: string | null;
+   content_version: string | null;
+   retrieved_at: string | null;
+}
+
+const SOURCE_COLUMNS = `
+   s.id, s.type, s.uri, s.path, s.ref, s.blob_sha, s.size, s.content_hash, s.license,
+   s.content_version, s.retrieved_at
+`;
+
+// Finds the document recorded for a chunk being inserted, by path and content version
+const SOURCE_ID_LOOKUP = `,
+   (SELECT id FROM sources WHERE path = ? AND content_version IS ? ORDER BY id DESC LIMIT 1)
+`;
+
+/**
+ * Strategy for fusing vector and keyword results in hybrid search.
+ * - `rrf`: weighted Reciprocal Rank Fusion, based only on each result's rank
+ * - `linear`: weighted sum of min-max normalized vector and BM25 scores
+ */
+export type FusionStrategy = 'rrf' | 'linear';
+
+/**
+ * Structured filters applied to vector, keyword, and hybrid search. Filters are pushed
+ * down into SQL, so results are only drawn from matching chunks.
+ */
+export interface SearchFilter {
+
+   /**
+    * Filter by content version: an exact version, "latest", or a semver or date range
+    * (e.g. "^18" or ">=2024-01 <2024-07") read according to the library's
+    * `contentVersionType`. `Searcher` defaults to the newest version of libraries that
+    * hold several.
+    */
+   contentVersion?: string;
+
+   /** Only include chunks in one of these languages (e.g., "typescript", "markdown") */
+   languages?: string[];
+
+   /**
+    * Only include chunks whose source file matches this glob (SQLite GLOB syntax, where
+    * `*` also matches `/`). Relative patterns match at any directory depth.
+    */
+   sourceFile?: string;
+
+   /** Only include chunks with this source type (e.g., "file") */
+   sourceType?: string;
+
+   /**
+    * Only include AST chunks containing an entity of one of these types
+    * (e.g., "function", "class")
+    */
+   entityTypes?: string[];
+}
+
+export interface KeywordSearchOptions extends SearchFilter {
+
+   /**
+    * Run the query as FTS5 query syntax, with phrases ("use effect"), prefixes (useEff*),
+    * NEAR groups, and AND/OR/NOT (default: false). Invalid queries throw a
+    * `KeywordQuerySyntaxError`. Otherwise punctuation is dropped and any term matches.
+    */
+   advancedQuery?: boolean;
+}
+
+export interface HybridSearchOptions extends KeywordSearchOptions {
+
+   /**
+    * Weight of the vector results between 0 and 1 (default: 0.5). Keyword results are
+    * weighted by `1 - alpha`.
+    */
+   alpha?: number;
+
+   /** How to fuse the two result lists (default: 'rrf') */
+   fusion?: FusionStrategy;
 }
 
 export interface VectorStoreConfig {
@@ -47,11 +206,22 @@ const DEFAULT_EMBEDDING_DIMENSIONS = 384;
 
 const RRF_K = 60; // RRF fusion constant
 
+const DEFAULT_HYBRID_ALPHA = 0.5;
+
+// Tokens in keyword search snippets, at most 64
+const SNIPPET_TOKENS = 16;
+
+// sqlite-vec rejects KNN queries with a larger k
+const MAX_KNN_K = 4096;
+
 export class VectorStore {
 
    private readonly _db: Database.Database;
    private readonly _embeddingDimensions: number;
    private _isInitialized: boolean = false;
+   private _vectorIndexExists: boolean = false;
+   private _sourceIdsExist: boolean = false;
+   private _parentIdsExist: boolean = false;
 
    public constructor(dbPath: string, config: VectorStoreConfig = {}) {
       this._db = new Database(dbPath);
@@ -82,7 +252,12 @@ export class VectorStore {
             content_version TEXT,
             content_version_type TEXT,
             retrieved_at TEXT DEFAULT CURRENT_TIMESTAMP,
-            metadata TEXT
+            metadata TEXT,
+            path TEXT,
+            blob_sha TEXT,
+            size INTEGER,
+            content_hash TEXT,
+            license TEXT
          )
       `);
 
@@ -101,7 +276,21 @@ export class VectorStore {
             end_line INTEGER,
             language TEXT,
             metadata TEXT,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            source_id INTEGER REFERENCES sources(id),
+            parent_id INTEGER REFERENCES parents(id)
+         )
+      `);
+
+      // Create parents table for the sections that chunks were cut from
+      this._db.exec(`
+         CREATE TABLE IF NOT EXISTS parents (
+            id INTEGER PRIMARY KEY,
+            content TEXT NOT NULL,
+            source_file TEXT NOT NULL,
+            content_version TEXT,
+            start_line INTEGER,
+            end_line INTEGER
          )
       `);
 
@@ -111,6 +300,19 @@ export class VectorStore {
          ON chunks(content_version)
       `);
 
+      // Databases that predate source_id get the columns and their indexes from schema
+      // migration 003
+      if (this._hasSourceIds()) {
+         this._db.exec('CREATE INDEX IF NOT EXISTS idx_chunks_source_id ON chunks(source_id)');
+         this._db.exec('CREATE INDEX IF NOT EXISTS idx_sources_path ON sources(path)');
+      }
+
+      // Databases that predate parent_id get the column and its index from schema
+      // migration 004
+      if (this._hasParentIds()) {
+         this._db.exec('CREATE INDEX IF NOT EXISTS idx_chunks_parent_id ON chunks(parent_id)');
+      }
+
       // Create FTS5 virtual table for keyword search
       this._db.exec(`
          CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
@@ -151,6 +353,14 @@ export class VectorStore {
          )
       `);
 
+      // Create the vector index for new databases. Existing databases that predate the
+      // index get it from schema migration 002, which also backfills existing rows.
+      const hasChunks = this._db.prepare('SELECT 1 FROM chunks LIMIT 1').get() !== undefined;
+
+      if (!hasChunks && !this._hasVectorIndex()) {
+         this._createVectorIndex();
+      }
+
       this._isInitialized = true;
    }
 
@@ -176,10 +386,7 @@ export class VectorStore {
          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
-      // Serialize codeContext to metadata JSON if present
-      const metadataJson = chunk.metadata.codeContext
-         ? JSON.stringify({ codeContext: chunk.metadata.codeContext })
-         : null;
+      const metadataJson = this._serializeMetadata(chunk);
 
       const result = insertChunk.run(
          chunk.content,
@@ -216,25 +423,39 @@ export class VectorStore {
          throw new Error('Chunks and embeddings must have the same length');
       }
 
+      // Link each chunk to its document, if one was recorded with addSources
+      const linkSources = this._hasSourceIds(),
+            sourceIdColumn = linkSources ? ', source_id' : '',
+            sourceIdValue = linkSources ? SOURCE_ID_LOOKUP : '';
+
+      // Link each chunk to the parent it was cut from, if any
+      const linkParents = this._hasParentIds(),
+            parentIdColumn = linkParents ? ', parent_id' : '',
+            parentIdValue = linkParents ? ', ?' : '';
+
       const insertChunk = this._db.prepare(`
          INSERT INTO chunks (
             content, embedding_content, embedding, source_file, source_type, source_ref,
-            content_version, start_line, end_line, language, metadata
+            content_version, start_line, end_line, language, metadata${sourceIdColumn}${parentIdColumn}
          )
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?${sourceIdValue}${parentIdValue})
       `);
 
-      const ids: number[] = [];
+      const insertParent = this._db.prepare(`
+         INSERT INTO parents (content, source_file, content_version, start_line, end_line)
+         VALUES (?, ?, ?, ?, ?)
+      `);
+
+      const ids: number[] = [],
+            parentIds = new Map<Chunk, number>();
 
       const transaction = this._db.transaction(() => {
          for (let i = 0; i < chunks.length; i++) {
             const chunk = chunks[i],
-                  embedding = embeddings[i];
+                  embedding = embeddings[i],
+                  parentId = linkParents ? this._addParent(chunk, insertParent, parentIds, options.contentVersion) : null;
 
-            // Serialize codeContext to metadata JSON if present
-            const metadataJson = chunk.metadata.codeContext
-               ? JSON.stringify({ codeContext: chunk.metadata.codeContext })
-               : null;
+            const metadataJson = this._serializeMetadata(chunk);
 
             const result = insertChunk.run(
                chunk.content,
@@ -247,7 +468,9 @@ export class VectorStore {
                chunk.metadata.startLine,
                chunk.metadata.endLine,
                chunk.metadata.language,
-               metadataJson
+               metadataJson,
+               ...(linkSources ? [ chunk.metadata.sourceFile, options.contentVersion ?? null ] : []),
+               ...(linkParents ? [ parentId ] : [])
             );
 
             ids.push(Number(result.lastInsertRowid));
@@ -261,44 +484,74 @@ export class VectorStore {
 
    /**
     * Perform vector similarity search.
+    *
+    * Uses the sqlite-vec `chunks_vec` index when present. Libraries that have not been
+    * migrated to schema v2 yet fall back to scanning every stored embedding.
     */
    public vectorSearch(
       queryEmbedding: Float32Array,
       k: number,
-      options: { contentVersion?: string } = {}
+      options: SearchFilter = {}
    ): SearchResult[] {
       this._ensureInitialized();
 
-      let query: string,
-          params: unknown[];
+      if (!this._hasVectorIndex()) {
+         return this._scanVectorSearch(queryEmbedding, k, options);
+      }
 
-      if (options.contentVersion) {
-         query = `
-            SELECT
-               id, content, embedding, source_file, source_type,
-               source_ref, content_version, start_line, end_line,
-               language, metadata
-            FROM chunks
-            WHERE content_version = ?
-         `;
-         params = [ options.contentVersion ];
-      } else {
-         query = `
-            SELECT
-               id, content, embedding, source_file, source_type,
-               source_ref, content_version, start_line, end_line,
-               language, metadata
-            FROM chunks
-         `;
-         params = [];
+      const limit = Math.min(k, MAX_KNN_K);
+
+      if (limit <= 0) {
+         return [];
       }
 
-      const stmt = this._db.prepare(query);
+      const params: unknown[] = [
+         Buffer.from(queryEmbedding.buffer, queryEmbedding.byteOffset, queryEmbedding.byteLength),
+         limit,
+      ];
+
+      const knnConditions: string[] = [],
+            contentVersions = options.contentVersion ? this._resolveContentVersions(options.contentVersion) : [],
+            singleVersion = contentVersions.length === 1;
+
+      // Content version is a vec0 metadata column, so a single version can be filtered
+      // inside the index
+      if (singleVersion) {
+         knnConditions.push('content_version = ?');
+         params.push(contentVersions[0]);
+      }
+
+      // Other filters pre-select the candidate chunk IDs for the KNN query
+      const filter = this._buildFilterConditions({
+         ...options,
+         contentVersion: singleVersion ? undefined : options.contentVersion,
+      }, '');
+
+      if (filter.conditions.length > 0) {
+         knnConditions.push(`chunk_id IN (SELECT id FROM chunks WHERE ${filter.conditions.join(' AND ')})`);
+         params.push(...filter.params);
+      }
+
+      const stmt = this._db.prepare(`
+         WITH knn AS (
+            SELECT chunk_id, distance
+            FROM chunks_vec
+            WHERE embedding MATCH ?
+               AND k = ?
+               ${knnConditions.map((c) => { return `AND ${c}`; }).join('\n               ')}
+         )
+         SELECT
+            c.id, c.content, c.source_file, c.source_type,
+            c.source_ref, c.content_version, c.start_line, c.end_line,
+            c.language, c.metadata, knn.distance
+         FROM knn
+         JOIN chunks c ON c.id = knn.chunk_id
+         ORDER BY knn.distance
+      `);
 
       const rows = stmt.all(...params) as Array<{
          id: number;
          content: string;
-         embedding: Buffer;
          source_file: string;
          source_type: string;
          source_ref: string | null;
@@ -307,20 +560,15 @@ export class VectorStore {
          end_line: number | null;
          language: string | null;
          metadata: string | null;
+         distance: number;
       }>;
 
-      // Compute similarity scores
-      const embeddingArray = new Float32Array(queryEmbedding.buffer);
-
-      const results = rows.map((row) => {
-         const docEmbedding = new Float32Array(row.embedding.buffer);
-
-         const similarity = this._cosineSimilarity(embeddingArray, docEmbedding);
-
+      return rows.map((row) => {
          return {
             id: row.id,
             content: row.content,
-            score: similarity,
+            // Cosine distance is 1 - cosine similarity
+            score: 1 - row.distance,
             sourceFile: row.source_file,
             sourceType: row.source_type,
             sourceRef: row.source_ref ?? undefined,
@@ -331,76 +579,56 @@ export class VectorStore {
             metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
          };
       });
-
-      // Sort by similarity descending and take top k
-      return results
-         .sort((a, b) => {
-            return b.score - a.score;
-         })
-         .slice(0, k);
    }
 
    /**
-    * Perform BM25 keyword search using FTS5.
+    * Perform BM25 keyword search using FTS5. Results carry the offsets of the matched
+    * terms and a snippet around them.
+    *
+    * @throws KeywordQuerySyntaxError if `advancedQuery` is set and the query is invalid
     */
    public keywordSearch(
       query: string,
       k: number,
-      options: { contentVersion?: string } = {}
+      options: KeywordSearchOptions = {}
    ): SearchResult[] {
       this._ensureInitialized();
 
-      // Escape special FTS5 characters
-      const escapedQuery = this._escapeFts5Query(query);
-
-      let sqlQuery: string,
-          params: unknown[];
+      const { advancedQuery, ...filterOptions } = options;
 
-      if (options.contentVersion) {
-         sqlQuery = `
-            SELECT
-               c.id,
-               c.content,
-               c.source_file,
-               c.source_type,
-               c.source_ref,
-               c.content_version,
-               c.start_line,
-               c.end_line,
-               c.language,
-               c.metadata,
-               bm25(chunks_fts) as score
-            FROM chunks_fts f
-            JOIN chunks c ON c.id = f.rowid
-            WHERE chunks_fts MATCH ?
-               AND c.content_version = ?
-            ORDER BY score
-            LIMIT ?
-         `;
-         params = [ escapedQuery, options.contentVersion, k ];
-      } else {
-         sqlQuery = `
-            SELECT
-               c.id,
-               c.content,
-               c.source_file,
-               c.source_type,
-               c.source_ref,
-               c.content_version,
-               c.start_line,
-               c.end_line,
-               c.language,
-               c.metadata,
-               bm25(chunks_fts) as score
-            FROM chunks_fts f
-            JOIN chunks c ON c.id = f.rowid
-            WHERE chunks_fts MATCH ?
-            ORDER BY score
-            LIMIT ?
-         `;
-         params = [ escapedQuery, k ];
+      if (advancedQuery) {
+         validateKeywordQuery(query);
       }
 
+      // Escape special FTS5 characters unless the query uses them
+      const matchQuery = advancedQuery ? query : this._escapeFts5Query(query),
+            filter = this._buildFilterConditions(filterOptions, 'c.');
+
+      const sqlQuery = `
+         SELECT
+            c.id,
+            c.content,
+            c.source_file,
+            c.source_type,
+            c.source_ref,
+            c.content_version,
+            c.start_line,
+            c.end_line,
+            c.language,
+            c.metadata,
+            highlight(chunks_fts, 0, ?, ?) as highlighted,
+            snippet(chunks_fts, 0, ?, ?, '…', ${SNIPPET_TOKENS}) as snippet,
+            bm25(chunks_fts) as score
+         FROM chunks_fts f
+         JOIN chunks c ON c.id = f.rowid
+         WHERE chunks_fts MATCH ?
+            ${filter.conditions.map((c) => { return `AND ${c}`; }).join('\n            ')}
+         ORDER BY score
+         LIMIT ?
+      `;
+
+      const params = [ HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END, matchQuery, ...filter.params, k ];
+
       try {
          const stmt = this._db.prepare(sqlQuery);
 
@@ -415,6 +643,8 @@ export class VectorStore {
             end_line: number | null;
             language: string | null;
             metadata: string | null;
+            highlighted: string;
+            snippet: string;
             score: number;
          }>;
 
@@ -433,51 +663,53 @@ export class VectorStore {
                endLine: row.end_line ?? undefined,
                language: row.language ?? undefined,
                metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+               highlights: parseHighlightedText(row.highlighted).highlights,
+               snippet: parseHighlightedText(row.snippet),
             };
          });
-      } catch(_e) {
+      } catch(e) {
+         if (advancedQuery && e instanceof Error) {
+            // SQLite rejected a query that passed validation
+            throw new KeywordQuerySyntaxError(e.message.replace(/^fts5: /, ''), query);
+         }
+
          // FTS5 query failed (e.g., syntax error), return empty results
          return [];
       }
    }
 
    /**
-    * Perform hybrid search combining vector and keyword search with RRF fusion.
+    * Perform hybrid search combining vector and keyword search.
+    *
+    * `alpha` weights the vector results and `1 - alpha` the keyword results. With the
+    * default `rrf` fusion the weights scale each list's reciprocal rank contribution;
+    * with `linear` fusion they scale min-max normalized similarity and BM25 scores.
     */
    public hybridSearch(
       queryEmbedding: Float32Array,
       queryText: string,
       k: number,
-      options: { contentVersion?: string } = {}
+      options: HybridSearchOptions = {}
    ): SearchResult[] {
       this._ensureInitialized();
 
-      // Get more results from each search for better fusion
-      const expandedK = k * 3;
+      const { alpha: requestedAlpha, fusion, advancedQuery, ...filter } = options;
 
-      const vectorResults = this.vectorSearch(queryEmbedding, expandedK, options);
+      const alpha = Math.min(1, Math.max(0, requestedAlpha ?? DEFAULT_HYBRID_ALPHA));
 
-      const keywordResults = this.keywordSearch(queryText, expandedK, options);
-
-      // RRF fusion
-      const scores = new Map<number, { score: number; result: SearchResult }>();
+      // Get more results from each search for better fusion
+      const expandedK = k * 3;
 
-      vectorResults.forEach((result, rank) => {
-         const rrfScore = 1 / (RRF_K + rank + 1);
+      const vectorResults = this.vectorSearch(queryEmbedding, expandedK, filter);
 
-         scores.set(result.id, { score: rrfScore, result });
-      });
+      const keywordResults = this.keywordSearch(queryText, expandedK, { ...filter, advancedQuery });
 
-      keywordResults.forEach((result, rank) => {
-         const rrfScore = 1 / (RRF_K + rank + 1),
-               existing = scores.get(result.id);
+      // Results found by both searches keep the matches of the keyword search
+      const keywordMatches = new Map(keywordResults.map((r) => { return [ r.id, r ] as const; }));
 
-         if (existing) {
-            existing.score += rrfScore;
-         } else {
-            scores.set(result.id, { score: rrfScore, result });
-         }
-      });
+      const scores = fusion === 'linear'
+         ? this._linearFusion(vectorResults, keywordResults, alpha)
+         : this._rrfFusion(vectorResults, keywordResults, alpha);
 
       // Sort by fused score and return top k
       const fusedResults = Array.from(scores.values())
@@ -486,7 +718,9 @@ export class VectorStore {
          })
          .slice(0, k)
          .map(({ score, result }) => {
-            return { ...result, score };
+            const match = keywordMatches.get(result.id);
+
+            return match ? { ...result, highlights: match.highlights, snippet: match.snippet, score } : { ...result, score };
          });
 
       return fusedResults;
@@ -635,6 +869,193 @@ export class VectorStore {
       return { before: beforeChunks, after: afterChunks };
    }
 
+   /**
+    * Get all chunks from a source file, in the order they appear in the file.
+    *
+    * @param sourceFile - Source file path, as stored with the chunks
+    * @param contentVersion - Only return chunks with this content version
+    */
+   public getChunksBySourceFile(sourceFile: string, contentVersion?: string): StoredChunk[] {
+      this._ensureInitialized();
+
+      const versionCondition = contentVersion === undefined ? '' : 'AND content_version = ?',
+            params: string[] = contentVersion === undefined ? [ sourceFile ] : [ sourceFile, contentVersion ];
+
+      const stmt = this._db.prepare(`
+         SELECT
+            id, content, embedding_content, source_file, source_type, source_ref,
+            content_version, start_line, end_line, language, metadata
+         FROM chunks
+         WHERE source_file = ? ${versionCondition}
+         ORDER BY start_line ASC, id ASC
+      `);
+
+      const rows = stmt.all(...params) as Array<{
+         id: number;
+         content: string;
+         embedding_content: string | null;
+         source_file: string;
+         source_type: string;
+         source_ref: string | null;
+         content_version: string | null;
+         start_line: number | null;
+         end_line: number | null;
+         language: string | null;
+         metadata: string | null;
+      }>;
+
+      return rows.map((row) => {
+         return this._rowToStoredChunk(row);
+      });
+   }
+
+   /**
+    * Record the documents a library was built from. Chunks added afterwards are linked
+    * to the document with the same path and content version, so record documents
+    * before adding their chunks.
+    *
+    * @returns IDs of the new source rows, in order
+    */
+   public addSources(sources: NewSourceDocument[]): number[] {
+      this._ensureInitialized();
+
+      const insertSource = this._db.prepare(`
+         INSERT INTO sources (
+            type, uri, path, ref, blob_sha, size, content_hash, license, content_version
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      const ids: number[] = [];
+
+      const transaction = this._db.transaction(() => {
+         for (const source of sources) {
+            const result = insertSource.run(
+               source.type,
+               source.uri,
+               source.path,
+               source.ref ?? null,
+               source.blobSha ?? null,
+               source.size ?? null,
+               source.contentHash ?? null,
+               source.license ?? null,
+               source.contentVersion ?? null
+            );
+
+            ids.push(Number(result.lastInsertRowid));
+         }
+      });
+
+      transaction();
+
+      return ids;
+   }
+
+   /**
+    * Get every document recorded for this library with the number of chunks linked to
+    * it, ordered by path. Empty for libraries built before documents were recorded.
+    */
+   public getSources(): Array<SourceDocument & { chunkCount: number }> {
+      this._ensureInitialized();
+
+      if (!this._hasSourceIds()) {
+         return [];
+      }
+
+      const rows = this._db
+         .prepare(`
+            SELECT ${SOURCE_COLUMNS}, COUNT(c.id) AS chunk_count
+            FROM sources s
+            LEFT JOIN chunks c ON c.source_id = s.id
+            GROUP BY s.id
+            ORDER BY s.path, s.content_version, s.id
+         `)
+         .all() as Array<SourceRow & { chunk_count: number }>;
+
+      return rows.map((row) => {
+         return { ...this._rowToSource(row), chunkCount: row.chunk_count };
+      });
+   }
+
+   /**
+    * Get the documents the given chunks were cut from, keyed by chunk ID. Chunks that
+    * aren't linked to a document are left out.
+    */
+   public getChunkSources(chunkIds: number[]): Map<number, SourceDocument> {
+      this._ensureInitialized();
+
+      const sources = new Map<number, SourceDocument>();
+
+      if (chunkIds.length === 0 || !this._hasSourceIds()) {
+         return sources;
+      }
+
+      const placeholders = chunkIds.map(() => { return '?'; }).join(', ');
+
+      const rows = this._db
+         .prepare(`
+            SELECT c.id AS chunk_id, ${SOURCE_COLUMNS}
+            FROM chunks c
+            JOIN sources s ON s.id = c.source_id
+            WHERE c.id IN (${placeholders})
+         `)
+         .all(...chunkIds) as Array<SourceRow & { chunk_id: number }>;
+
+      for (const row of rows) {
+         sources.set(row.chunk_id, this._rowToSource(row));
+      }
+
+      return sources;
+   }
+
+   /**
+    * Get the parents the given chunks were cut from, keyed by chunk ID. Chunks without a
+    * parent are left out.
+    */
+   public getChunkParents(chunkIds: number[]): Map<number, ParentChunk> {
+      this._ensureInitialized();
+
+      const parents = new Map<number, ParentChunk>();
+
+      if (chunkIds.length === 0 || !this._hasParentIds()) {
+         return parents;
+      }
+
+      const placeholders = chunkIds.map(() => { return '?'; }).join(', ');
+
+      const rows = this._db
+         .prepare(`
+            SELECT
+               c.id AS chunk_id, p.id, p.content, p.source_file, p.content_version,
+               p.start_line, p.end_line
+            FROM chunks c
+            JOIN parents p ON p.id = c.parent_id
+            WHERE c.id IN (${placeholders})
+         `)
+         .all(...chunkIds) as Array<{
+            chunk_id: number;
+            id: number;
+            content: string;
+            source_file: string;
+            content_version: string | null;
+            start_line: number | null;
+            end_line: number | null;
+         }>;
+
+      for (const row of rows) {
+         parents.set(row.chunk_id, {
+            id: row.id,
+            content: row.content,
+            sourceFile: row.source_file,
+            contentVersion: row.content_version ?? undefined,
+            startLine: row.start_line ?? undefined,
+            endLine: row.end_line ?? undefined,
+         });
+      }
+
+      return parents;
+   }
+
    /**
     * Get total chunk count.
     */
@@ -648,6 +1069,64 @@ export class VectorStore {
       return row.count;
    }
 
+   /**
+    * Get every stored chunk's embedding along with the text it was computed from
+    * (`embeddingContent` when present, otherwise the raw content).
+    */
+   public getAllEmbeddings(): Array<{ embeddingInput: string; embedding: Float32Array }> {
+      this._ensureInitialized();
+
+      const stmt = this._db.prepare(`
+         SELECT COALESCE(embedding_content, content) AS embedding_input, embedding FROM chunks
+      `);
+
+      const rows = stmt.all() as Array<{ embedding_input: string; embedding: Buffer }>;
+
+      return rows.map((row) => {
+         return {
+            embeddingInput: row.embedding_input,
+            // Copy so the vector doesn't depend on the alignment of the row buffer
+            embedding: new Float32Array(new Uint8Array(row.embedding).buffer),
+         };
+      });
+   }
+
+   /**
+    * Iterate over every stored chunk's ID and the text its embedding was computed from,
+    * one row at a time, without loading the embeddings.
+    */
+   public iterateEmbeddingInputs(): IterableIterator<{ id: number; embeddingInput: string }> {
+      this._ensureInitialized();
+
+      return this._db
+         .prepare('SELECT id, COALESCE(embedding_content, content) AS embeddingInput FROM chunks')
+         .iterate() as IterableIterator<{ id: number; embeddingInput: string }>;
+   }
+
+   /**
+    * Get the embeddings of the given chunks, keyed by chunk ID. Unknown IDs are left out.
+    */
+   public getEmbeddings(chunkIds: number[]): Map<number, Float32Array> {
+      this._ensureInitialized();
+
+      const embeddings = new Map<number, Float32Array>();
+
+      if (chunkIds.length === 0) {
+         return embeddings;
+      }
+
+      const rows = this._db
+         .prepare(`SELECT id, embedding FROM chunks WHERE id IN (${chunkIds.map(() => { return '?'; }).join(', ')})`)
+         .all(...chunkIds) as Array<{ id: number; embedding: Buffer }>;
+
+      for (const row of rows) {
+         // Copy so the vector doesn't depend on the alignment of the row buffer
+         embeddings.set(row.id, new Float32Array(new Uint8Array(row.embedding).buffer));
+      }
+
+      return embeddings;
+   }
+
    /**
     * Set a metadata value.
     */
@@ -674,6 +1153,15 @@ export class VectorStore {
       return row?.value ?? null;
    }
 
+   /**
+    * Delete a metadata value.
+    */
+   public deleteMeta(key: string): void {
+      this._ensureInitialized();
+
+      this._db.prepare('DELETE FROM library_meta WHERE key = ?').run(key);
+   }
+
    /**
     * Get all metadata as an object.
     */
@@ -736,6 +1224,246 @@ export class VectorStore {
       return this._db;
    }
 
+   /**
+    * Serialize the code context, section breadcrumb, and document frontmatter of a chunk
+    * to its metadata JSON, or null if it has none of them.
+    */
+   private _serializeMetadata(chunk: Chunk): string | null {
+      const { codeContext, breadcrumb, frontmatter } = chunk.metadata;
+
+      if (!codeContext && !breadcrumb && !frontmatter) {
+         return null;
+      }
+
+      return JSON.stringify({ codeContext, breadcrumb, frontmatter });
+   }
+
+   /**
+    * Insert the parent of a chunk, unless an earlier chunk of the same call already did.
+    *
+    * @param insertParent - Statement inserting a row into the parents table
+    * @param parentIds - IDs of the parents inserted so far
+    * @returns ID of the chunk's parent, or null if it has none
+    */
+   private _addParent(
+      chunk: Chunk,
+      insertParent: Database.Statement,
+      parentIds: Map<Chunk, number>,
+      contentVersion?: string
+   ): number | null {
+      const parent = chunk.parent;
+
+      if (!parent) {
+         return null;
+      }
+
+      let parentId = parentIds.get(parent);
+
+      if (parentId === undefined) {
+         const result = insertParent.run(
+            parent.content,
+            parent.metadata.sourceFile,
+            contentVersion ?? null,
+            parent.metadata.startLine ?? null,
+            parent.metadata.endLine ?? null
+         );
+
+         parentId = Number(result.lastInsertRowid);
+         parentIds.set(parent, parentId);
+      }
+
+      return parentId;
+   }
+
+   /**
+    * Check whether chunks can be linked to their source documents. Databases that
+    * predate schema v3 have no `source_id` column until they are migrated.
+    */
+   private _hasSourceIds(): boolean {
+      if (this._sourceIdsExist) {
+         return true;
+      }
+
+      const columns = this._db.pragma('table_info(chunks)') as Array<{ name: string }>;
+
+      this._sourceIdsExist = columns.some((column) => { return column.name === 'source_id'; });
+
+      return this._sourceIdsExist;
+   }
+
+   /**
+    * Check whether chunks can be linked to their parents. Databases that predate schema
+    * v4 have no `parent_id` column until they are migrated.
+    */
+   private _hasParentIds(): boolean {
+      if (this._parentIdsExist) {
+         return true;
+      }
+
+      const columns = this._db.pragma('table_info(chunks)') as Array<{ name: string }>;
+
+      this._parentIdsExist = columns.some((column) => { return column.name === 'parent_id'; });
+
+      return this._parentIdsExist;
+   }
+
+   /**
+    * Check whether the sqlite-vec index exists in this database.
+    */
+   private _hasVectorIndex(): boolean {
+      if (this._vectorIndexExists) {
+         return true;
+      }
+
+      const row = this._db
+         .prepare('SELECT 1 FROM sqlite_master WHERE type = \'table\' AND name = \'chunks_vec\'')
+         .get();
+
+      this._vectorIndexExists = row !== undefined;
+
+      return this._vectorIndexExists;
+   }
+
+   private _createVectorIndex(): void {
+      createVectorIndex(this._db, this._embeddingDimensions);
+      this._vectorIndexExists = true;
+   }
+
+   /**
+    * Brute-force vector search used for databases without the sqlite-vec index.
+    */
+   private _scanVectorSearch(
+      queryEmbedding: Float32Array,
+      k: number,
+      options: SearchFilter
+   ): SearchResult[] {
+      const filter = this._buildFilterConditions(options, '');
+
+      const where = filter.conditions.length > 0
+         ? `WHERE ${filter.conditions.join(' AND ')}`
+         : '';
+
+      const query = `
+         SELECT
+            id, content, embedding, source_file, source_type,
+            source_ref, content_version, start_line, end_line,
+            language, metadata
+         FROM chunks
+         ${where}
+      `;
+
+      const stmt = this._db.prepare(query);
+
+      const rows = stmt.all(...filter.params) as Array<{
+         id: number;
+         content: string;
+         embedding: Buffer;
+         source_file: string;
+         source_type: string;
+         source_ref: string | null;
+         content_version: string | null;
+         start_line: number | null;
+         end_line: number | null;
+         language: string | null;
+         metadata: string | null;
+      }>;
+
+      // Compute similarity scores
+      const embeddingArray = new Float32Array(queryEmbedding.buffer);
+
+      const results = rows.map((row) => {
+         const docEmbedding = new Float32Array(row.embedding.buffer);
+
+         const similarity = this._cosineSimilarity(embeddingArray, docEmbedding);
+
+         return {
+            id: row.id,
+            content: row.content,
+            score: similarity,
+            sourceFile: row.source_file,
+            sourceType: row.source_type,
+            sourceRef: row.source_ref ?? undefined,
+            contentVersion: row.content_version ?? undefined,
+            startLine: row.start_line ?? undefined,
+            endLine: row.end_line ?? undefined,
+            language: row.language ?? undefined,
+            metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+         };
+      });
+
+      // Sort by similarity descending and take top k
+      return results
+         .sort((a, b) => {
+            return b.score - a.score;
+         })
+         .slice(0, k);
+   }
+
+   /**
+    * Build SQL conditions for a search filter.
+    *
+    * @param filter - The filter to translate
+    * @param alias - Column prefix for the chunks table (e.g., "c." or "")
+    */
+   private _buildFilterConditions(
+      filter: SearchFilter,
+      alias: string
+   ): { conditions: string[]; params: unknown[] } {
+      const conditions: string[] = [],
+            params: unknown[] = [];
+
+      if (filter.contentVersion) {
+         const versions = this._resolveContentVersions(filter.contentVersion),
+               placeholders = versions.map(() => { return '?'; }).join(', ');
+
+         // A filter that matches no version matches no chunks
+         conditions.push(versions.length > 0 ? `${alias}content_version IN (${placeholders})` : '0');
+         params.push(...versions);
+      }
+
+      if (filter.languages && filter.languages.length > 0) {
+         conditions.push(`${alias}language IN (${filter.languages.map(() => { return '?'; }).join(', ')})`);
+         params.push(...filter.languages);
+      }
+
+      if (filter.sourceFile) {
+         // Source files may be stored as absolute paths, so also try the pattern as a
+         // suffix of any directory
+         conditions.push(`(${alias}source_file GLOB ? OR ${alias}source_file GLOB ?)`);
+         params.push(filter.sourceFile, `*/${filter.sourceFile}`);
+      }
+
+      if (filter.sourceType) {
+         conditions.push(`${alias}source_type = ?`);
+         params.push(filter.sourceType);
+      }
+
+      if (filter.entityTypes && filter.entityTypes.length > 0) {
+         const placeholders = filter.entityTypes.map(() => { return '?'; }).join(', ');
+
+         conditions.push(`EXISTS (
+            SELECT 1 FROM json_each(${alias}metadata, '$.codeContext.entities') e
+            WHERE json_extract(e.value, '$.type') IN (${placeholders})
+         )`);
+         params.push(...filter.entityTypes);
+      }
+
+      return { conditions, params };
+   }
+
+   /**
+    * Resolve a content version filter, which may be "latest" or a range, to the content
+    * versions in this library that it matches.
+    */
+   private _resolveContentVersions(filter: string): string[] {
+      const versions = this._db
+         .prepare('SELECT DISTINCT content_version FROM chunks WHERE content_version IS NOT NULL')
+         .pluck()
+         .all() as string[];
+
+      return matchContentVersions(filter, versions, this.getMetadata<LibraryMetadata>()?.contentVersionType);
+   }
+
    private _ensureInitialized(): void {
       if (!this._isInitialized) {
          throw new Error('VectorStore not initialized. Call initialize() first.');
@@ -765,6 +1493,22 @@ export class VectorStore {
       return tokens.join(' OR ');
    }
 
+   private _rowToSource(row: SourceRow): SourceDocument {
+      return {
+         id: row.id,
+         type: row.type,
+         uri: row.uri,
+         path: row.path ?? row.uri,
+         ref: row.ref ?? undefined,
+         blobSha: row.blob_sha ?? undefined,
+         size: row.size ?? undefined,
+         contentHash: row.content_hash ?? undefined,
+         license: row.license ?? undefined,
+         contentVersion: row.content_version ?? undefined,
+         retrievedAt: row.retrieved_at ?? undefined,
+      };
+   }
+
    private _rowToStoredChunk(row: {
       id: number;
       content: string;
@@ -793,6 +1537,74 @@ export class VectorStore {
       };
    }
 
+   /**
+    * Weighted Reciprocal Rank Fusion of vector and keyword results.
+    */
+   private _rrfFusion(
+      vectorResults: SearchResult[],
+      keywordResults: SearchResult[],
+      alpha: number
+   ): Map<number, { score: number; result: SearchResult }> {
+      const scores = new Map<number, { score: number; result: SearchResult }>();
+
+      const addRanked = (results: SearchResult[], weight: number): void => {
+         results.forEach((result, rank) => {
+            const rrfScore = weight / (RRF_K + rank + 1),
+                  existing = scores.get(result.id);
+
+            if (existing) {
+               existing.score += rrfScore;
+            } else {
+               scores.set(result.id, { score: rrfScore, result });
+            }
+         });
+      };
+
+      addRanked(vectorResults, alpha);
+      addRanked(keywordResults, 1 - alpha);
+
+      return scores;
+   }
+
+   /**
+    * Weighted linear combination of min-max normalized vector and keyword scores.
+    * Results missing from one list contribute 0 for that list.
+    */
+   private _linearFusion(
+      vectorResults: SearchResult[],
+      keywordResults: SearchResult[],
+      alpha: number
+   ): Map<number, { score: number; result: SearchResult }> {
+      const scores = new Map<number, { score: number; result: SearchResult }>();
+
+      const addNormalized = (results: SearchResult[], weight: number): void => {
+         if (results.length === 0) {
+            return;
+         }
+
+         const values = results.map((r) => { return r.score; }),
+               min = Math.min(...values),
+               range = Math.max(...values) - min;
+
+         for (const result of results) {
+            // A single distinct score carries no ranking signal; treat it as a full match
+            const normalized = range === 0 ? 1 : (result.score - min) / range,
+                  existing = scores.get(result.id);
+
+            if (existing) {
+               existing.score += weight * normalized;
+            } else {
+               scores.set(result.id, { score: weight * normalized, result });
+            }
+         }
+      };
+
+      addNormalized(vectorResults, alpha);
+      addNormalized(keywordResults, 1 - alpha);
+
+      return scores;
+   }
+
    private _cosineSimilarity(a: Float32Array, b: Float32Array): number {
       let dotProduct = 0,
           normA = 0,
@@ -179,6 +179,22 @@ function getBaselineChunksPerSecond(systemInfo: SystemInfo): number {
    return matchedConfig.calculator(systemInfo);
 }
 
+/**
+ * Share of a single worker's rate that each additional embedding worker adds. Workers run
+ * their own model sessions but split the CPU cores one session would otherwise use.
+ */
+const ADDITIONAL_WORKER_EFFICIENCY = 0.5;
+
+/**
+ * Speedup from embedding in several workers. Workers beyond the cores left for embedding
+ * (CPU cores - 1) only compete for the same cores.
+ */
+function getWorkerSpeedup(workers: number, systemInfo: SystemInfo): number {
+   const effectiveWorkers = Math.min(Math.max(1, workers), Math.max(1, systemInfo.cpuCores - 1));
+
+   return 1 + (effectiveWorkers - 1) * ADDITIONAL_WORKER_EFFICIENCY;
+}
+
 /**
  * Format seconds into a human-readable time string
  */
@@ -205,10 +221,13 @@ function formatTime(seconds: number): string {
 
 /**
  * Estimate the time to embed a given number of chunks
+ *
+ * @param chunkCount - Number of chunks to embed
+ * @param workers - Number of worker threads embedding them (default: 1)
  */
-export function estimateEmbeddingTime(chunkCount: number): TimeEstimate {
+export function estimateEmbeddingTime(chunkCount: number, workers = 1): TimeEstimate {
    const systemInfo = getSystemInfo(),
-         chunksPerSecond = getBaselineChunksPerSecond(systemInfo),
+         chunksPerSecond = getBaselineChunksPerSecond(systemInfo) * getWorkerSpeedup(workers, systemInfo),
          estimatedSeconds = chunkCount / chunksPerSecond;
 
    return {
@@ -25,6 +25,9 @@ export interface SourceProvenance {
 
    /** SPDX license identifiers or custom license strings for the source content */
    licenses?: string[];
+
+   /** Version of this source's content, for libraries built from several sources */
+   contentVersion?: string;
 }
 
 /**
@@ -49,6 +52,13 @@ export interface LibraryMetadata {
    /** Type of content versioning used */
    contentVersionType?: 'semver' | 'commit' | 'date' | 'revision' | 'custom';
 
+   /**
+    * Content versions stored in the library, newest first, for libraries that hold
+    * several versions of their content (e.g. one per git tag). Each chunk is stored with
+    * the version it belongs to.
+    */
+   contentVersions?: string[];
+
    /** Human-readable display name */
    displayName?: string;
 
@@ -94,11 +104,26 @@ export interface LibraryMetadata {
       model: string;
       dimensions: number;
       quantization?: string;
+
+      /** Embedding provider ("transformers" or "http"); absent means "transformers" */
+      provider?: string;
+
+      /** For the "http" provider: base URL of the embeddings API */
+      url?: string;
+
+      /**
+       * Instruction prefix profile documents were embedded with (e.g., "bge"); queries
+       * use the same profile. Absent means "none".
+       */
+      prefixProfile?: string;
    };
    chunking: {
       strategy: string;
       chunkSize: number;
       chunkOverlap: number;
+
+      /** Size of the child chunks embedded in place of each chunk, if any */
+      childChunkSize?: number;
    };
    stats: {
       chunkCount: number;
@@ -109,4 +134,7 @@ export interface LibraryMetadata {
 
    /** Source provenance information */
    source?: SourceProvenance;
+
+   /** Provenance of each source, for libraries built from several (`source` is unset) */
+   sources?: SourceProvenance[];
 }
@@ -0,0 +1,50 @@
+/**
+ * Vector index module
+ *
+ * Creates the sqlite-vec `chunks_vec` index used for vector search, shared by new
+ * databases and the schema migration that adds the index to existing ones.
+ */
+
+import type Database from 'better-sqlite3';
+
+/**
+ * Create the sqlite-vec index and the triggers that keep it in sync with `chunks`.
+ * Content version is stored as a metadata column so KNN queries can filter on it;
+ * vec0 metadata columns cannot hold NULL, so a missing version is stored as ''.
+ *
+ * Requires the sqlite-vec extension to be loaded on the connection. Does nothing for
+ * parts of the index that already exist.
+ *
+ * @param db - Database connection
+ * @param dimensions - Dimensions of the embeddings the index holds
+ */
+export function createVectorIndex(db: Database.Database, dimensions: number): void {
+   db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS chunks_vec USING vec0(
+         chunk_id INTEGER PRIMARY KEY,
+         embedding float[${dimensions}] distance_metric=cosine,
+         content_version TEXT
+      )
+   `);
+
+   db.exec(`
+      CREATE TRIGGER IF NOT EXISTS chunks_vec_ai AFTER INSERT ON chunks BEGIN
+         INSERT INTO chunks_vec(chunk_id, embedding, content_version)
+         VALUES (new.id, new.embedding, COALESCE(new.content_version, ''));
+      END
+   `);
+
+   db.exec(`
+      CREATE TRIGGER IF NOT EXISTS chunks_vec_ad AFTER DELETE ON chunks BEGIN
+         DELETE FROM chunks_vec WHERE chunk_id = old.id;
+      END
+   `);
+
+   db.exec(`
+      CREATE TRIGGER IF NOT EXISTS chunks_vec_au AFTER UPDATE ON chunks BEGIN
+         DELETE FROM chunks_vec WHERE chunk_id = old.id;
+         INSERT INTO chunks_vec(chunk_id, embedding, content_version)
+         VALUES (new.id, new.embedding, COALESCE(new.content_version, ''));
+      END
+   `);
+}
@@ -0,0 +1,139 @@
+/**
+ * Streamable HTTP transport tests
+ *
+ * Connects MCP clients to the HTTP server and checks that sessions are isolated.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { pathToFileURL } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpServer } from '../http.ts';
+import type { McpHttpServer } from '../http.ts';
+
+describe('MCP HTTP transport', () => {
+   let tempDir: string,
+       server: McpHttpServer,
+       endpoint: URL,
+       clients: Client[];
+
+   beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'libragen-mcp-http-test-'));
+      server = await startHttpServer({}, { port: 0 });
+      endpoint = new URL(`http://127.0.0.1:${server.address.port}/mcp`);
+      clients = [];
+   });
+
+   afterEach(async () => {
+      for (const client of clients) {
+         await client.close();
+      }
+      await server.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   /**
+    * Connect a client that reports the given directories as its workspace roots.
+    */
+   async function connectClient(rootDirs: string[]): Promise<Client> {
+      const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { roots: {} } });
+
+      client.setRequestHandler(ListRootsRequestSchema, () => {
+         return {
+            roots: rootDirs.map((dir) => {
+               return { uri: pathToFileURL(dir).href };
+            }),
+         };
+      });
+
+      await client.connect(new StreamableHTTPClientTransport(endpoint));
+      clients.push(client);
+
+      return client;
+   }
+
+   /**
+    * Get the library search paths a session reports through the config tool.
+    */
+   async function getSearchPaths(client: Client): Promise<string> {
+      const result = await client.callTool({ name: 'libragen_config', arguments: {} }),
+            [ content ] = result.content as Array<{ type: string; text: string }>;
+
+      return content.text;
+   }
+
+   async function createProject(name: string): Promise<string> {
+      const projectDir = path.join(tempDir, name);
+
+      await fs.mkdir(path.join(projectDir, '.libragen', 'libraries'), { recursive: true });
+
+      return projectDir;
+   }
+
+   it('serves tools to an MCP client', async () => {
+      const client = await connectClient([]);
+
+      const { tools } = await client.listTools();
+
+      expect(tools.map((t) => { return t.name; })).toContain('libragen_search');
+      expect(server.getSessionCount()).toBe(1);
+   });
+
+   it('discovers project libraries from each session\'s own roots', async () => {
+      const projectA = await createProject('project-a'),
+            projectB = await createProject('project-b');
+
+      const clientA = await connectClient([ projectA ]),
+            clientB = await connectClient([ projectB ]);
+
+      const libsA = path.join(projectA, '.libragen', 'libraries'),
+            libsB = path.join(projectB, '.libragen', 'libraries');
+
+      // Roots are requested in the background once each session is initialized
+      await vi.waitFor(async () => {
+         expect(await getSearchPaths(clientA)).toContain(`${libsA} (project-local)`);
+         expect(await getSearchPaths(clientB)).toContain(`${libsB} (project-local)`);
+      });
+
+      expect(await getSearchPaths(clientA)).not.toContain(libsB);
+      expect(await getSearchPaths(clientB)).not.toContain(libsA);
+      expect(server.getSessionCount()).toBe(2);
+   });
+
+   it('rejects requests without a session', async () => {
+      const response = await fetch(endpoint, {
+         method: 'POST',
+         headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+         body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+
+      expect(response.status).toBe(400);
+   });
+
+   it('rejects unknown sessions', async () => {
+      const response = await fetch(endpoint, {
+         method: 'POST',
+         headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            'Mcp-Session-Id': 'unknown',
+         },
+         body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+
+      expect(response.status).toBe(404);
+   });
+
+   it('ends sessions when the client terminates them', async () => {
+      const client = await connectClient([]),
+            transport = client.transport as StreamableHTTPClientTransport;
+
+      await transport.terminateSession();
+
+      expect(server.getSessionCount()).toBe(0);
+   });
+});
@@ -0,0 +1,190 @@
+/**
+ * MCP Resources tests
+ *
+ * Reads libraries, chunks and source files through an MCP client.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Library } from '@libragen/core';
+import type { StoredChunk } from '@libragen/core';
+import { createServer } from '../server.ts';
+import { getChunkUri, getFileUri, getLibraryUri, mergeChunkContents } from '../resources/index.ts';
+
+describe('MCP Resources', () => {
+   let tempDir: string,
+       client: Client;
+
+   beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'libragen-mcp-resources-test-'));
+
+      const lib = await Library.create(path.join(tempDir, 'docs.libragen'), {
+         name: 'docs',
+         displayName: 'Docs',
+         description: 'Test documentation',
+         version: '1.0.0',
+      });
+
+      lib.addChunks(
+         [
+            { content: 'line one\nline two', metadata: { sourceFile: 'guide/intro.md', startLine: 1, endLine: 2 } },
+            { content: 'line two\nline three', metadata: { sourceFile: 'guide/intro.md', startLine: 2, endLine: 3 } },
+            { content: 'other file', metadata: { sourceFile: 'other.md', startLine: 1, endLine: 1 } },
+         ],
+         [ 1, 2, 3 ].map(() => { return new Float32Array(384).fill(0.1); })
+      );
+      await lib.finalize();
+      await lib.close();
+
+      const server = createServer({ librariesDir: tempDir }),
+            [ clientTransport, serverTransport ] = InMemoryTransport.createLinkedPair();
+
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+   });
+
+   afterAll(async () => {
+      await client.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   function readText(uri: string): Promise<string> {
+      return client.readResource({ uri }).then((result) => {
+         return (result.contents[0] as { text: string }).text;
+      });
+   }
+
+   it('lists installed libraries', async () => {
+      const { resources } = await client.listResources();
+
+      expect(resources).toHaveLength(1);
+      expect(resources[0]).toMatchObject({
+         uri: 'libragen://docs',
+         name: 'docs',
+         title: 'Docs',
+         description: 'Test documentation',
+      });
+   });
+
+   it('reads library metadata', async () => {
+      const metadata = JSON.parse(await readText(getLibraryUri('docs')));
+
+      expect(metadata.name).toBe('docs');
+      expect(metadata.version).toBe('1.0.0');
+   });
+
+   it('reads a chunk by ID', async () => {
+      expect(await readText(getChunkUri('docs', 3))).toBe('other file');
+   });
+
+   it('rebuilds a source file from its chunks', async () => {
+      const uri = getFileUri('docs', 'guide/intro.md');
+
+      expect(uri).toBe('libragen://docs/file/guide/intro.md');
+      expect(await readText(uri)).toBe('line one\nline two\nline three');
+   });
+
+   it('fails for unknown libraries, chunks and files', async () => {
+      await expect(client.readResource({ uri: getLibraryUri('missing') })).rejects.toThrow(/not installed/);
+      await expect(client.readResource({ uri: getChunkUri('docs', 999) })).rejects.toThrow(/not found/);
+      await expect(client.readResource({ uri: getFileUri('docs', 'missing.md') })).rejects.toThrow(/not found/);
+   });
+
+   it('completes library names', async () => {
+      const result = await client.complete({
+         ref: { type: 'ref/resource', uri: 'libragen://{library}' },
+         argument: { name: 'library', value: 'd' },
+      });
+
+      expect(result.completion.values).toEqual([ 'docs' ]);
+   });
+});
+
+describe('MCP Resources of libraries with several content versions', () => {
+   let tempDir: string,
+       client: Client;
+
+   beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'libragen-mcp-resources-test-'));
+
+      const lib = await Library.create(path.join(tempDir, 'react.libragen'), { name: 'react', version: '1.0.0' });
+
+      for (const contentVersion of [ '17.0.0', '18.0.0' ]) {
+         lib.addChunks(
+            [ { content: `hooks in ${contentVersion}`, metadata: { sourceFile: 'hooks.md', startLine: 1, endLine: 1 } } ],
+            [ new Float32Array(384).fill(0.1) ],
+            { contentVersion }
+         );
+      }
+      lib.setMetadata({ contentVersions: [ '18.0.0', '17.0.0' ] });
+      await lib.finalize();
+      await lib.close();
+
+      const server = createServer({ librariesDir: tempDir }),
+            [ clientTransport, serverTransport ] = InMemoryTransport.createLinkedPair();
+
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+   });
+
+   afterAll(async () => {
+      await client.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   async function readText(uri: string): Promise<string> {
+      const result = await client.readResource({ uri });
+
+      return (result.contents[0] as { text: string }).text;
+   }
+
+   it('reads a source file at the newest version by default', async () => {
+      expect(await readText(getFileUri('react', 'hooks.md'))).toBe('hooks in 18.0.0');
+   });
+
+   it('reads a source file at the version named in its URI', async () => {
+      const uri = getFileUri('react', 'hooks.md', '17.0.0');
+
+      expect(uri).toBe('libragen://react/file/hooks.md?version=17.0.0');
+      expect(await readText(uri)).toBe('hooks in 17.0.0');
+      await expect(client.readResource({ uri: getFileUri('react', 'hooks.md', '16.0.0') }))
+         .rejects
+         .toThrow(/at version 16\.0\.0 not found/);
+   });
+});
+
+describe('mergeChunkContents', () => {
+   function chunk(content: string, startLine?: number): StoredChunk {
+      const endLine = startLine === undefined ? undefined : startLine + content.split('\n').length - 1;
+
+      return { id: 0, content, sourceFile: 'a.md', sourceType: 'file', startLine, endLine };
+   }
+
+   it('drops the lines a chunk shares with the previous one', () => {
+      expect(mergeChunkContents([ chunk('a\nb\nc', 1), chunk('b\nc\nd', 2) ])).toBe('a\nb\nc\nd');
+   });
+
+   it('keeps text that only looks like it overlaps the previous chunk', () => {
+      expect(mergeChunkContents([ chunk('if (a) {\n}', 1), chunk('}\nnext', 3) ])).toBe('if (a) {\n}\n}\nnext');
+   });
+
+   it('joins the parts of a line cut between chunks', () => {
+      expect(mergeChunkContents([ chunk('intro\nabc def', 1), chunk('def ghi\nend', 2) ])).toBe('intro\nabc def ghi\nend');
+   });
+
+   it('skips chunks inside the text already merged', () => {
+      expect(mergeChunkContents([ chunk('a\nb\nc', 1), chunk('b', 2) ])).toBe('a\nb\nc');
+   });
+
+   it('joins chunks without line numbers with a newline', () => {
+      expect(mergeChunkContents([ chunk('abc def'), chunk('def ghi') ])).toBe('abc def\ndef ghi');
+   });
+});
@@ -0,0 +1,66 @@
+/**
+ * MCP search tool tests
+ *
+ * Searches by keyword through an MCP client, so no embedding model is needed.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Library } from '@libragen/core';
+import { createServer } from '../server.ts';
+
+describe('libragen_search', () => {
+   let tempDir: string,
+       client: Client;
+
+   beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'libragen-mcp-search-test-'));
+
+      const lib = await Library.create(path.join(tempDir, 'docs.libragen'), { name: 'docs', version: '1.0.0' });
+
+      lib.getStore().addSources([
+         { type: 'git', uri: 'https://github.com/a/b', path: 'guide/hooks.md', ref: 'abc123', contentVersion: '2.0.0' },
+      ]);
+      lib.addChunks(
+         [
+            {
+               content: 'Hooks let you use state in function components',
+               metadata: { sourceFile: 'guide/hooks.md', startLine: 1, endLine: 1, breadcrumb: 'Guide > Hooks' },
+            },
+         ],
+         [ new Float32Array(384).fill(0.1) ],
+         { contentVersion: '2.0.0' }
+      );
+      await lib.finalize();
+      await lib.close();
+
+      const server = createServer({ librariesDir: tempDir }),
+            [ clientTransport, serverTransport ] = InMemoryTransport.createLinkedPair();
+
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+   });
+
+   afterAll(async () => {
+      await client.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   async function search(query: string): Promise<string> {
+      const result = await client.callTool({ name: 'libragen_search', arguments: { query, hybridAlpha: 0 } });
+
+      return (result.content as Array<{ text: string }>)[0].text;
+   }
+
+   it('shows the provenance of each result next to its section', async () => {
+      const text = await search('hooks');
+
+      expect(text).toContain('[section: Guide > Hooks]\n[source: https://github.com/a/b | version: 2.0.0 | commit: abc123]');
+   });
+});
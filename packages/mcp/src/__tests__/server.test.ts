@@ -8,7 +8,15 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import { createServer, warmEmbedder, updateServerEmbedder } from '../server.ts';
+import {
+   createServer,
+   warmEmbedder,
+   updateServerEmbedder,
+   libraryPaths,
+   getLibraryPaths,
+   getLibraryPathsState,
+   updateLibraryPathsFromRoots,
+} from '../server.ts';
 import { Embedder, Chunker, VectorStore, CURRENT_SCHEMA_VERSION } from '@libragen/core';
 import type { LibraryMetadata } from '@libragen/core';
 import { createHash } from 'crypto';
@@ -63,6 +71,39 @@ describe('MCP Server', () => {
       });
    });
 
+   describe('library paths', () => {
+      let projectDir: string,
+          projectLibrariesDir: string,
+          defaultPaths: string[];
+
+      beforeAll(async () => {
+         projectDir = path.join(tempDir, 'project');
+         projectLibrariesDir = path.join(projectDir, '.libragen', 'libraries');
+         await fs.mkdir(projectLibrariesDir, { recursive: true });
+         defaultPaths = [ ...libraryPaths.paths ];
+      });
+
+      afterAll(() => {
+         libraryPaths.paths = defaultPaths;
+         libraryPaths.initialized = false;
+      });
+
+      it('keeps the default session paths for callers that don\'t pass a server', async () => {
+         const server = createServer(),
+               otherServer = createServer();
+
+         await updateLibraryPathsFromRoots(otherServer, []);
+         await updateLibraryPathsFromRoots([ { uri: `file://${projectDir}` } ]);
+
+         expect(libraryPaths).toEqual({ paths: [ projectLibrariesDir, ...defaultPaths ], initialized: true });
+         expect(getLibraryPaths()).toEqual(libraryPaths.paths);
+
+         // Servers without roots of their own use the default session's paths
+         expect(getLibraryPathsState(server)).toEqual(libraryPaths);
+         expect(getLibraryPaths(otherServer)).toEqual(defaultPaths);
+      });
+   });
+
    describe('warmEmbedder', () => {
       it('returns an initialized embedder', async () => {
          const embedder = await warmEmbedder();
@@ -182,6 +182,7 @@ describe('TaskManager', () => {
          expect(result).toBe(true);
          expect(task.status).toBe('cancelled');
          expect(manager.getRunningCount()).toBe(0);
+         expect(task.signal.aborted).toBe(true);
       });
 
       it('returns false for completed task', () => {
@@ -203,6 +204,55 @@ describe('TaskManager', () => {
       });
    });
 
+   describe('resumeTask', () => {
+      it('queues a failed task again with resume set', () => {
+         const task = manager.createTask({ source: '/test' });
+
+         manager.markRunning(task.id);
+         manager.markFailed(task.id, 'Worker exited with code 1');
+
+         expect(manager.resumeTask(task.id)).toBe(true);
+         expect(task.status).toBe('queued');
+         expect(task.error).toBeUndefined();
+         expect(task.params).toEqual({ source: '/test', resume: true });
+         expect(manager.getQueueLength()).toBe(1);
+      });
+
+      it('gives a resumed task a new signal', () => {
+         const task = manager.createTask({ source: '/test' }),
+               failedSignal = task.signal;
+
+         manager.markRunning(task.id);
+         manager.markFailed(task.id, 'Worker exited with code 1');
+         manager.resumeTask(task.id);
+
+         expect(task.signal).not.toBe(failedSignal);
+         expect(task.signal.aborted).toBe(false);
+      });
+
+      it('does not resume cancelled tasks, whose checkpoint was deleted', () => {
+         const task = manager.createTask({ source: '/test' });
+
+         manager.markRunning(task.id);
+         manager.cancelTask(task.id);
+
+         expect(manager.resumeTask(task.id)).toBe(false);
+         expect(task.status).toBe('cancelled');
+      });
+
+      it('does not resume tasks that are still active or completed', () => {
+         const task = manager.createTask({ source: '/test' });
+
+         expect(manager.resumeTask(task.id)).toBe(false);
+
+         manager.markRunning(task.id);
+         manager.markCompleted(task.id, 'done');
+
+         expect(manager.resumeTask(task.id)).toBe(false);
+         expect(manager.resumeTask('missing')).toBe(false);
+      });
+   });
+
    describe('processQueue', () => {
       it('triggers onTaskReady for queued tasks', () => {
          const onTaskReady = vi.fn();
@@ -0,0 +1,138 @@
+/**
+ * Tests for the worker pool
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { startWorker, getActiveWorkerCount } from '../tasks/worker-pool.ts';
+import { getTaskManager, resetTaskManager } from '../tasks/task-manager.ts';
+
+/**
+ * Stands in for a build worker. Its build takes `cleanupMs` to stop and delete its
+ * partial output after being cancelled, as if it were waiting on an embedder call.
+ */
+class FakeWorker extends EventEmitter {
+
+   public terminated = false;
+
+   public cleanupMs: number | undefined = 30000;
+
+   public partialPath = '';
+
+   /** Settles once the cancelled build has cleaned up */
+   public cleanup: Promise<void> | undefined;
+
+   public postMessage(msg: { type: string }): void {
+      const cleanupMs = this.cleanupMs;
+
+      if (msg.type !== 'cancel' || cleanupMs === undefined) {
+         return;
+      }
+
+      setTimeout(() => {
+         if (!this.terminated) {
+            this.cleanup = fs.rm(this.partialPath, { force: true }).then(() => {
+               this.emit('message', { type: 'cancelled' });
+            });
+         }
+      }, cleanupMs);
+   }
+
+   public async terminate(): Promise<number> {
+      this.terminated = true;
+      this.emit('exit', 1);
+
+      return 1;
+   }
+}
+
+const fakeWorkers = vi.hoisted(() => {
+   return [] as FakeWorker[];
+});
+
+vi.mock('worker_threads', () => {
+   return {
+      // Called with `new`, so it can't be an arrow function
+      Worker: vi.fn(function createWorker() {
+         const worker = new FakeWorker();
+
+         fakeWorkers.push(worker);
+
+         return worker;
+      }),
+   };
+});
+
+describe('worker pool', () => {
+   let tempDir: string,
+       partialPath: string;
+
+   beforeEach(async () => {
+      vi.useFakeTimers();
+      resetTaskManager();
+      fakeWorkers.length = 0;
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worker-pool-test-'));
+      partialPath = path.join(tempDir, 'lib.libragen.partial');
+      await fs.writeFile(partialPath, 'partial');
+   });
+
+   afterEach(async () => {
+      resetTaskManager();
+      vi.useRealTimers();
+      await fs.rm(tempDir, { recursive: true, force: true });
+   });
+
+   async function exists(file: string): Promise<boolean> {
+      try {
+         await fs.access(file);
+         return true;
+      } catch(_e) {
+         return false;
+      }
+   }
+
+   function startTask(): { id: string; worker: FakeWorker } {
+      const taskManager = getTaskManager({ maxConcurrent: 1 }),
+            task = taskManager.createTask({ source: tempDir });
+
+      startWorker(task);
+
+      const worker = fakeWorkers[fakeWorkers.length - 1];
+
+      worker.partialPath = partialPath;
+
+      return { id: task.id, worker };
+   }
+
+   it('waits for a cancelled build to clean up before terminating its worker', async () => {
+      const { id, worker } = startTask();
+
+      getTaskManager().cancelTask(id);
+      vi.advanceTimersByTime(29000);
+
+      expect(worker.terminated).toBe(false);
+      expect(await exists(partialPath)).toBe(true);
+
+      vi.advanceTimersByTime(1000);
+      await worker.cleanup;
+
+      expect(await exists(partialPath)).toBe(false);
+      expect(worker.terminated).toBe(true);
+      expect(getActiveWorkerCount()).toBe(0);
+      expect(getTaskManager().getTask(id)?.status).toBe('cancelled');
+   });
+
+   it('terminates workers that never stop after being cancelled', () => {
+      const { id, worker } = startTask();
+
+      worker.cleanupMs = undefined;
+      getTaskManager().cancelTask(id);
+      vi.advanceTimersByTime(5 * 60 * 1000);
+
+      expect(worker.terminated).toBe(true);
+      expect(getActiveWorkerCount()).toBe(0);
+   });
+});
@@ -0,0 +1,203 @@
+/**
+ * Streamable HTTP transport for the MCP server
+ *
+ * Serves MCP over HTTP so one server, with one copy of the embedding model, can host
+ * shared libraries for many clients. Each client session gets its own McpServer
+ * instance created from the same config, so the pre-warmed embedder is shared while
+ * workspace roots (and the project libraries they point to) are tracked per session.
+ */
+
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer, refreshLibraryPathsFromRoots } from './server.ts';
+import type { ServerConfig } from './server.ts';
+
+export interface HttpServerOptions {
+
+   /** Port to listen on (0 picks a free port) */
+   port: number;
+
+   /** Host to bind to (default: 127.0.0.1) */
+   host?: string;
+
+   /** Path of the MCP endpoint (default: /mcp) */
+   endpoint?: string;
+}
+
+export interface McpHttpServer {
+
+   /** Address the server is listening on */
+   address: AddressInfo;
+
+   /** Number of open client sessions */
+   getSessionCount(): number;
+
+   /** Close all sessions and stop the server */
+   close(): Promise<void>;
+}
+
+interface Session {
+   server: McpServer;
+   transport: StreamableHTTPServerTransport;
+}
+
+/** Largest accepted request body, matching the SDK's own limit */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Write a JSON-RPC error response, for requests rejected before reaching a transport.
+ */
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+   res.writeHead(status, { 'Content-Type': 'application/json' });
+   res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+   const chunks: Buffer[] = [];
+
+   let size = 0;
+
+   for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+
+      if (size > MAX_BODY_BYTES) {
+         throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+   }
+
+   return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * Start an MCP server using the Streamable HTTP transport.
+ *
+ * Clients start a session by POSTing an `initialize` request to the endpoint, and send
+ * the returned `Mcp-Session-Id` header with every later request. GET opens a stream for
+ * server-to-client messages and DELETE ends the session.
+ *
+ * @param config - Server config shared by all sessions. Setting `config.embedder` later
+ * (e.g., once it's warmed) makes it available to every session.
+ */
+export async function startHttpServer(config: ServerConfig, options: HttpServerOptions): Promise<McpHttpServer> {
+   const endpoint = options.endpoint ?? '/mcp',
+         sessions = new Map<string, Session>();
+
+   const createSession = async (): Promise<StreamableHTTPServerTransport> => {
+      const server = createServer(config);
+
+      const transport = new StreamableHTTPServerTransport({
+         sessionIdGenerator: () => { return randomUUID(); },
+         onsessioninitialized: (sessionId) => {
+            sessions.set(sessionId, { server, transport });
+         },
+      });
+
+      transport.onclose = () => {
+         if (transport.sessionId) {
+            sessions.delete(transport.sessionId);
+         }
+      };
+
+      await server.connect(transport);
+
+      return transport;
+   };
+
+   const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+      const url = new URL(req.url ?? '/', 'http://localhost'),
+            sessionId = req.headers['mcp-session-id'];
+
+      if (url.pathname !== endpoint) {
+         res.writeHead(404).end();
+         return;
+      }
+
+      const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+      if (sessionId && !session) {
+         sendJsonRpcError(res, 404, -32001, 'Session not found');
+         return;
+      }
+
+      if (req.method !== 'POST') {
+         if (!session) {
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+            return;
+         }
+
+         await session.transport.handleRequest(req, res);
+
+         // Server-to-client requests, such as listing roots, travel over the stream the
+         // client opens with GET. Roots requested on initialization are dropped if it
+         // isn't open yet, so request them again once it is.
+         if (req.method === 'GET' && !res.writableEnded) {
+            refreshLibraryPathsFromRoots(session.server);
+         }
+         return;
+      }
+
+      let body: unknown;
+
+      try {
+         body = await readJsonBody(req);
+      } catch(e) {
+         sendJsonRpcError(res, 400, -32700, `Parse error: ${e instanceof Error ? e.message : String(e)}`);
+         return;
+      }
+
+      let transport = session?.transport;
+
+      if (!transport) {
+         if (!isInitializeRequest(body)) {
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+            return;
+         }
+
+         transport = await createSession();
+      }
+
+      await transport.handleRequest(req, res, body);
+   };
+
+   const httpServer = http.createServer((req, res) => {
+      handleRequest(req, res).catch((error) => {
+         if (res.headersSent) {
+            res.end();
+            return;
+         }
+
+         sendJsonRpcError(res, 500, -32603, `Internal error: ${error instanceof Error ? error.message : String(error)}`);
+      });
+   });
+
+   await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(options.port, options.host ?? '127.0.0.1', () => {
+         httpServer.off('error', reject);
+         resolve();
+      });
+   });
+
+   return {
+      address: httpServer.address() as AddressInfo,
+      getSessionCount: () => { return sessions.size; },
+      close: async () => {
+         for (const { transport } of [ ...sessions.values() ]) {
+            await transport.close();
+         }
+
+         await new Promise<void>((resolve, reject) => {
+            httpServer.close((err) => {
+               return err ? reject(err) : resolve();
+            });
+            // Open SSE streams would otherwise keep the server from closing
+            httpServer.closeAllConnections();
+         });
+      },
+   };
+}
@@ -6,47 +6,68 @@
  * to AI coding assistants via the Model Context Protocol.
  */
 
+import { parseArgs } from 'util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { createServer, warmEmbedder, updateServerEmbedder, updateLibraryPathsFromRoots } from './server.ts';
+import { createServer, warmEmbedder } from './server.ts';
+import type { ServerConfig } from './server.ts';
+import { startHttpServer } from './http.ts';
+
+const USAGE = `Usage: libragen-mcp [options]
+
+Options:
+  --transport <stdio|http>  Transport to serve MCP over (default: stdio)
+  --port <port>             Port for the http transport (default: 3000)
+  --host <host>             Host for the http transport to bind to (default: 127.0.0.1)
+  -h, --help                Show this help`;
 
 async function main(): Promise<void> {
-   // Create server without embedder (lazy initialization)
-   const server = createServer();
+   const { values } = parseArgs({
+      options: {
+         transport: { type: 'string', default: 'stdio' },
+         port: { type: 'string', default: '3000' },
+         host: { type: 'string', default: '127.0.0.1' },
+         help: { type: 'boolean', short: 'h', default: false },
+      },
+   });
+
+   if (values.help) {
+      // eslint-disable-next-line no-console
+      console.log(USAGE);
+      return;
+   }
+
+   // Start without an embedder (lazy initialization). The config is shared by every
+   // session, so the warmed embedder becomes available to all of them.
+   const config: ServerConfig = {};
+
+   if (values.transport === 'http') {
+      const port = Number(values.port);
 
-   // Connect via stdio transport (standard for MCP servers)
-   const transport = new StdioServerTransport();
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+         throw new Error(`Invalid port: ${values.port}`);
+      }
+
+      const { address } = await startHttpServer(config, { port, host: values.host });
 
-   await server.connect(transport);
+      // eslint-disable-next-line no-console
+      console.log(`libragen MCP server listening on http://${address.address}:${address.port}/mcp`);
+   } else if (values.transport === 'stdio') {
+      const server = createServer(config);
+
+      // Connect via stdio transport (standard for MCP servers). Project libraries are
+      // discovered from the client's roots once the session is initialized.
+      await server.connect(new StdioServerTransport());
+   } else {
+      throw new Error(`Unknown transport: ${values.transport} (expected "stdio" or "http")`);
+   }
 
    // Start background embedder warming after server is ready
    // This allows the server to respond immediately while model loads in background
-   warmEmbedderWithRetry(server).catch((error) => {
+   warmEmbedderWithRetry(config).catch((error) => {
       // Log error but don't crash server - tools will create embedder on demand
       // eslint-disable-next-line no-console
       console.warn('Failed to warm embedder, tools will create embedder on demand:', error);
    });
-
-   // Try to get roots from the client to discover project directories
-   // This enables auto-detection of .libragen/libraries in workspace roots
-   try {
-      // The server object has a client property after connection
-      // that can be used to make requests to the client
-      const mcpServer = server as unknown as {
-         server?: {
-            listRoots?: () => Promise<{ roots: Array<{ uri: string; name?: string }> }>;
-         };
-      };
-
-      if (mcpServer.server?.listRoots) {
-         const rootsResult = await mcpServer.server.listRoots();
-
-         if (rootsResult?.roots) {
-            await updateLibraryPathsFromRoots(rootsResult.roots);
-         }
-      }
-   } catch{
-      // Client may not support roots - that's fine, we'll use defaults
-   }
 }
 
 /**
@@ -54,7 +75,7 @@ async function main(): Promise<void> {
  * If warming fails, the server will still work but search operations
  * may be slower on first use.
  */
-async function warmEmbedderWithRetry(server: any, maxRetries = 3): Promise<void> {
+async function warmEmbedderWithRetry(config: ServerConfig, maxRetries = 3): Promise<void> {
    for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
          // eslint-disable-next-line no-console
@@ -62,8 +83,8 @@ async function warmEmbedderWithRetry(server: any, maxRetries = 3): Promise<void>
 
          const embedder = await warmEmbedder();
 
-         // Update the server with the warmed embedder
-         updateServerEmbedder(server, embedder);
+         // Make the warmed embedder available to the server's tools
+         config.embedder = embedder;
 
          // eslint-disable-next-line no-console
          console.log('Embedder warmed successfully');
@@ -0,0 +1,307 @@
+/**
+ * MCP Resources
+ *
+ * Exposes installed libraries and their contents as resources, so agents can open a
+ * chunk or a whole source file from a search hit without running another search:
+ *
+ *   libragen://<library>                    - Library metadata (JSON)
+ *   libragen://<library>/chunk/<id>         - A single chunk
+ *   libragen://<library>/file/<sourceFile>  - All chunks of a source file, merged
+ *
+ * File URIs take the content version to read as a `version` query parameter, e.g.
+ * `libragen://react/file/hooks.md?version=18.2.0`.
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Library, LibraryManager } from '@libragen/core';
+import type { InstalledLibrary, LibraryMetadata, StoredChunk, VectorStore } from '@libragen/core';
+import type { ServerConfig } from '../server.ts';
+import { getLibraryPaths } from '../server.ts';
+
+/**
+ * Get the URI of a library's metadata resource.
+ */
+export function getLibraryUri(library: string): string {
+   return `libragen://${encodeURIComponent(library)}`;
+}
+
+/**
+ * Get the URI of a chunk resource.
+ */
+export function getChunkUri(library: string, chunkId: number): string {
+   return `${getLibraryUri(library)}/chunk/${chunkId}`;
+}
+
+/**
+ * Get the URI of a source file resource. Path separators are kept so the URI reads
+ * like the file's path.
+ *
+ * @param library - Library name
+ * @param sourceFile - Source file path, as stored with the chunks
+ * @param contentVersion - Content version of the file to read, in libraries that hold
+ * several
+ */
+export function getFileUri(library: string, sourceFile: string, contentVersion?: string): string {
+   const encodedPath = sourceFile
+      .split('/')
+      .map(encodeURIComponent)
+      .join('/');
+
+   const query = contentVersion ? `?version=${encodeURIComponent(contentVersion)}` : '';
+
+   return `${getLibraryUri(library)}/file/${encodedPath}${query}`;
+}
+
+/**
+ * Merge a file's chunks, in file order, back into a single text. Adjacent chunks usually
+ * overlap, so the lines a chunk shares with the previous ones, by their line numbers,
+ * are only included once. Chunks without line numbers are joined with a newline.
+ */
+export function mergeChunkContents(chunks: StoredChunk[]): string {
+   const lines: string[] = [];
+
+   let lastLine: number | undefined;
+
+   for (const chunk of chunks) {
+      const chunkLines = chunk.content.split('\n'),
+            startLine = chunk.startLine;
+
+      if (startLine === undefined || lastLine === undefined || startLine > lastLine) {
+         lines.push(...chunkLines);
+      } else if (lastLine - startLine < chunkLines.length) {
+         const shared = lastLine - startLine;
+
+         // Chunks can be cut mid-line, so the line shared with the previous chunks may
+         // only be partly in either
+         lines[lines.length - 1] = joinLineParts(lines[lines.length - 1], chunkLines[shared]);
+         lines.push(...chunkLines.slice(shared + 1));
+      }
+
+      lastLine = startLine === undefined
+         ? undefined
+         : Math.max(lastLine ?? 0, chunk.endLine ?? startLine + chunkLines.length - 1);
+   }
+
+   return lines.join('\n');
+}
+
+/**
+ * Join two parts of the same line, the second of which starts within the first.
+ */
+function joinLineParts(line: string, next: string): string {
+   if (line.startsWith(next) || line.endsWith(next)) {
+      return line;
+   }
+
+   for (let length = Math.min(line.length, next.length); length > 0; length--) {
+      if (line.endsWith(next.slice(0, length))) {
+         return line + next.slice(length);
+      }
+   }
+
+   return next.startsWith(line) ? next : line + next;
+}
+
+/**
+ * Register all libragen resources with the MCP server.
+ */
+export function registerResources(server: McpServer, config: ServerConfig): void {
+   const createManager = (): LibraryManager => {
+      // Include project-local paths discovered from this session's roots
+      return new LibraryManager({ paths: config.librariesDir ? [ config.librariesDir ] : getLibraryPaths(server) });
+   };
+
+   const findLibrary = async (name: string): Promise<InstalledLibrary> => {
+      const lib = await createManager().find(name);
+
+      if (!lib) {
+         throw new Error(`Library '${name}' is not installed`);
+      }
+
+      return lib;
+   };
+
+   const completeLibrary = async (value: string): Promise<string[]> => {
+      const installed = await createManager().listInstalled();
+
+      return installed
+         .map((lib) => { return lib.name; })
+         .filter((name) => { return name.startsWith(value); });
+   };
+
+   registerLibraryResource(server, createManager, findLibrary, completeLibrary);
+   registerChunkResource(server, findLibrary, completeLibrary);
+   registerFileResource(server, findLibrary, completeLibrary);
+}
+
+/**
+ * Read from a library's store, closing it afterwards. Libraries that predate the current
+ * schema are migrated when opened.
+ */
+async function withStore<T>(lib: InstalledLibrary, read: (store: VectorStore) => T): Promise<T> {
+   const library = await Library.open(lib.path);
+
+   try {
+      return read(library.getStore());
+   } finally {
+      await library.close();
+   }
+}
+
+/**
+ * libragen://<library> - Lists installed libraries and returns their metadata
+ */
+function registerLibraryResource(
+   server: McpServer,
+   createManager: () => LibraryManager,
+   findLibrary: (name: string) => Promise<InstalledLibrary>,
+   completeLibrary: (value: string) => Promise<string[]>
+): void {
+   const template = new ResourceTemplate('libragen://{library}', {
+      list: async () => {
+         const installed = await createManager().listInstalled();
+
+         return {
+            resources: installed.map((lib) => {
+               return {
+                  uri: getLibraryUri(lib.name),
+                  name: lib.name,
+                  title: lib.metadata.displayName,
+                  description: lib.metadata.agentDescription ?? lib.description,
+                  mimeType: 'application/json',
+               };
+            }),
+         };
+      },
+      complete: { library: completeLibrary },
+   });
+
+   const resourceConfig = {
+      title: 'Library',
+      description: 'Metadata for an installed libragen library',
+      mimeType: 'application/json',
+   };
+
+   server.registerResource('library', template, resourceConfig, async (uri, variables) => {
+      const lib = await findLibrary(decodeURIComponent(String(variables.library)));
+
+      return {
+         contents: [
+            {
+               uri: uri.href,
+               mimeType: 'application/json',
+               text: JSON.stringify({ ...lib.metadata, location: lib.location }, null, 2),
+            },
+         ],
+      };
+   });
+}
+
+/**
+ * libragen://<library>/chunk/<id> - A single chunk, as returned in search results
+ */
+function registerChunkResource(
+   server: McpServer,
+   findLibrary: (name: string) => Promise<InstalledLibrary>,
+   completeLibrary: (value: string) => Promise<string[]>
+): void {
+   const template = new ResourceTemplate('libragen://{library}/chunk/{id}', {
+      list: undefined,
+      complete: { library: completeLibrary },
+   });
+
+   const resourceConfig = {
+      title: 'Library Chunk',
+      description: 'A single chunk of a libragen library, by chunk ID',
+      mimeType: 'text/plain',
+   };
+
+   server.registerResource('library-chunk', template, resourceConfig, async (uri, variables) => {
+      const lib = await findLibrary(decodeURIComponent(String(variables.library))),
+            id = Number(variables.id);
+
+      const chunk = Number.isInteger(id)
+         ? await withStore(lib, (store) => { return store.getChunk(id); })
+         : null;
+
+      if (!chunk) {
+         throw new Error(`Chunk ${variables.id} not found in library '${lib.name}'`);
+      }
+
+      return {
+         contents: [
+            {
+               uri: uri.href,
+               mimeType: 'text/plain',
+               text: chunk.content,
+               _meta: {
+                  sourceFile: chunk.sourceFile,
+                  startLine: chunk.startLine,
+                  endLine: chunk.endLine,
+                  language: chunk.language,
+                  contentVersion: chunk.contentVersion,
+                  fileUri: getFileUri(lib.name, chunk.sourceFile, chunk.contentVersion),
+               },
+            },
+         ],
+      };
+   });
+}
+
+/**
+ * libragen://<library>/file/<sourceFile> - A whole source file, rebuilt from its chunks.
+ * Libraries that hold several versions of their content are read at their newest version
+ * unless the URI names one.
+ */
+function registerFileResource(
+   server: McpServer,
+   findLibrary: (name: string) => Promise<InstalledLibrary>,
+   completeLibrary: (value: string) => Promise<string[]>
+): void {
+   const template = new ResourceTemplate('libragen://{library}/file/{+sourceFile}', {
+      list: undefined,
+      complete: { library: completeLibrary },
+   });
+
+   const resourceConfig = {
+      title: 'Library Source File',
+      description: 'A source file from a libragen library, rebuilt from its chunks',
+      mimeType: 'text/plain',
+   };
+
+   server.registerResource('library-file', template, resourceConfig, async (uri, variables) => {
+      // The reserved expansion also matches the query, which getFileUri() never leaves
+      // unencoded in the path
+      const lib = await findLibrary(decodeURIComponent(String(variables.library))),
+            sourceFile = decodeURIComponent(String(variables.sourceFile).split('?')[0]);
+
+      const { chunks, contentVersion } = await withStore(lib, (store) => {
+         const versions = store.getMetadata<LibraryMetadata>()?.contentVersions,
+               version = uri.searchParams.get('version') ?? (versions && versions.length > 1 ? versions[0] : undefined);
+
+         return { chunks: store.getChunksBySourceFile(sourceFile, version), contentVersion: version };
+      });
+
+      if (chunks.length === 0) {
+         const versionInfo = contentVersion ? ` at version ${contentVersion}` : '';
+
+         throw new Error(`File '${sourceFile}'${versionInfo} not found in library '${lib.name}'`);
+      }
+
+      return {
+         contents: [
+            {
+               uri: uri.href,
+               mimeType: 'text/plain',
+               text: mergeChunkContents(chunks),
+               _meta: {
+                  sourceFile,
+                  contentVersion,
+                  language: chunks[0].language,
+                  chunkCount: chunks.length,
+               },
+            },
+         ],
+      };
+   });
+}
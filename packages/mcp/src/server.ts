@@ -5,7 +5,8 @@
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { VERSION, Embedder, getDefaultLibraryDir, detectProjectLibraryDir, hasProjectLibraryDir } from '@libragen/core';
+import { RootsListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { VERSION, Embedder, getDefaultLibraryDir, discoverLibraryPaths } from '@libragen/core';
 import type { IEmbedder } from '@libragen/core';
 import { registerSearchTool } from './tools/search.ts';
 import { registerListTool } from './tools/list.ts';
@@ -16,6 +17,7 @@ import { registerBuildTool } from './tools/build.ts';
 import { registerCollectionTool } from './tools/collection.ts';
 import { registerConfigTool } from './tools/config.ts';
 import { registerPrompts } from './prompts/index.ts';
+import { registerResources } from './resources/index.ts';
 
 export interface ServerConfig {
 
@@ -26,8 +28,14 @@ export interface ServerConfig {
    embedder?: IEmbedder;
 }
 
+/** A workspace root reported by an MCP client */
+interface Root {
+   uri: string;
+   name?: string;
+}
+
 /**
- * Shared state for library paths discovered from MCP roots.
+ * Library paths discovered from a client's MCP roots.
  * This is updated when the server receives roots from the client.
  */
 export interface LibraryPaths {
@@ -39,7 +47,12 @@ export interface LibraryPaths {
    initialized: boolean;
 }
 
-/** Global library paths state, updated by roots discovery */
+/**
+ * Library paths of the default session, updated by roots discovery when no server is
+ * given. Servers whose client hasn't reported roots use these paths.
+ *
+ * @deprecated Each server tracks its own paths; use `getLibraryPathsState(server)`.
+ */
 export const libraryPaths: LibraryPaths = {
    paths: [ getDefaultLibraryDir() ],
    initialized: false,
@@ -52,47 +65,106 @@ export const libraryPaths: LibraryPaths = {
 const serverConfigs = new WeakMap<McpServer, ServerConfig>();
 
 /**
- * Update library paths based on MCP roots.
+ * Library paths discovered for each server. Each client session has its own server
+ * (one per HTTP session, or one for stdio), so each session searches its own
+ * workspace roots.
+ */
+const serverLibraryPaths = new WeakMap<McpServer, LibraryPaths>();
+
+/**
+ * Update a server's library paths based on its client's MCP roots.
  * Called when the server receives roots from the client.
  */
-export async function updateLibraryPathsFromRoots(roots: Array<{ uri: string; name?: string }>): Promise<void> {
-   const paths: string[] = [];
+export function updateLibraryPathsFromRoots(server: McpServer, roots: Root[]): Promise<void>;
 
-   // Check each root for a .libragen/libraries directory (for discovery)
-   for (const root of roots) {
+/**
+ * Update the default session's library paths based on MCP roots.
+ *
+ * @deprecated Pass the server whose client reported the roots.
+ */
+export function updateLibraryPathsFromRoots(roots: Root[]): Promise<void>;
+
+export async function updateLibraryPathsFromRoots(serverOrRoots: McpServer | Root[], serverRoots?: Root[]): Promise<void> {
+   const roots = Array.isArray(serverOrRoots) ? serverOrRoots : serverRoots ?? [];
+
+   const rootPaths = roots.map((root) => {
       // Convert file:// URI to path
-      let rootPath: string;
-
-      if (root.uri.startsWith('file://')) {
-         rootPath = root.uri.slice(7);
-         // Handle Windows paths (file:///C:/...)
-         if (rootPath.match(/^\/[A-Za-z]:\//)) {
-            rootPath = rootPath.slice(1);
-         }
-      } else {
-         rootPath = root.uri;
+      if (!root.uri.startsWith('file://')) {
+         return root.uri;
       }
 
-      const projectLibDir = detectProjectLibraryDir(rootPath);
+      const rootPath = root.uri.slice(7);
 
-      if (projectLibDir && await hasProjectLibraryDir(rootPath)) {
-         paths.push(projectLibDir);
-      }
-   }
+      // Handle Windows paths (file:///C:/...)
+      return rootPath.match(/^\/[A-Za-z]:\//) ? rootPath.slice(1) : rootPath;
+   });
 
-   // Always include global directory
-   paths.push(getDefaultLibraryDir());
+   // Check each root for a .libragen/libraries directory, then the global directory
+   const paths = await discoverLibraryPaths(rootPaths);
 
-   libraryPaths.paths = paths;
-   libraryPaths.initialized = true;
+   if (Array.isArray(serverOrRoots)) {
+      libraryPaths.paths = paths;
+      libraryPaths.initialized = true;
+   } else {
+      serverLibraryPaths.set(serverOrRoots, { paths, initialized: true });
+   }
+}
+
+/**
+ * Get a server's library paths state.
+ * Returns the default session's paths if the server hasn't discovered its own from roots.
+ */
+export function getLibraryPathsState(server: McpServer): LibraryPaths {
+   return serverLibraryPaths.get(server) ?? libraryPaths;
 }
 
 /**
- * Get the current library paths.
+ * Get the library paths for a server.
  * Returns paths discovered from roots, or defaults if not yet initialized.
  */
-export function getLibraryPaths(): string[] {
-   return libraryPaths.paths;
+export function getLibraryPaths(server: McpServer): string[];
+
+/**
+ * Get the default session's library paths.
+ *
+ * @deprecated Pass the server whose paths to get.
+ */
+export function getLibraryPaths(): string[];
+
+export function getLibraryPaths(server?: McpServer): string[] {
+   return server ? getLibraryPathsState(server).paths : libraryPaths.paths;
+}
+
+/**
+ * Request the client's roots and update the server's library paths from them.
+ * Keeps the current paths if the client doesn't support roots or fails to list them.
+ */
+export async function refreshLibraryPathsFromRoots(server: McpServer): Promise<void> {
+   // Client may not support roots - that's fine, we'll use defaults
+   if (!server.server.getClientCapabilities()?.roots) {
+      return;
+   }
+
+   try {
+      const { roots } = await server.server.listRoots();
+
+      await updateLibraryPathsFromRoots(server, roots);
+   } catch{
+      // Keep the current paths
+   }
+}
+
+/**
+ * Discover library paths from the client's roots once the session is initialized,
+ * and again whenever the client reports that its roots changed.
+ */
+function watchRoots(server: McpServer): void {
+   server.server.oninitialized = () => {
+      refreshLibraryPathsFromRoots(server);
+   };
+   server.server.setNotificationHandler(RootsListChangedNotificationSchema, () => {
+      return refreshLibraryPathsFromRoots(server);
+   });
 }
 
 /**
@@ -120,6 +192,12 @@ export function createServer(config: ServerConfig = {}): McpServer {
    // Register prompts (slash commands)
    registerPrompts(server);
 
+   // Register resources (libraries, chunks and source files)
+   registerResources(server, config);
+
+   // Discover project libraries from the client's workspace roots
+   watchRoots(server);
+
    return server;
 }
 
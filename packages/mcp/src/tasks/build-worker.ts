@@ -7,8 +7,8 @@
 
 import { parentPort, workerData } from 'worker_threads';
 import * as path from 'path';
-import { Builder, LibraryManager, formatBytes } from '@libragen/core';
-import type { BuildProgress } from '@libragen/core';
+import { Builder, BuildCancelledError, LibraryManager, createEmbedder, formatBytes } from '@libragen/core';
+import type { BuildProgress, BuildResult } from '@libragen/core';
 import type { BuildParams } from './task-manager.ts';
 
 /** Messages sent from main thread to worker */
@@ -19,22 +19,22 @@ export interface WorkerInMessage {
 
 /** Messages sent from worker to main thread */
 export interface WorkerOutMessage {
-   type: 'progress' | 'complete' | 'error';
+   type: 'progress' | 'complete' | 'error' | 'cancelled';
    step?: string;
    progress?: number;
    result?: string;
    error?: string;
 }
 
-// Cancellation flag
-let cancelled = false;
+// Aborted when the main thread cancels the build
+const cancellation = new AbortController();
 
 /**
  * Check if cancelled and throw if so.
  */
 function checkCancelled(): void {
-   if (cancelled) {
-      throw new Error('Build cancelled');
+   if (cancellation.signal.aborted) {
+      throw new BuildCancelledError();
    }
 }
 
@@ -59,6 +59,15 @@ function sendComplete(result: string): void {
    } satisfies WorkerOutMessage);
 }
 
+/**
+ * Tell the main thread that the build stopped and cleaned up after being cancelled.
+ */
+function sendCancelled(): void {
+   parentPort?.postMessage({
+      type: 'cancelled',
+   } satisfies WorkerOutMessage);
+}
+
 /**
  * Send error message to the main thread.
  */
@@ -88,6 +97,7 @@ async function executeBuild(params: BuildParams): Promise<void> {
       frameworks,
       chunkSize = 1000,
       chunkOverlap = 100,
+      childChunkSize,
       include,
       exclude,
       gitRef,
@@ -96,13 +106,15 @@ async function executeBuild(params: BuildParams): Promise<void> {
       noAstChunking = false,
       contextMode = 'full',
       install = false,
+      resume = false,
    } = params;
 
    try {
       sendProgress('Initializing...', 5);
       checkCancelled();
 
-      const builder = new Builder();
+      const embedder = createEmbedder(params.embedder),
+            builder = new Builder({ embedder });
 
       // Build using the core Builder class with progress callback
       const buildOptions = {
@@ -119,6 +131,7 @@ async function executeBuild(params: BuildParams): Promise<void> {
          frameworks,
          chunkSize,
          chunkOverlap,
+         childChunkSize,
          include,
          exclude,
          noDefaultExcludes: false,
@@ -127,11 +140,11 @@ async function executeBuild(params: BuildParams): Promise<void> {
          license,
          noAstChunking,
          contextMode: contextMode as 'none' | 'minimal' | 'full',
+         resume,
+         signal: cancellation.signal,
       };
 
       const handleProgress = (progress: BuildProgress): void => {
-         checkCancelled();
-
          // Map BuildProgress to worker progress
          const progressMap: Record<string, number> = {
             'initializing': 5,
@@ -148,7 +161,13 @@ async function executeBuild(params: BuildParams): Promise<void> {
          sendProgress(progress.message, pct);
       };
 
-      const buildResult = await builder.build(source, buildOptions, handleProgress);
+      let buildResult: BuildResult;
+
+      try {
+         buildResult = await builder.build(source, buildOptions, handleProgress);
+      } finally {
+         await embedder.dispose();
+      }
 
       checkCancelled();
 
@@ -189,8 +208,8 @@ async function executeBuild(params: BuildParams): Promise<void> {
       sendProgress('Complete', 100);
       sendComplete(result);
    } catch(error) {
-      if (cancelled) {
-         sendError('Build cancelled');
+      if (error instanceof BuildCancelledError) {
+         sendCancelled();
       } else {
          sendError(error instanceof Error ? error.message : String(error));
       }
@@ -200,7 +219,7 @@ async function executeBuild(params: BuildParams): Promise<void> {
 // Listen for messages from main thread
 parentPort?.on('message', (msg: WorkerInMessage) => {
    if (msg.type === 'cancel') {
-      cancelled = true;
+      cancellation.abort();
    } else if (msg.type === 'start' && msg.params) {
       executeBuild(msg.params).catch((error) => {
          sendError(error instanceof Error ? error.message : String(error));
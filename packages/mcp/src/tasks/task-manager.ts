@@ -4,6 +4,7 @@
 
 import * as os from 'os';
 import { randomUUID } from 'crypto';
+import type { EmbedderOptions } from '@libragen/core';
 
 /** Parameters for starting a build task */
 export interface BuildParams {
@@ -21,6 +22,7 @@ export interface BuildParams {
    frameworks?: string[];
    chunkSize?: number;
    chunkOverlap?: number;
+   childChunkSize?: number;
    include?: string[];
    exclude?: string[];
    gitRef?: string;
@@ -30,6 +32,12 @@ export interface BuildParams {
    contextMode?: 'none' | 'minimal' | 'full';
    install?: boolean;
 
+   /** Continue an interrupted build of the same source and options from its checkpoint */
+   resume?: boolean;
+
+   /** Embedding provider to build with (default: local Transformers.js model) */
+   embedder?: EmbedderOptions;
+
    /** Path to install the library to (used by worker thread) */
    installPath?: string;
 }
@@ -50,6 +58,9 @@ export interface BuildTask {
    startedAt?: Date;
    completedAt?: Date;
 
+   /** Aborted when the task is cancelled, which cancels its build */
+   signal: AbortSignal;
+
    /** Callback to send MCP progress notifications */
    sendProgress?: (notification: { progress: number; total: number; message: string }) => void;
 }
@@ -79,6 +90,7 @@ export class TaskManager {
 
    private _tasks = new Map<string, BuildTask>();
    private _queue: string[] = []; // Task IDs in queue order
+   private _abortControllers = new Map<string, AbortController>();
    private _runningCount = 0;
    private _cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
@@ -110,13 +122,16 @@ export class TaskManager {
       params: BuildParams,
       sendProgress?: BuildTask['sendProgress']
    ): BuildTask {
+      const id = randomUUID();
+
       const task: BuildTask = {
-         id: randomUUID(),
+         id,
          status: 'queued',
          progress: 0,
          currentStep: 'Queued',
          params,
          createdAt: new Date(),
+         signal: this._createSignal(id),
          sendProgress,
       };
 
@@ -239,6 +254,7 @@ export class TaskManager {
       task.status = 'cancelled';
       task.currentStep = 'Cancelled';
       task.completedAt = new Date();
+      this._abortControllers.get(id)?.abort();
 
       if (wasRunning) {
          this._runningCount -= 1;
@@ -256,6 +272,31 @@ export class TaskManager {
       return true;
    }
 
+   /**
+    * Queue a failed task again, continuing from the checkpoint its build left next to the
+    * output. Cancelled builds delete their checkpoint, so they can't be resumed. Returns
+    * true if queued, false if not found or not failed.
+    */
+   public resumeTask(id: string): boolean {
+      const task = this._tasks.get(id);
+
+      if (!task || task.status !== 'failed') {
+         return false;
+      }
+
+      task.status = 'queued';
+      task.progress = 0;
+      task.currentStep = 'Queued (resuming)';
+      task.params = { ...task.params, resume: true };
+      task.error = undefined;
+      task.startedAt = undefined;
+      task.completedAt = undefined;
+      task.signal = this._createSignal(id);
+      this._queue.push(id);
+
+      return true;
+   }
+
    /**
     * Get the number of currently running tasks.
     */
@@ -303,6 +344,7 @@ export class TaskManager {
 
             if (age > this.taskExpiryMs) {
                this._tasks.delete(id);
+               this._abortControllers.delete(id);
             }
          }
       }
@@ -324,6 +366,17 @@ export class TaskManager {
          this._cleanupInterval = null;
       }
    }
+
+   /**
+    * Create the signal a task's build is cancelled with.
+    */
+   private _createSignal(id: string): AbortSignal {
+      const controller = new AbortController();
+
+      this._abortControllers.set(id, controller);
+
+      return controller.signal;
+   }
 }
 
 /** Singleton instance */
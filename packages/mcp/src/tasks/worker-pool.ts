@@ -19,6 +19,10 @@ const currentDirname = path.dirname(currentFilename);
 /** Map of task ID to worker */
 const workers = new Map<string, Worker>();
 
+// How long a cancelled worker has to stop before it's terminated. Covers an embedder
+// call that is under way, with its retries, so the build can finish cleaning up.
+const CANCEL_TIMEOUT_MS = 5 * 60 * 1000;
+
 /**
  * Get the path to the build worker script.
  * Handles both development (.ts) and production (.js) environments.
@@ -55,6 +59,11 @@ export function startWorker(task: BuildTask): void {
 
    workers.set(task.id, worker);
 
+   // Cancelling the task cancels its build
+   task.signal.addEventListener('abort', () => {
+      cancelWorker(task.id);
+   }, { once: true });
+
    // Handle messages from worker
    worker.on('message', (msg: WorkerOutMessage) => {
       const currentTask = taskManager.getTask(task.id);
@@ -84,6 +93,13 @@ export function startWorker(task: BuildTask): void {
             break;
          }
 
+         case 'cancelled': {
+            // The build has cleaned up after itself, so the worker can be stopped
+            cleanupWorker(task.id);
+            worker.terminate();
+            break;
+         }
+
          default: {
             // Unknown message type, ignore
             break;
@@ -111,29 +127,37 @@ export function startWorker(task: BuildTask): void {
 }
 
 /**
- * Cancel a running worker.
+ * Cancel a running worker. The worker cancels its build, which cleans up its partial
+ * output, and is terminated once it reports that the build stopped. Only a worker that
+ * doesn't stop within `CANCEL_TIMEOUT_MS` is terminated without waiting.
  */
 export function cancelWorker(taskId: string): boolean {
    const worker = workers.get(taskId);
 
-   if (worker) {
-      // Send cancel message to worker
-      worker.postMessage({ type: 'cancel' });
+   if (!worker) {
+      return false;
+   }
 
-      // Give worker a chance to clean up, then terminate
-      setTimeout(() => {
-         const w = workers.get(taskId);
+   const timeout = setTimeout(() => {
+      worker.terminate();
+      cleanupWorker(taskId);
+   }, CANCEL_TIMEOUT_MS);
+
+   // The build may also finish or fail before it notices the cancellation
+   const stopOnResult = (msg: WorkerOutMessage): void => {
+      if (msg.type !== 'progress') {
+         worker.off('message', stopOnResult);
+         worker.terminate();
+         cleanupWorker(taskId);
+      }
+   };
 
-         if (w) {
-            w.terminate();
-            cleanupWorker(taskId);
-         }
-      }, 5000);
+   worker.on('message', stopOnResult);
+   worker.once('exit', () => { clearTimeout(timeout); });
 
-      return true;
-   }
+   worker.postMessage({ type: 'cancel' });
 
-   return false;
+   return true;
 }
 
 /**
@@ -11,7 +11,6 @@ import { estimateEmbeddingTime } from '@libragen/core';
 import {
    getTaskManager,
    initializeWorkerPool,
-   cancelWorker,
    type BuildParams,
    type BuildTask,
 } from '../tasks/index.ts';
@@ -131,11 +130,16 @@ ACTIONS:
 - action: 'start' (default) - Start a new build, returns taskId immediately
 - action: 'status' - Check build progress (requires taskId)
 - action: 'cancel' - Cancel a running or queued build (requires taskId)
+- action: 'resume' - Continue a failed build from its last checkpoint (requires taskId). Cancelled
+  builds delete their partial output, so start them again instead
 
 WORKFLOW:
 1. Call with action='start' and source to begin a build
 2. Poll with action='status' and taskId to check progress (every 3-5 seconds)
 3. When status='completed', the result contains the build output
+4. If a build fails partway (e.g. the worker crashed), call with action='resume' and its taskId to
+   continue without re-embedding finished batches. Builds interrupted before a server restart can
+   be continued by starting them again with the same options and resume=true.
 
 IMPORTANT - USER FEEDBACK:
 When polling for status, ALWAYS inform the user about progress. The response includes:
@@ -175,10 +179,10 @@ GIT URL EXAMPLES:
 
 The resulting library can be searched with libragen_search to find relevant content.`,
       inputSchema: {
-         action: z.enum([ 'start', 'status', 'cancel' ]).default('start')
-            .describe('Action to perform: start a build, check status, or cancel'),
+         action: z.enum([ 'start', 'status', 'cancel', 'resume' ]).default('start')
+            .describe('Action to perform: start a build, check status, cancel, or resume'),
          taskId: z.string().optional()
-            .describe('Task ID (required for status and cancel actions)'),
+            .describe('Task ID (required for status, cancel, and resume actions)'),
          source: z.string().optional()
             .describe('Source directory, file path, or git repository URL to index (required for start action)'),
          output: z.string().optional()
@@ -207,6 +211,8 @@ The resulting library can be searched with libragen_search to find relevant cont
             .describe('Target chunk size in characters'),
          chunkOverlap: z.number().optional().default(100)
             .describe('Chunk overlap in characters'),
+         childChunkSize: z.number().optional()
+            .describe('Embed child chunks of this size, storing each chunk as their parent for returnParents'),
          include: z.array(z.string()).optional()
             .describe('Glob patterns to include'),
          exclude: z.array(z.string()).optional()
@@ -223,6 +229,23 @@ The resulting library can be searched with libragen_search to find relevant cont
             .describe('Context mode for AST chunking: none, minimal, or full (default: full)'),
          install: z.boolean().optional().default(false)
             .describe('Install the library after building'),
+         resume: z.boolean().optional().default(false)
+            .describe('Continue an interrupted build of the same source and options from its last checkpoint'),
+         embedder: z
+            .object({
+               provider: z.enum([ 'transformers', 'http' ]).default('transformers')
+                  .describe('Local Transformers.js model, or an OpenAI-compatible HTTP endpoint'),
+               model: z.string().optional()
+                  .describe('Embedding model (required for http)'),
+               url: z.string().optional()
+                  .describe('Base URL of the embeddings API, e.g. http://localhost:11434/v1 (required for http)'),
+               apiKey: z.string().optional()
+                  .describe('API key for the embeddings API'),
+               prefixProfile: z.enum([ 'none', 'bge', 'e5', 'nomic' ]).optional()
+                  .describe('Instruction prefix profile (defaults to the one the model was trained with)'),
+            })
+            .optional()
+            .describe('Embedding provider to use (default: local bge-small-en-v1.5 model)'),
       },
    };
 
@@ -246,7 +269,7 @@ The resulting library can be searched with libragen_search to find relevant cont
             }
 
             // Get install path from discovered library paths (first path is primary)
-            const libraryPaths = getLibraryPaths(),
+            const libraryPaths = getLibraryPaths(server),
                   installPath = libraryPaths.length > 0 ? libraryPaths[0] : undefined;
 
             // Validate install path if install is requested
@@ -280,6 +303,7 @@ The resulting library can be searched with libragen_search to find relevant cont
                frameworks: params.frameworks,
                chunkSize: params.chunkSize,
                chunkOverlap: params.chunkOverlap,
+               childChunkSize: params.childChunkSize,
                include: params.include,
                exclude: params.exclude,
                gitRef: params.gitRef,
@@ -288,6 +312,8 @@ The resulting library can be searched with libragen_search to find relevant cont
                noAstChunking: params.noAstChunking,
                contextMode: params.contextMode,
                install: params.install,
+               resume: params.resume,
+               embedder: params.embedder,
                installPath,
             };
 
@@ -377,11 +403,7 @@ The resulting library can be searched with libragen_search to find relevant cont
                };
             }
 
-            // Cancel worker if running
-            if (task.status === 'running') {
-               cancelWorker(taskId);
-            }
-
+            // Cancelling the task cancels its worker's build
             const cancelled = taskManager.cancelTask(taskId);
 
             return {
@@ -400,6 +422,50 @@ The resulting library can be searched with libragen_search to find relevant cont
             };
          }
 
+         case 'resume': {
+            if (!taskId) {
+               return {
+                  content: [
+                     {
+                        type: 'text' as const,
+                        text: JSON.stringify({ error: 'taskId is required for resume action' }),
+                     },
+                  ],
+               };
+            }
+
+            const resumed = taskManager.resumeTask(taskId),
+                  task = taskManager.getTask(taskId);
+
+            if (!task) {
+               return {
+                  content: [
+                     {
+                        type: 'text' as const,
+                        text: JSON.stringify({ error: 'Task not found', taskId }),
+                     },
+                  ],
+               };
+            }
+
+            taskManager.processQueue();
+
+            return {
+               content: [
+                  {
+                     type: 'text' as const,
+                     text: JSON.stringify({
+                        ...formatTaskResponse(task),
+                        success: resumed,
+                        message: resumed
+                           ? 'Build resumed from its last checkpoint. Poll with action="status" every 3-5s.'
+                           : 'Only failed builds can be resumed; start cancelled builds again',
+                     }),
+                  },
+               ],
+            };
+         }
+
          default: {
             return {
                content: [
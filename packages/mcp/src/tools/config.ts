@@ -11,7 +11,7 @@ import {
    getDefaultLibraryDir,
    getModelCacheDir,
 } from '@libragen/core';
-import { getLibraryPaths, libraryPaths } from '../server.ts';
+import { getLibraryPathsState } from '../server.ts';
 
 interface ConfigResult {
    version: string;
@@ -55,6 +55,8 @@ Returns:
       // eslint-disable-next-line no-process-env
       const env = process.env;
 
+      const libraryPaths = getLibraryPathsState(server);
+
       const config: ConfigResult = {
          version: VERSION,
          paths: {
@@ -62,7 +64,7 @@ Returns:
             libraries: getDefaultLibraryDir(),
             models: getModelCacheDir(),
          },
-         discoveredPaths: getLibraryPaths(),
+         discoveredPaths: libraryPaths.paths,
          pathsInitialized: libraryPaths.initialized,
          environment: {
             LIBRAGEN_HOME: env.LIBRAGEN_HOME || null,
@@ -38,7 +38,7 @@ After installation, use libragen_search to query the installed libraries.`,
    server.registerTool('libragen_install', toolConfig, async (params) => {
       const { source, force = false, includeOptional = false } = params,
             // Use discovered library paths from MCP roots
-            paths = getLibraryPaths();
+            paths = getLibraryPaths(server);
 
       // Validate we have a valid install path
       if (paths.length === 0) {
@@ -36,7 +36,7 @@ Libraries are discovered from:
       // Get library paths (includes project-local if discovered from roots)
       const libraryPaths = config.librariesDir
          ? [ config.librariesDir ]
-         : getLibraryPaths();
+         : getLibraryPaths(server);
 
       // Use LibraryManager to discover libraries
       const manager = new LibraryManager({ paths: libraryPaths });
@@ -118,6 +118,10 @@ function formatLibraries(libraries: InstalledLibrary[]): string {
          lines.push(`   Content Version: ${lib.contentVersion}`);
       }
 
+      if (lib.metadata.contentVersions && lib.metadata.contentVersions.length > 1) {
+         lines.push(`   Content Versions: ${lib.metadata.contentVersions.join(', ')}`);
+      }
+
       if (lib.metadata.stats.chunkCount !== undefined) {
          lines.push(`   Chunks: ${lib.metadata.stats.chunkCount}`);
       }
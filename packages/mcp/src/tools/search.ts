@@ -6,18 +6,31 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { Embedder, VectorStore, Searcher, Reranker, LibraryManager } from '@libragen/core';
-import type { StoredChunk } from '@libragen/core';
+import { MultiLibrarySearcher, Reranker, LibraryManager, openSearchableLibraries } from '@libragen/core';
+import type {
+   StoredChunk,
+   MultiLibrarySearchOptions,
+   BudgetedSearchResponse,
+   HighlightedText,
+   SearchableLibrary,
+   SourceDocument,
+} from '@libragen/core';
 import type { ServerConfig } from '../server.ts';
 import { getLibraryPaths } from '../server.ts';
+import { getChunkUri, getFileUri } from '../resources/index.ts';
 
 interface SearchResultItem {
+   id: number;
    content: string;
    score: number;
    sourceFile: string;
    startLine?: number;
    endLine?: number;
    language?: string;
+   contentVersion?: string;
+   source?: SourceDocument;
+   breadcrumb?: string;
+   matchedTerms?: string[];
    library: string;
    contextBefore?: StoredChunk[];
    contextAfter?: StoredChunk[];
@@ -27,9 +40,6 @@ interface SearchResultItem {
  * Register the libragen_search tool with the MCP server.
  */
 export function registerSearchTool(server: McpServer, config: ServerConfig): void {
-   // Use pre-warmed embedder if provided, otherwise create on demand
-   const sharedEmbedder = config.embedder;
-
    // Lazy-initialized reranker (only created when rerank=true)
    let sharedReranker: Reranker | null = null;
 
@@ -50,35 +60,65 @@ Libraries are discovered from:
 - Global library directory`,
       inputSchema: {
          query: z.string().describe('Natural language search query (e.g., "how to authenticate users")'),
+         advancedQuery: z.boolean().optional().default(false)
+            .describe('Read the query as FTS5 keyword syntax: "exact phrases", prefix*, NEAR(a b, 5), AND, OR, NOT'),
          libraries: z.array(z.string()).optional()
             .describe('Specific libraries to search (searches all installed libraries if not specified)'),
-         contentVersion: z.string().optional().describe('Filter results by content version'),
+         contentVersion: z.string().optional()
+            .describe('Filter by content version: exact, "latest", or a semver or date range such as "^18" (default: newest)'),
+         languages: z.array(z.string()).optional()
+            .describe('Only return chunks in these languages (e.g., ["typescript", "python"])'),
+         sourceFile: z.string().optional()
+            .describe('Only return chunks whose source file matches this glob (e.g., "src/**/*.ts")'),
+         sourceType: z.string().optional().describe('Only return chunks from this source type (e.g., "file")'),
+         entityTypes: z.array(z.string()).optional()
+            .describe('Only return code chunks containing these entity types (e.g., ["function", "class"])'),
          topK: z.number().optional().default(10).describe('Number of results to return (default: 10)'),
          hybridAlpha: z.number().optional().default(0.5)
             .describe('Balance between vector (1) and keyword (0) search (default: 0.5)'),
+         fusion: z.enum([ 'rrf', 'linear' ]).optional().default('rrf')
+            .describe('How hybrid results are fused: weighted reciprocal rank fusion (rrf) or normalized score combination (linear)'),
          contextBefore: z.number().optional().default(1)
             .describe('Number of chunks to include before each result for context (default: 1)'),
          contextAfter: z.number().optional().default(1)
             .describe('Number of chunks to include after each result for context (default: 1)'),
          rerank: z.boolean().optional().default(false)
             .describe('Apply cross-encoder reranking for improved relevance (slower but more accurate)'),
+         returnParents: z.boolean().optional().default(false)
+            .describe('Return the whole section or code entity each match was cut from, for libraries built with child chunks'),
+         mmrLambda: z.number().min(0).max(1).optional()
+            .describe('Diversify results with Maximal Marginal Relevance: 1 keeps relevance order, lower values favor variety'),
+         maxPerFile: z.number().int().positive().optional()
+            .describe('Maximum number of results from the same source file'),
+         maxTokens: z.number().int().positive().optional()
+            .describe('Token budget for the results, filled by relevance with overlapping results merged into excerpts'),
       },
    };
 
    server.registerTool('libragen_search', toolConfig, async ({
       query,
+      advancedQuery = false,
       libraries,
       contentVersion,
+      languages,
+      sourceFile,
+      sourceType,
+      entityTypes,
       topK = 10,
       hybridAlpha = 0.5,
+      fusion = 'rrf',
       contextBefore = 1,
       contextAfter = 1,
       rerank = false,
+      returnParents = false,
+      mmrLambda,
+      maxPerFile,
+      maxTokens,
    }) => {
       // Get library paths (includes project-local if discovered from roots)
       const libraryPaths = config.librariesDir
          ? [ config.librariesDir ]
-         : getLibraryPaths();
+         : getLibraryPaths(server);
 
       // Use LibraryManager to discover libraries
       const manager = new LibraryManager({ paths: libraryPaths });
@@ -98,11 +138,6 @@ Libraries are discovered from:
          };
       }
 
-      // Use shared embedder if available, otherwise create a new one
-      const embedder = sharedEmbedder ?? new Embedder();
-
-      const ownsEmbedder = !sharedEmbedder;
-
       // Initialize reranker if needed (lazy initialization)
       let reranker: Reranker | undefined;
 
@@ -113,65 +148,170 @@ Libraries are discovered from:
          reranker = sharedReranker;
       }
 
+      let stores: SearchableLibrary[] = [],
+          searcher: MultiLibrarySearcher | undefined;
+
+      const searchOptions: MultiLibrarySearchOptions = {
+         query,
+         k: topK,
+         hybridAlpha,
+         fusion,
+         contentVersion,
+         languages,
+         sourceFile,
+         sourceType,
+         entityTypes,
+         contextBefore,
+         contextAfter,
+         rerank,
+         returnParents,
+         mmrLambda,
+         maxPerFile,
+         advancedQuery,
+      };
+
       try {
-         const allResults: SearchResultItem[] = [];
-
-         // Search each library
-         for (const lib of targetLibraries) {
-            const store = new VectorStore(lib.path);
-
-            store.initialize();
-
-            const searcher = new Searcher(embedder, store, { reranker });
-
-            const results = await searcher.search({
-               query,
-               k: topK,
-               hybridAlpha,
-               contentVersion,
-               contextBefore,
-               contextAfter,
-               rerank,
-            });
-
-            for (const result of results) {
-               allResults.push({
-                  content: result.content,
-                  score: result.score,
-                  sourceFile: result.sourceFile,
-                  startLine: result.startLine,
-                  endLine: result.endLine,
-                  language: result.language,
-                  library: lib.name,
-                  contextBefore: result.contextBefore,
-                  contextAfter: result.contextAfter,
-               });
-            }
+         // Migrates libraries that predate the current schema
+         stores = await openSearchableLibraries(targetLibraries);
+
+         // Fuses results across libraries and embeds the query once per embedding model,
+         // using the pre-warmed embedder for libraries built with its model
+         searcher = new MultiLibrarySearcher(stores, {
+            embedder: config.embedder,
+            reranker,
+            // eslint-disable-next-line no-process-env
+            embedderOverrides: { apiKey: process.env.LIBRAGEN_EMBEDDER_API_KEY },
+         });
 
-            store.close();
+         if (maxTokens !== undefined) {
+            const packed = await searcher.searchWithinBudget({ ...searchOptions, maxTokens });
+
+            return {
+               content: [ { type: 'text' as const, text: formatExcerpts(packed, maxTokens) } ],
+            };
          }
 
-         // Sort by score and limit to topK
-         allResults.sort((a, b) => {
-            return b.score - a.score;
+         const { results, failures } = await searcher.search(searchOptions);
+
+         const items: SearchResultItem[] = results.map((result) => {
+            return {
+               id: result.id,
+               content: result.content,
+               score: result.score,
+               sourceFile: result.sourceFile,
+               startLine: result.startLine,
+               endLine: result.endLine,
+               language: result.language,
+               contentVersion: result.contentVersion,
+               source: result.source,
+               breadcrumb: typeof result.metadata?.breadcrumb === 'string' ? result.metadata.breadcrumb : undefined,
+               matchedTerms: result.snippet ? getMatchedTerms(result.snippet) : undefined,
+               library: result.library,
+               contextBefore: result.contextBefore,
+               contextAfter: result.contextAfter,
+            };
          });
-         const limitedResults = allResults.slice(0, topK);
-
-         // Format text output
-         const textOutput = formatResults(limitedResults);
 
          return {
-            content: [ { type: 'text' as const, text: textOutput } ],
+            content: [ { type: 'text' as const, text: formatResults(items) + formatFailures(failures) } ],
          };
       } finally {
-         // Only dispose if we created the embedder (not shared)
-         if (ownsEmbedder) {
-            await embedder.dispose();
+         await searcher?.dispose();
+
+         for (const { store } of stores) {
+            store.close();
          }
       }
    });
 }
 
+function formatFailures(failures: BudgetedSearchResponse['failures']): string {
+   if (failures.length === 0) {
+      return '';
+   }
+
+   const skipped = failures.map((f) => { return `- ${f.library}: ${f.error}`; });
+
+   return `\n\nSkipped libraries:\n${skipped.join('\n')}`;
+}
+
+/**
+ * Format results packed into a token budget, reporting the tokens used so agents can
+ * plan follow-up searches.
+ */
+function formatExcerpts(packed: BudgetedSearchResponse, maxTokens: number): string {
+   const { excerpts, tokensUsed, omitted, failures } = packed;
+
+   if (excerpts.length === 0) {
+      const reason = omitted > 0 ? ` (${omitted} result(s) didn't fit in ${maxTokens} tokens)` : '';
+
+      return `No results found${reason}.${formatFailures(failures)}`;
+   }
+
+   const omittedInfo = omitted > 0 ? `; ${omitted} result(s) didn't fit` : '',
+         lines: string[] = [ `Found ${excerpts.length} excerpt(s) using ${tokensUsed} of ${maxTokens} tokens${omittedInfo}:\n` ];
+
+   for (let i = 0; i < excerpts.length; i++) {
+      const excerpt = excerpts[i],
+            library = excerpt.library ?? '';
+
+      let lineInfo = '';
+
+      if (excerpt.startLine) {
+         lineInfo = `:${excerpt.startLine}${excerpt.endLine ? `-${excerpt.endLine}` : ''}`;
+      }
+
+      const chunkUris = excerpt.chunkIds.map((id) => { return getChunkUri(library, id); }),
+            stats = `score: ${excerpt.score.toFixed(3)}, tokens: ${excerpt.tokens}`;
+
+      lines.push(`--- Excerpt ${i + 1} [${library}] ${excerpt.sourceFile}${lineInfo} (${stats}) ---`);
+      lines.push(`[chunks: ${chunkUris.join(', ')} | file: ${getFileUri(library, excerpt.sourceFile, excerpt.contentVersion)}]`);
+
+      const provenance = formatProvenance(excerpt.source, excerpt.contentVersion);
+
+      if (provenance) {
+         lines.push(provenance);
+      }
+
+      lines.push(excerpt.content);
+      lines.push('');
+   }
+
+   return lines.join('\n') + formatFailures(failures);
+}
+
+/**
+ * Format where a result's document came from, so agents can cite it: the repository or
+ * directory it was read from, its content version and the commit it was read at.
+ */
+function formatProvenance(source: SourceDocument | undefined, contentVersion: string | undefined): string | undefined {
+   const version = contentVersion ?? source?.contentVersion,
+         parts: string[] = [];
+
+   if (source) {
+      parts.push(`source: ${source.uri}`);
+   }
+
+   if (version) {
+      parts.push(`version: ${version}`);
+   }
+
+   if (source?.ref) {
+      parts.push(`commit: ${source.ref}`);
+   }
+
+   return parts.length > 0 ? `[${parts.join(' | ')}]` : undefined;
+}
+
+/**
+ * Get the distinct terms a keyword query matched, as they appear in the text.
+ */
+function getMatchedTerms(snippet: HighlightedText): string[] {
+   const terms = snippet.highlights.map(({ start, end }) => { return snippet.text.slice(start, end); });
+
+   return [ ...new Set(terms) ];
+}
+
 function formatResults(results: SearchResultItem[]): string {
    if (results.length === 0) {
       return 'No results found.';
@@ -188,7 +328,24 @@ function formatResults(results: SearchResultItem[]): string {
          lineInfo = `:${result.startLine}${result.endLine ? `-${result.endLine}` : ''}`;
       }
 
+      const fileUri = getFileUri(result.library, result.sourceFile, result.contentVersion);
+
       lines.push(`--- Result ${i + 1} [${result.library}] ${result.sourceFile}${lineInfo} (score: ${result.score.toFixed(3)}) ---`);
+      lines.push(`[chunk: ${getChunkUri(result.library, result.id)} | file: ${fileUri}]`);
+
+      if (result.breadcrumb) {
+         lines.push(`[section: ${result.breadcrumb}]`);
+      }
+
+      const provenance = formatProvenance(result.source, result.contentVersion);
+
+      if (provenance) {
+         lines.push(provenance);
+      }
+
+      if (result.matchedTerms && result.matchedTerms.length > 0) {
+         lines.push(`[matched: ${result.matchedTerms.join(', ')}]`);
+      }
 
       // Show context before if present
       if (result.contextBefore && result.contextBefore.length > 0) {
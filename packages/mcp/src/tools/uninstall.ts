@@ -29,7 +29,7 @@ Use libragen_list first to see installed libraries and their names.`,
    };
 
    server.registerTool('libragen_uninstall', toolConfig, async ({ name }) => {
-      const paths = getLibraryPaths(),
+      const paths = getLibraryPaths(server),
             manager = new LibraryManager({ paths });
 
       // Find the library first to show what we're removing
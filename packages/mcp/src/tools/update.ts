@@ -43,7 +43,7 @@ Libraries are updated from their original collection sources.`,
       const { name, force = false, dryRun = false } = params;
 
       try {
-         return await handleUpdate(name, force, dryRun);
+         return await handleUpdate(getLibraryPaths(server), name, force, dryRun);
       } catch(error) {
          return {
             content: [
@@ -60,12 +60,12 @@ Libraries are updated from their original collection sources.`,
 type ToolResponse = { content: Array<{ type: 'text'; text: string }> };
 
 async function handleUpdate(
+   paths: string[],
    name: string | undefined,
    force: boolean,
    dryRun: boolean
 ): Promise<ToolResponse> {
-   const paths = getLibraryPaths(),
-         manager = new LibraryManager({ paths }),
+   const manager = new LibraryManager({ paths }),
          client = new CollectionClient();
 
    await client.loadConfig();
@@ -46,6 +46,7 @@ const sourceFiles = [
    path.join(rootDir, 'packages/core/src/manifest.ts'),
    path.join(rootDir, 'packages/core/src/collection.ts'),
    path.join(rootDir, 'packages/core/src/types.ts'),
+   path.join(rootDir, 'packages/core/src/build-config.ts'),
 ];
 
 interface SchemaConfig {
@@ -80,6 +81,12 @@ const schemas: SchemaConfig[] = [
       title: 'Libragen Library Metadata',
       description: 'Metadata stored inside .libragen files describing the library contents',
    },
+   {
+      typeName: 'BuildConfig',
+      fileName: 'build-config.schema.json',
+      title: 'Libragen Build Config',
+      description: 'Declarative build of a library from one or more sources (libragen build --config)',
+   },
 ];
 
 console.log('Generating JSON schemas from TypeScript types...\n');